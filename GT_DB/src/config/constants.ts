@@ -2,25 +2,169 @@
  * Constants used throughout the application
  */
 
-// A collection of table names used in the database. Declared as a constant to prevent accidental modification.
-export const TABLES = {
-  TOKEN_INFO: 'TokenInfo',  // Table storing token details like address, symbol, and decimals.
-  LP_INFO: 'LPInfo',        // Table storing liquidity pool information such as token addresses.
-  ROUTE: 'Route',           // Table storing route data for token swaps.
-} as const; // `as const` ensures these values are readonly and prevents accidental reassignment.
+import { ConfigSchema, loadConfigOrExit } from '../../../shared/config/configLoader';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LoggingOptions, LogLevel } from '../../../shared/logging/logger';
 
-// Type definition for table names derived from the TABLES object. This ensures type safety when referring to tables.
-export type TableName = keyof typeof TABLES;
+// Tunable settings and their defaults. Each one can be set in config.json, with the environment variable of the
+// same name in UPPER_SNAKE_CASE (e.g. MAX_PATH_LENGTH) or with the --kebab-case flag (e.g. --max-path-length).
+export const CONFIG_SCHEMA = {
+  batchSize: { type: 'integer', default: 1000, description: 'Records per batch', min: 1 },
+  maxPathLength: { type: 'integer', default: 5, description: 'Maximum hops of a route', min: 2 },
+  minPathLength: { type: 'integer', default: 2, description: 'Minimum hops of a route', min: 2 },
+  baseToken: {
+    type: 'string',
+    default: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    description: 'Token generated cycles start and end at',
+    pattern: /^0x[a-fA-F0-9]{40}$/,
+  },
+  maxGeneratedRoutes: { type: 'integer', default: 1_000_000, description: 'Upper bound on generated cycles', min: 0 },
+  metadataBatchSize: {
+    type: 'integer',
+    default: 300,
+    description: 'Tokens whose metadata is fetched in one multicall',
+    min: 1,
+  },
+  discoveryFactories: {
+    type: 'string[]',
+    default: [],
+    description: 'V2 factories whose PairCreated events are indexed',
+    pattern: /^0x[a-fA-F0-9]{40}$/,
+  },
+  discoveryStartBlock: {
+    type: 'integer',
+    default: 0,
+    description: 'First block scanned for a factory without a cursor',
+    min: 0,
+  },
+  discoveryEndBlock: {
+    type: 'integer',
+    default: 0,
+    description: 'Last block scanned for new pools, 0 for the latest block',
+    min: 0,
+  },
+  logChunkSize: { type: 'integer', default: 5000, description: 'Blocks per eth_getLogs request', min: 1 },
+  dbName: { type: 'string', default: 'defi.db', description: 'SQLite database file' },
+  tokensFile: { type: 'string', default: 'tokens.json', description: 'Token list to import' },
+  pathsFile: { type: 'string', default: 'uni_sushi_paths.json', description: 'Paths file to import' },
+  defaultV2Fee: {
+    type: 'integer',
+    default: 3000,
+    description: 'Fee of pairs from unknown factories, in hundredths of a bip',
+    min: 0,
+    max: 999_999,
+  },
+  logLevel: { type: 'string', default: 'info', description: 'Lowest level logged', values: LOG_LEVELS },
+  logFormat: { type: 'string', default: 'text', description: 'Console log format', values: LOG_FORMATS },
+  logFileName: { type: 'string', default: '', description: 'JSON lines log file, empty to log to the console only' },
+  logMaxFileSize: {
+    type: 'integer',
+    default: 10 * 1024 * 1024,
+    description: 'Size in bytes at which the log file is rotated',
+    min: 1024,
+  },
+  logMaxFiles: { type: 'integer', default: 5, description: 'Rotated log files kept', min: 0 },
+  rpcEndpoints: {
+    type: 'string[]',
+    default: [],
+    description: 'RPC endpoints used for on-chain lookups, at least one is required',
+    pattern: /^(https?|wss?):\/\//i,
+  },
+} satisfies ConfigSchema;
+
+// Resolved settings, with the config file and profile they were read from. Exits with the list of problems when
+// a setting is invalid.
+export const LOADED_CONFIG = loadConfigOrExit(CONFIG_SCHEMA, {
+  validate: (values) => {
+    const issues: string[] = [];
+    if (values.minPathLength > values.maxPathLength) {
+      issues.push('minPathLength must not exceed maxPathLength');
+    }
+    if (values.rpcEndpoints.length === 0) {
+      issues.push('rpcEndpoints is required: set RPC_ENDPOINTS or add it to the config file');
+    }
+    return issues;
+  },
+});
+
+const settings = LOADED_CONFIG.values;
+
+// Table names of the database, defined by the schema shared with check_arbitrage.
+export { TABLES } from '../../../shared/db/schema';
+export type { TableName } from '../../../shared/db/schema';
 
 // Application configuration settings that are used globally.
 export const CONFIG = {
-  BATCH_SIZE: 1000,           // Number of records processed in a single batch.
-  MAX_PATH_LENGTH: 5,         // Maximum number of hops allowed in a route.
-  MIN_PATH_LENGTH: 2,         // Minimum number of hops required in a valid route.
+  BATCH_SIZE: settings.batchSize,               // Number of records processed in a single batch.
+  MAX_PATH_LENGTH: settings.maxPathLength,      // Maximum number of hops allowed in a route.
+  MIN_PATH_LENGTH: settings.minPathLength,      // Minimum number of hops required in a valid route.
+  BASE_TOKEN: settings.baseToken.toLowerCase(), // Token generated cycles start and end at (WETH).
+  MAX_GENERATED_ROUTES: settings.maxGeneratedRoutes, // Upper bound on cycles generated from the pool graph.
+  METADATA_BATCH_SIZE: settings.metadataBatchSize, // Tokens whose metadata is fetched in one multicall.
   ADDRESS_REGEX: /^0x[a-fA-F0-9]{40}$/, // Regular expression to validate Ethereum addresses.
 } as const; // Marked as readonly to maintain immutability.
 
+// Pool discovery from factory PairCreated events. Every factory keeps a cursor in the database, so later runs
+// only scan blocks after the last one scanned.
+export const DISCOVERY = {
+  FACTORIES: settings.discoveryFactories.map((factory) => factory.toLowerCase()), // Factories to index.
+  START_BLOCK: settings.discoveryStartBlock, // First block scanned when a factory has no cursor.
+  END_BLOCK: settings.discoveryEndBlock,     // Last block scanned, 0 for the latest block.
+  LOG_CHUNK_SIZE: settings.logChunkSize,     // Blocks per eth_getLogs request, halved when a request fails.
+} as const;
+
+// Database file and input files processed by the application.
+export const DB_NAME = settings.dbName;
+export const TOKENS_FILE = settings.tokensFile;
+export const PATHS_FILE = settings.pathsFile;
+
+// Logging of every service, shared with check_arbitrage: level, console format and the rotated JSON lines log file.
+export const LOGGING: LoggingOptions = {
+  level: settings.logLevel as LogLevel,
+  format: settings.logFormat as LogFormat,
+  file: settings.logFileName || null,
+  maxFileSize: settings.logMaxFileSize,
+  maxFiles: settings.logMaxFiles,
+};
+
+// RPC endpoints used for on-chain lookups (comma separated in RPC_ENDPOINTS, shared with check_arbitrage).
+// Requests fail over between the HTTP endpoints of the list.
+export const RPC_ENDPOINTS = settings.rpcEndpoints;
+
 export const PoolABI = [
   "function token0() view returns (address)",
-  "function token1() view returns (address)"
-];
\ No newline at end of file
+  "function token1() view returns (address)",
+  "function fee() view returns (uint24)",        // Uniswap V3 only: fee tier in hundredths of a bip.
+  "function tickSpacing() view returns (int24)", // Uniswap V3 only: reverts on V2 pairs.
+  "function factory() view returns (address)"    // Factory that deployed the pool, decides the default fee.
+];
+
+// V2 factory event announcing a new pair; token0 and token1 are sorted by address.
+export const FactoryABI = [
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint)"
+];
+
+// ERC-20 metadata getters. Return values are decoded by hand, since many tokens return bytes32 instead of string
+// or do not implement every getter.
+export const ERC20_METADATA_ABI = [
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+  "function decimals() view returns (uint8)"
+];
+
+// Pool types stored in the LPInfo table.
+export const POOL_TYPES = {
+  V2: 'v2', // Constant-product pair (Uniswap V2 and forks).
+  V3: 'v3', // Concentrated-liquidity pool (Uniswap V3 and forks).
+} as const;
+
+// Fee charged by V2 pairs whose factory is not listed in DEX_FACTORIES, in hundredths of a bip (0.3%).
+export const DEFAULT_V2_FEE = settings.defaultV2Fee;
+
+// Known V2 factories (lowercase address) with the DEX name and the swap fee their pairs charge,
+// in hundredths of a bip. V3 pools report their own fee tier and do not need an entry.
+export const DEX_FACTORIES: Record<string, { name: string; fee: number }> = {
+  '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f': { name: 'Uniswap V2', fee: 3000 },
+  '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac': { name: 'SushiSwap', fee: 3000 },
+  '0x115934131916c8b277dd010ee02de363c09d037c': { name: 'ShibaSwap', fee: 3000 },
+  '0x1097053fd2ea711dad45caccc45eff7548fcb362': { name: 'PancakeSwap V2', fee: 2500 },
+};
\ No newline at end of file
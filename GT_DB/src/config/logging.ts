@@ -0,0 +1,6 @@
+import { configureLogging } from '../../../shared/logging/logger'; // Logging shared with check_arbitrage.
+import { LOGGING } from './constants'; // Configured level and sinks.
+
+// Applies the logging settings to every logger. Imported first by the entry point, so that records written while
+// the other modules load (e.g. applied schema migrations) already reach the configured sinks.
+configureLogging(LOGGING);
@@ -1,34 +1,83 @@
+import './config/logging';                                    // Configures logging before the other modules load.
 import { DatabaseService } from './services/DatabaseService'; // Service for database operations.
 import { TokenService } from './services/TokenService';       // Service for token-related operations.
 import { RouteService } from './services/RouteService';       // Service for processing routes.
+import { CycleService } from './services/CycleService';       // Service for generating cycles from pools.
+import { DiscoveryService } from './services/DiscoveryService'; // Service for discovering pools from factory events.
 import db from './config/database';                          // Database instance.
+import { LOADED_CONFIG, PATHS_FILE, TOKENS_FILE } from './config/constants'; // Configured input files.
+import { ChangeCounts, RunSummary } from './types';                        // Run summary types.
+import { closeLogging, getLogger } from '../../shared/logging/logger';      // Logging shared with check_arbitrage.
+
+const logger = getLogger('main');
 
 // Main function that orchestrates the data processing workflow.
 async function main() {
   try {
-    console.time('Processing Time'); // Start a timer to measure the execution time.
+    const startedAt = Date.now(); // Start time, to report the execution time.
+    if (LOADED_CONFIG.file) {
+      logger.info('Configuration loaded', { file: LOADED_CONFIG.file, profile: LOADED_CONFIG.profile });
+    }
+
+    const runId = DatabaseService.startRun(); // Every row the run finds is stamped with its number.
+    logger.info('Ingestion run started', { runId });
+
+    // Step 1: Upsert tokens into the database.
+    logger.info('[1/6] Importing tokens');
+    const listed = TokenService.importTokensFromFile(TOKENS_FILE, runId); // Load token data from a file.
+
+    // Step 2: Process liquidity pools and routes, which are read from the paths file in one pass.
+    logger.info('[2/6] Processing liquidities and routes');
+    const paths = await RouteService.processPaths(PATHS_FILE, runId); // Process paths for token swaps.
+
+    // Step 3: Index the pools created by the configured factories since the last scan.
+    logger.info('[3/6] Discovering pools');
+    const discovered = await DiscoveryService.discoverPools(runId); // Pools read from PairCreated events.
+
+    // Step 4: Add the tokens of the pools that the token list lacks.
+    logger.info('[4/6] Resolving pool tokens');
+    const resolved = await TokenService.resolvePoolTokens(runId); // Metadata fetched on-chain or from the cache.
 
-    // Step 1: Import tokens into the database.
-    console.log('[1/4] Importing tokens...');
-    TokenService.importTokensFromFile('tokens.json'); // Load token data from a file.
+    // Step 5: Generate cycles through the base token from the stored pools.
+    logger.info('[5/6] Generating cycles');
+    const generated = CycleService.generateRoutes(runId); // Adds cycles missing from the paths file.
+    logger.info('Cycles generated', { newRoutes: generated });
 
-    // Step 2: Process liquidity pools and routes.
-    console.log('[2/4] Processing liquidities...');
-    console.log('[3/4] Processing routes...');
-    await RouteService.processPaths('uni_sushi_paths.json'); // Process paths for token swaps.
+    // Step 6: Remove what the run no longer found, then record and display the summary.
+    // Only reached when every step succeeded, so a failed run never deletes data.
+    logger.info('[6/6] Recording results');
+    const summary: RunSummary = {
+      tokens: {
+        added: listed.added + resolved.added,
+        changed: listed.changed + resolved.changed,
+        removed: DatabaseService.removeUnseen('TOKEN_INFO', runId),
+      },
+      pools: {
+        added: paths.pools.added + discovered.added,
+        changed: paths.pools.changed + discovered.changed,
+        removed: DatabaseService.removeUnseen('LP_INFO', runId),
+      },
+      routes: {
+        added: paths.routesAdded + generated,
+        changed: 0, // A route is identified by its path, so it can only be added or removed.
+        removed: DatabaseService.removeUnseen('ROUTE', runId),
+      },
+    };
+    DatabaseService.finishRun(runId, summary);
 
-    // Step 3: Display results.
-    console.log('[4/4] Results:');
-    console.log(`Tokens: ${DatabaseService.getCount('TOKEN_INFO')}`); // Count of tokens.
-    console.log(`LPs: ${DatabaseService.getCount('LP_INFO')}`);      // Count of liquidity pools.
-    console.log(`Routes: ${DatabaseService.getCount('ROUTE')}`);    // Count of routes.
+    const describe = (counts: ChangeCounts) =>
+      `+${counts.added} ~${counts.changed} -${counts.removed}`; // Added, changed and removed since the last run.
+    logger.info('Tokens', { total: DatabaseService.getCount('TOKEN_INFO'), changes: describe(summary.tokens) });
+    logger.info('LPs', { total: DatabaseService.getCount('LP_INFO'), changes: describe(summary.pools) });
+    logger.info('Routes', { total: DatabaseService.getCount('ROUTE'), changes: describe(summary.routes) });
 
-    console.timeEnd('Processing Time'); // End the timer and display the elapsed time.
+    logger.info('Ingestion run finished', { runId, durationMs: Date.now() - startedAt }); // Elapsed time.
   } catch (error) {
-    console.error('Error:', error); // Log any errors that occur during execution.
-    process.exit(1);               // Exit the process with an error code.
+    logger.error('Ingestion run failed', { error }); // Log any errors that occur during execution.
+    process.exitCode = 1; // Fail the process once the database and the log file are closed.
   } finally {
-    db.close(); // Ensure the database connection is closed to prevent resource leaks.
+    db.close();     // Ensure the database connection is closed to prevent resource leaks.
+    closeLogging(); // Flush and close the log file.
   }
 }
 
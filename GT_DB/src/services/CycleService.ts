@@ -0,0 +1,98 @@
+// Service that generates arbitrage cycles from the pools stored in the database
+import { DatabaseService } from './DatabaseService';
+import { CONFIG } from '../config/constants';
+import { RoutePath } from '../types';
+import { getLogger } from '../../../shared/logging/logger';
+
+const logger = getLogger('cycles');
+
+// An edge of the token graph: a pool that swaps into another token
+interface PoolEdge {
+  pool: string; // Address of the liquidity pool
+  token: string; // Token received when swapping through the pool
+}
+
+export class CycleService {
+  // Method to generate every cycle through the base token and upsert them as routes.
+  // Returns the number of cycles that were not stored yet.
+  static generateRoutes(runId: number, baseToken: string = CONFIG.BASE_TOKEN): number {
+    const graph = this.buildGraph();
+    let batch: RoutePath[] = [];
+    let generated = 0;
+    let added = 0;
+
+    for (const route of this.enumerateCycles(graph, baseToken.toLowerCase())) {
+      batch.push(route);
+      generated++;
+
+      if (batch.length >= CONFIG.BATCH_SIZE) {
+        added += DatabaseService.upsertRoutes(batch, runId); // Stored cycles are only marked as seen
+        batch = [];
+      }
+      if (generated >= CONFIG.MAX_GENERATED_ROUTES) {
+        logger.warn('Route generation stopped at the limit', { maxRoutes: CONFIG.MAX_GENERATED_ROUTES });
+        break;
+      }
+    }
+
+    return added + DatabaseService.upsertRoutes(batch, runId);
+  }
+
+  // Method to build an undirected token graph where every pool links its two tokens
+  private static buildGraph(): Map<string, PoolEdge[]> {
+    const graph = new Map<string, PoolEdge[]>();
+    const addEdge = (from: string, edge: PoolEdge) => {
+      if (!graph.has(from)) graph.set(from, []);
+      graph.get(from)!.push(edge);
+    };
+
+    DatabaseService.getAllLPs().forEach((lp) => {
+      if (!lp.token1_address || !lp.token2_address) return; // Skip pools with unresolved tokens
+      const token1 = lp.token1_address.toLowerCase();
+      const token2 = lp.token2_address.toLowerCase();
+      addEdge(token1, { pool: lp.address, token: token2 });
+      addEdge(token2, { pool: lp.address, token: token1 });
+    });
+
+    return graph;
+  }
+
+  // Generator yielding every simple cycle that starts and ends at the base token.
+  // A cycle visits each intermediate token and each pool at most once and has between
+  // MIN_PATH_LENGTH and MAX_PATH_LENGTH hops. Both directions of a cycle are yielded since
+  // they are different trades.
+  private static *enumerateCycles(
+    graph: Map<string, PoolEdge[]>,
+    baseToken: string
+  ): Generator<RoutePath> {
+    const visitedTokens = new Set<string>([baseToken]);
+    const usedPools = new Set<string>();
+    const path: RoutePath = [];
+
+    function* extend(token: string): Generator<RoutePath> {
+      const hops = path.length + 1; // Hop count once the next edge is taken
+
+      for (const edge of graph.get(token) || []) {
+        if (usedPools.has(edge.pool)) continue;
+
+        if (edge.token === baseToken) {
+          if (hops >= CONFIG.MIN_PATH_LENGTH) {
+            yield [...path, [baseToken, [edge.pool]]]; // Cycle closed at the base token
+          }
+          continue;
+        }
+        if (hops >= CONFIG.MAX_PATH_LENGTH || visitedTokens.has(edge.token)) continue;
+
+        visitedTokens.add(edge.token);
+        usedPools.add(edge.pool);
+        path.push([edge.token, [edge.pool]]);
+        yield* extend(edge.token); // Recurse to the next hop
+        path.pop();
+        usedPools.delete(edge.pool);
+        visitedTokens.delete(edge.token);
+      }
+    }
+
+    yield* extend(baseToken);
+  }
+}
@@ -1,71 +1,233 @@
 // Importing the database configuration and constants
 import db from '../config/database';
 import { TABLES } from '../config/constants';
-
-// Define interfaces for Token and Liquidity Pool (LP) data structures
-interface TokenInfo {
-  address: string; // Unique address of the token
-  symbol: string; // Short symbol for the token (e.g., ETH, BTC)
-  name: string; // Full name of the token
-  decimals: number; // Number of decimals the token supports
-}
-
-interface LPInfo {
-  address: string; // Address of the liquidity pool
-  token1_address: string; // Address of the first token in the pair
-  token2_address: string; // Address of the second token in the pair
-}
+import { LPData, RoutePath, RunSummary, TokenData, TokenMetadata } from '../types';
+import { Query, routeHash, selectPools, selectToken, serializeRoute } from '../../../shared/db/schema';
 
 // Service class to handle database operations
 export class DatabaseService {
   static readonly BATCH_SIZE = 1000; // Batch size for database operations
 
-  // Method to batch-insert token information into the database
-  static batchInsertTokens(tokens: TokenInfo[]): void {
+  // Method to upsert token information and mark the tokens as seen by the run.
+  // Returns how many tokens were new and how many had a different symbol, name or decimals.
+  static upsertTokens(tokens: TokenData[], runId: number): { added: number; changed: number } {
+    const select = db.prepare<[string], TokenData>(`
+      SELECT address, symbol, name, decimals FROM ${TABLES.TOKEN_INFO} WHERE address = ?
+    `);
     const stmt = db.prepare(`
-      INSERT OR IGNORE INTO ${TABLES.TOKEN_INFO} 
-      (address, symbol, name, decimals)
-      VALUES (?, ?, ?, ?)
-    `); // Prepare SQL statement to insert tokens
+      INSERT INTO ${TABLES.TOKEN_INFO} (address, symbol, name, decimals, last_seen_run)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(address) DO UPDATE SET
+        symbol = excluded.symbol,
+        name = excluded.name,
+        decimals = excluded.decimals,
+        last_seen_run = excluded.last_seen_run
+    `); // Prepare SQL statement to insert or update tokens
+    const counts = { added: 0, changed: 0 };
 
     db.transaction(() => {
       tokens.forEach((token) => {
-        stmt.run(token.address.toLowerCase(), token.symbol, token.name, token.decimals);
-      }); // Insert each token in a batch transaction
+        const address = token.address.toLowerCase();
+        const existing = select.get(address);
+        if (!existing) {
+          counts.added++;
+        } else if (
+          existing.symbol !== token.symbol ||
+          existing.name !== token.name ||
+          existing.decimals !== token.decimals
+        ) {
+          counts.changed++;
+        }
+        stmt.run(address, token.symbol, token.name, token.decimals, runId);
+      }); // Upsert each token in a batch transaction
     })();
+    return counts;
   }
 
-  // Method to batch-insert LP information into the database
-  static batchInsertLPs(lps: LPInfo[]): void {
+  // Method to upsert resolved LP information and mark the LPs as seen by the run.
+  // Returns how many LPs were new and how many had different pool data.
+  static upsertLPs(lps: LPData[], runId: number): { added: number; changed: number } {
+    const select = db.prepare<[string], LPData>(`
+      SELECT address, token1_address, token2_address, pool_type, factory, fee, tick_spacing
+      FROM ${TABLES.LP_INFO} WHERE address = ?
+    `);
     const stmt = db.prepare(`
-      INSERT OR IGNORE INTO ${TABLES.LP_INFO} 
-      (address, token1_address, token2_address)
-      VALUES (?, ?, ?)
-    `); // Prepare SQL statement to insert LPs
+      INSERT INTO ${TABLES.LP_INFO}
+      (address, token1_address, token2_address, pool_type, factory, fee, tick_spacing, last_seen_run)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(address) DO UPDATE SET
+        token1_address = excluded.token1_address,
+        token2_address = excluded.token2_address,
+        pool_type = excluded.pool_type,
+        factory = excluded.factory,
+        fee = excluded.fee,
+        tick_spacing = excluded.tick_spacing,
+        last_seen_run = excluded.last_seen_run
+    `); // Prepare SQL statement to insert or update LPs
+    const counts = { added: 0, changed: 0 };
 
     db.transaction(() => {
       lps.forEach((lp) => {
+        const existing = select.get(lp.address.toLowerCase());
+        if (!existing) {
+          counts.added++;
+        } else if (
+          existing.token1_address !== lp.token1_address.toLowerCase() ||
+          existing.token2_address !== lp.token2_address.toLowerCase() ||
+          existing.pool_type !== lp.pool_type ||
+          existing.fee !== lp.fee ||
+          existing.tick_spacing !== lp.tick_spacing
+        ) {
+          counts.changed++;
+        }
         stmt.run(
           lp.address.toLowerCase(),
           lp.token1_address.toLowerCase(),
-          lp.token2_address.toLowerCase()
-        ); // Insert each LP in a batch transaction
+          lp.token2_address.toLowerCase(),
+          lp.pool_type,
+          lp.factory ? lp.factory.toLowerCase() : null,
+          lp.fee,
+          lp.tick_spacing,
+          runId
+        ); // Upsert each LP in a batch transaction
       });
     })();
+    return counts;
+  }
+
+  // Method to mark already stored LPs as seen by the run without resolving them again
+  static markLPsSeen(addresses: string[], runId: number): void {
+    const stmt = db.prepare(`UPDATE ${TABLES.LP_INFO} SET last_seen_run = ? WHERE address = ?`);
+    db.transaction(() => {
+      addresses.forEach((address) => stmt.run(runId, address.toLowerCase()));
+    })();
+  }
+
+  // Method to mark every stored LP of the given factories as seen by the run. Pools found by earlier
+  // discovery runs are not scanned again but still belong to the pool universe.
+  static markFactoryLPsSeen(factories: string[], runId: number): void {
+    const stmt = db.prepare(`UPDATE ${TABLES.LP_INFO} SET last_seen_run = ? WHERE factory = ?`);
+    db.transaction(() => {
+      factories.forEach((factory) => stmt.run(runId, factory.toLowerCase()));
+    })();
+  }
+
+  // Method to retrieve the last block scanned for pools of a factory, null if it was never scanned
+  static getFactoryCursor(factory: string): number | null {
+    const row = db
+      .prepare<[string], { last_block: number }>(`SELECT last_block FROM ${TABLES.FACTORY_CURSOR} WHERE factory = ?`)
+      .get(factory.toLowerCase());
+    return row ? row.last_block : null;
+  }
+
+  // Method to store the pools a factory created in a block range and advance its cursor in one transaction,
+  // so an interrupted scan resumes after the last stored range. Returns the pool counts.
+  static saveDiscoveredLPs(
+    factory: string,
+    lps: LPData[],
+    lastBlock: number,
+    runId: number
+  ): { added: number; changed: number } {
+    return db.transaction(() => {
+      const counts = this.upsertLPs(lps, runId);
+      db.prepare(`
+        INSERT INTO ${TABLES.FACTORY_CURSOR} (factory, last_block) VALUES (?, ?)
+        ON CONFLICT(factory) DO UPDATE SET last_block = excluded.last_block, updated_at = CURRENT_TIMESTAMP
+      `).run(factory.toLowerCase(), lastBlock);
+      return counts;
+    })();
+  }
+
+  // Method to retrieve the addresses of LPs whose tokens have already been resolved on-chain
+  static getResolvedLPAddresses(): Set<string> {
+    const stmt = db.prepare<[], { address: string }>(`
+      SELECT address FROM ${TABLES.LP_INFO}
+      WHERE token1_address IS NOT NULL AND token1_address != ''
+        AND token2_address IS NOT NULL AND token2_address != ''
+    `);
+    return new Set(stmt.all().map((row) => row.address));
+  }
+
+  // Method to retrieve the tokens referenced by stored LPs that the run has not seen in the token list
+  static getPoolTokensNotSeen(runId: number): string[] {
+    const stmt = db.prepare<[number], { address: string }>(`
+      SELECT address FROM (
+        SELECT token1_address AS address FROM ${TABLES.LP_INFO}
+        UNION
+        SELECT token2_address AS address FROM ${TABLES.LP_INFO}
+      )
+      WHERE address IS NOT NULL AND address != ''
+        AND address NOT IN (SELECT address FROM ${TABLES.TOKEN_INFO} WHERE last_seen_run = ?)
+    `);
+    return stmt.all(runId).map((row) => row.address);
   }
 
-  // Method to batch-insert route paths into the database
-  static batchInsertRoutes(paths: string[]): void {
+  // Method to retrieve the cached on-chain metadata of the given tokens
+  static getCachedTokenMetadata(addresses: string[]): TokenMetadata[] {
+    const stmt = db.prepare<[string], TokenMetadata>(`
+      SELECT address, symbol, name, decimals FROM ${TABLES.TOKEN_METADATA} WHERE address = ?
+    `);
+    return addresses
+      .map((address) => stmt.get(address.toLowerCase()))
+      .filter((metadata): metadata is TokenMetadata => metadata !== undefined);
+  }
+
+  // Method to cache on-chain token metadata, including failed lookups so they are not repeated
+  static cacheTokenMetadata(metadata: TokenMetadata[]): void {
     const stmt = db.prepare(`
-      INSERT INTO ${TABLES.ROUTE} (path)
-      VALUES (?)
-    `); // Prepare SQL statement to insert routes
+      INSERT OR REPLACE INTO ${TABLES.TOKEN_METADATA} (address, symbol, name, decimals)
+      VALUES (?, ?, ?, ?)
+    `); // Prepare SQL statement to cache metadata
 
     db.transaction(() => {
-      paths.forEach((path) => stmt.run(path)); // Insert each route in a batch transaction
+      metadata.forEach((token) => stmt.run(token.address.toLowerCase(), token.symbol, token.name, token.decimals));
     })();
   }
 
+  // Method to upsert routes by their canonical hash and mark them as seen by the run.
+  // Returns the number of routes that were not stored yet.
+  static upsertRoutes(routes: RoutePath[], runId: number): number {
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO ${TABLES.ROUTE} (path, hash, last_seen_run)
+      VALUES (?, ?, ?)
+    `); // Prepare SQL statement to insert routes that are not stored yet
+    const touch = db.prepare(`UPDATE ${TABLES.ROUTE} SET last_seen_run = ? WHERE hash = ?`);
+    let added = 0;
+
+    db.transaction(() => {
+      routes.forEach((route) => {
+        const hash = routeHash(route);
+        if (insert.run(serializeRoute(route), hash, runId).changes > 0) {
+          added++;
+        } else {
+          touch.run(runId, hash); // Already stored: only record that the run produced it again
+        }
+      });
+    })();
+    return added;
+  }
+
+  // Method to start an ingestion run and return its number
+  static startRun(): number {
+    return Number(db.prepare(`INSERT INTO ${TABLES.INGESTION_RUN} DEFAULT VALUES`).run().lastInsertRowid);
+  }
+
+  // Method to delete every row of a table that the run did not see, returning how many were deleted
+  static removeUnseen(table: 'TOKEN_INFO' | 'LP_INFO' | 'ROUTE', runId: number): number {
+    return db
+      .prepare(`DELETE FROM ${TABLES[table]} WHERE last_seen_run IS NULL OR last_seen_run != ?`)
+      .run(runId).changes;
+  }
+
+  // Method to complete an ingestion run and store its summary
+  static finishRun(runId: number, summary: RunSummary): void {
+    db.prepare(`
+      UPDATE ${TABLES.INGESTION_RUN}
+      SET finished_at = CURRENT_TIMESTAMP, summary = ?
+      WHERE id = ?
+    `).run(JSON.stringify(summary), runId);
+  }
+
   // Method to count the number of entries in a specified table
   static getCount(table: keyof typeof TABLES): number {
     const tableName = TABLES[table]; // Resolve table name from constants
@@ -74,12 +236,19 @@ export class DatabaseService {
     return result ? result.count : 0; // Return count or 0 if no entries
   }
 
+  // Method to run a query of the shared schema
+  static query<Row>(query: Query<Row>): Row[] {
+    return db.prepare(query.sql).all(...query.params) as Row[];
+  }
+
+  // Method to retrieve all liquidity pools
+  static getAllLPs(): LPData[] {
+    return this.query(selectPools());
+  }
+
   // Method to retrieve token information by its address
-  static getToken(address: string): TokenInfo | null {
-    const stmt = db.prepare(`
-      SELECT * FROM ${TABLES.TOKEN_INFO}
-      WHERE address = ?
-    `); // Prepare SQL statement to fetch token by address
-    return stmt.get(address.toLowerCase()) as TokenInfo | null; // Return token info or null if not found
+  static getToken(address: string): TokenData | null {
+    const [token] = this.query(selectToken(address)); // Fetch token by address
+    return token ?? null; // Return token info or null if not found
   }
-}
\ No newline at end of file
+}
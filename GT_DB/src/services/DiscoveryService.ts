@@ -0,0 +1,68 @@
+// Service that discovers pools from the PairCreated events of V2 factories
+import { DatabaseService } from './DatabaseService';
+import { DISCOVERY } from '../config/constants';
+import { fetchCreatedPairs, getLatestBlockNumber } from '../utils/helpers';
+import { getLogger } from '../../../shared/logging/logger';
+
+const logger = getLogger('discovery');
+
+export class DiscoveryService {
+  // Method to index the pairs created by every configured factory since its cursor.
+  // Returns how many pools were added and changed.
+  static async discoverPools(runId: number): Promise<{ added: number; changed: number }> {
+    const counts = { added: 0, changed: 0 };
+    if (DISCOVERY.FACTORIES.length === 0) return counts; // Discovery is disabled
+
+    DatabaseService.markFactoryLPsSeen(DISCOVERY.FACTORIES, runId); // Keep pools found by earlier runs
+    const endBlock = DISCOVERY.END_BLOCK || (await getLatestBlockNumber());
+
+    for (const factory of DISCOVERY.FACTORIES) {
+      const cursor = DatabaseService.getFactoryCursor(factory);
+      const startBlock = cursor === null ? DISCOVERY.START_BLOCK : cursor + 1;
+      if (startBlock > endBlock) {
+        logger.info('Factory up to date', { factory, block: cursor });
+        continue;
+      }
+
+      const found = await this.scanFactory(factory, startBlock, endBlock, runId);
+      counts.added += found.added;
+      counts.changed += found.changed;
+      logger.info('Factory scanned', { factory, fromBlock: startBlock, toBlock: endBlock, newPools: found.added });
+    }
+
+    return counts;
+  }
+
+  // Method to scan a block range of a factory in chunks of LOG_CHUNK_SIZE blocks. A failed request is retried
+  // with half the range, since providers reject getLogs ranges with too many results.
+  private static async scanFactory(
+    factory: string,
+    startBlock: number,
+    endBlock: number,
+    runId: number
+  ): Promise<{ added: number; changed: number }> {
+    const counts = { added: 0, changed: 0 };
+    let chunkSize: number = DISCOVERY.LOG_CHUNK_SIZE;
+    let fromBlock = startBlock;
+
+    while (fromBlock <= endBlock) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, endBlock);
+      let pairs;
+      try {
+        pairs = await fetchCreatedPairs(factory, fromBlock, toBlock);
+      } catch (error) {
+        if (chunkSize === 1) throw error; // A single block cannot be split further
+        chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+        logger.warn('getLogs failed, retrying with smaller chunks', { fromBlock, toBlock, chunkSize, error });
+        continue;
+      }
+
+      const found = DatabaseService.saveDiscoveredLPs(factory, pairs, toBlock, runId); // Also advances the cursor
+      counts.added += found.added;
+      counts.changed += found.changed;
+      fromBlock = toBlock + 1;
+    }
+
+    return counts;
+  }
+}
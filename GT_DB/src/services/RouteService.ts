@@ -5,12 +5,19 @@ import { chain } from 'stream-chain';
 import { parser } from 'stream-json';
 import { streamArray } from 'stream-json/streamers/StreamArray';
 import { CONFIG } from '../config/constants';
-import { LPData, RoutePath, PathGroup, PathGroupItem, TABLES } from '../types';
+import { LPData, RoutePath, PathGroup, PathGroupItem } from '../types';
+import { getLogger } from '../../../shared/logging/logger';
 import { fetchTokenAddresses } from '../utils/helpers';
 
+const logger = getLogger('routes');
+
 export class RouteService {
-  // Method to process and store route paths from a file
-  static async processPaths(filePath: string): Promise<void> {
+  // Method to process and store route paths from a file. Only pools that have not been resolved
+  // yet are queried on-chain; returns the pool counts and the number of routes added.
+  static async processPaths(
+    filePath: string,
+    runId: number
+  ): Promise<{ pools: { added: number; changed: number }; routesAdded: number }> {
     const lpSet = new Set<string>(); // Track unique liquidity pool addresses
     const routeQueue: RoutePath[] = []; // Queue of routes to be inserted
     const tokenPairs = new Map<string, LPData>(); // Map of token pairs for LPs
@@ -28,13 +35,26 @@ export class RouteService {
       })
       .filter((lp): lp is LPData => lp !== null); // Filter out null values
     
-    // Insert LPs and routes into the database
-    if (lpObjects.length > 0) {
-      const updatedLpArr = await fetchTokenAddresses(lpObjects);
-      await DatabaseService.batchInsertLPs(updatedLpArr);
+    // Resolve new LPs on-chain; LPs resolved by an earlier run are only marked as seen
+    const resolved = DatabaseService.getResolvedLPAddresses();
+    const newLPs = lpObjects.filter((lp) => !resolved.has(lp.address));
+    DatabaseService.markLPsSeen(
+      lpObjects.filter((lp) => resolved.has(lp.address)).map((lp) => lp.address),
+      runId
+    );
+    let pools = { added: 0, changed: 0 };
+    if (newLPs.length > 0) {
+      logger.info('Resolving new pools', { pools: newLPs.length, stored: lpObjects.length - newLPs.length });
+      const updatedLpArr = await fetchTokenAddresses(newLPs);
+      pools = DatabaseService.upsertLPs(updatedLpArr, runId);
+    }
+
+    // Upsert routes in batches
+    let routesAdded = 0;
+    for (let i = 0; i < routeQueue.length; i += CONFIG.BATCH_SIZE) {
+      routesAdded += DatabaseService.upsertRoutes(routeQueue.slice(i, i + CONFIG.BATCH_SIZE), runId);
     }
-    const routeStrings = routeQueue.map((path) => JSON.stringify(path));
-    await DatabaseService.batchInsertRoutes(routeStrings);
+    return { pools, routesAdded };
   }
 
   // Helper method to process a file line by line
@@ -51,7 +71,7 @@ export class RouteService {
             handler(value); // Process each valid path group
           }
         } catch (error) {
-          console.error('Error processing data chunk:', error);
+          logger.error('Error processing data chunk', { error });
         }
       });
 
@@ -110,6 +130,10 @@ export class RouteService {
             address: lp,
             token1_address: '',
             token2_address: '',
+            pool_type: 'v2', // Resolved on-chain together with the token addresses
+            factory: null,
+            fee: null,
+            tick_spacing: null,
           });
         });
       });
@@ -117,7 +141,7 @@ export class RouteService {
         routeQueue.push(combination); // Add valid routes to the queue
       }
     } catch (error) {
-      console.error('Error processing path group:', error);
+      logger.error('Error processing path group', { error });
     }
   }
 
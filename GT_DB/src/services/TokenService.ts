@@ -1,17 +1,15 @@
 // Service class to handle token-related operations
 import { DatabaseService } from './DatabaseService';
 import fs from 'fs';
+import { TokenData, TokenMetadata } from '../types';
+import { fetchTokenMetadata } from '../utils/helpers';
+import { getLogger } from '../../../shared/logging/logger';
 
-interface TokenInfo {
-  address: string; // Unique address of the token
-  symbol: string; // Symbol for the token
-  name: string; // Name of the token
-  decimals: number; // Decimal places supported by the token
-}
+const logger = getLogger('tokens');
 
 export class TokenService {
-  // Method to import tokens from a file
-  static importTokensFromFile(filePath: string): void {
+  // Method to import tokens from a file, returning how many were added and changed
+  static importTokensFromFile(filePath: string, runId: number): { added: number; changed: number } {
     const tokens = fs
       .readFileSync(filePath, 'utf-8') // Read file content
       .split('\n') // Split into lines
@@ -26,11 +24,42 @@ export class TokenService {
         };
       });
 
-    DatabaseService.batchInsertTokens(tokens); // Insert tokens into the database
+    return DatabaseService.upsertTokens(tokens, runId); // Upsert tokens into the database
+  }
+
+  // Method to add the tokens referenced by pools but missing from the token list. Metadata is fetched on-chain
+  // once and cached; tokens without decimals() are skipped since amounts in them cannot be interpreted.
+  static async resolvePoolTokens(runId: number): Promise<{ added: number; changed: number }> {
+    const missing = DatabaseService.getPoolTokensNotSeen(runId);
+    const cached = DatabaseService.getCachedTokenMetadata(missing);
+    const cachedAddresses = new Set(cached.map((token) => token.address));
+    const uncached = missing.filter((address) => !cachedAddresses.has(address));
+
+    let fetched: TokenMetadata[] = [];
+    if (uncached.length > 0) {
+      fetched = await fetchTokenMetadata(uncached); // Query the token contracts in batches
+      DatabaseService.cacheTokenMetadata(fetched);
+    }
+
+    const metadata = [...cached, ...fetched];
+    const tokens = metadata
+      .filter((token) => token.decimals !== null)
+      .map((token) => {
+        const symbol = token.symbol ?? token.address.slice(0, 10); // Short address when symbol() fails
+        return { address: token.address, symbol, name: token.name ?? symbol, decimals: token.decimals! };
+      });
+    logger.info('Resolved pool tokens missing from the token list', {
+      missing: missing.length,
+      fetched: fetched.length,
+      cached: cached.length,
+      withoutDecimals: metadata.length - tokens.length,
+    });
+
+    return DatabaseService.upsertTokens(tokens, runId);
   }
 
   // Method to retrieve token information by address
-  static getTokenByAddress(address: string): TokenInfo | null {
+  static getTokenByAddress(address: string): TokenData | null {
     return DatabaseService.getToken(address.toLowerCase()); // Fetch token from the database
   }
 }
\ No newline at end of file
@@ -1,29 +1,25 @@
 // src/types.ts
 
+import { LPInfoRow, TokenInfoRow, TokenMetadataRow } from '../../shared/db/schema';
+
+// Row types and the route format are defined by the schema shared with check_arbitrage.
+export type { PoolType, RoutePath } from '../../shared/db/schema';
+
 /**
  * Represents data related to a token.
  */
-export interface TokenData {
-  address: string; // The token's unique blockchain address.
-  symbol: string;  // The token's symbol (e.g., ETH, WBTC).
-  name: string;    // The token's name (e.g., Ethereum, Wrapped Bitcoin).
-  decimals: number; // The number of decimal places the token supports.
-}
+export type TokenData = TokenInfoRow;
 
 /**
- * Represents data related to a liquidity pool (LP).
+ * Token metadata read from the token contract. A getter that reverts or returns data that cannot be decoded
+ * leaves its field null.
  */
-export interface LPData {
-  address: string;         // The liquidity pool's unique blockchain address.
-  token1_address: string;  // The address of the first token in the pool.
-  token2_address: string;  // The address of the second token in the pool.
-}
+export type TokenMetadata = TokenMetadataRow;
 
 /**
- * Represents a single route path in a trading or routing context.
- * Each element is a tuple consisting of a token address and an array of liquidity pool addresses.
+ * Represents data related to a liquidity pool (LP).
  */
-export type RoutePath = Array<[string, string[]]>;
+export type LPData = LPInfoRow;
 
 /**
  * Represents an item in a path group.
@@ -40,16 +36,19 @@ export interface PathGroupItem {
 export type PathGroup = Array<[string, string[]]>;
 
 /**
- * Enum defining table names used in the database.
+ * Number of rows an ingestion run added, changed and removed in one table.
  */
-export const enum TABLES {
-  TOKEN_INFO = 'TokenInfo', // Table storing token-related data.
-  LP_INFO = 'LPInfo',       // Table storing liquidity pool data.
-  ROUTE = 'Route',          // Table storing route path data.
+export interface ChangeCounts {
+  added: number;   // Rows that were not stored before the run.
+  changed: number; // Stored rows whose data the run updated.
+  removed: number; // Stored rows the run no longer found in its input.
 }
 
 /**
- * A type representing the keys of the `TABLES` enum.
- * Used to ensure database queries reference valid table names.
+ * Summary of an ingestion run, stored as JSON in the IngestionRun table.
  */
-export type TableName = keyof typeof TABLES;
+export interface RunSummary {
+  tokens: ChangeCounts; // Changes to the TokenInfo table.
+  pools: ChangeCounts;  // Changes to the LPInfo table.
+  routes: ChangeCounts; // Changes to the Route table.
+}
@@ -1,11 +1,25 @@
 import { ethers } from 'ethers';
-import { PoolABI } from '../config/constants';
+import {
+  CONFIG,
+  DEFAULT_V2_FEE,
+  DEX_FACTORIES,
+  ERC20_METADATA_ABI,
+  FactoryABI,
+  PoolABI,
+  POOL_TYPES,
+  RPC_ENDPOINTS,
+} from '../config/constants';
+import { EndpointPool } from '../../../shared/rpc/endpointPool';
 import {
   Multicall,
+  CallReturnContext,
   ContractCallResults,
   ContractCallContext,
 } from 'ethereum-multicall';
-import { LPData } from '../types';
+import { LPData, TokenMetadata } from '../types';
+
+// Health and latency of the RPC endpoints, kept for the lifetime of the process.
+const endpointPool = new EndpointPool({ endpoints: RPC_ENDPOINTS });
 
 /**
  * Generates the Cartesian product of an array of arrays.
@@ -34,10 +48,18 @@ export const isWETH = (address: string): boolean =>
   // Compare the input address (in lowercase) to the canonical WETH contract address (also lowercase).
   address.toLowerCase() === '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
 
-function extractEthereumAddress(bytesArray: any[]): string {
-  // Convert the byte array to a hex string
-  const hexString = ethers.utils.hexlify(bytesArray);
+/**
+ * Returns the raw return data of a multicall call. The ABIs are human-readable, which ethereum-multicall cannot
+ * decode, so it passes the hex return data through in `returnValues` despite its `any[]` type.
+ * @param context - Result of one call.
+ * @returns The hex return data, `0x` if the call failed and returned nothing.
+ */
+function getReturnData(context: CallReturnContext): string {
+  const data: unknown = context.returnValues;
+  return typeof data === 'string' && ethers.utils.isHexString(data) ? data : '0x';
+}
 
+function extractEthereumAddress(hexString: string): string {
   // Ensure the string has the correct length
   if (hexString.length !== 66) {
     throw new Error("Invalid input. Expected a 32-byte hex string.");
@@ -64,26 +86,193 @@ const convertToContractCallContext = (lpArr: LPData[], abi: any[]): ContractCall
         reference: 'token1', // Reference for the token1 method call
         methodName: 'token1', // The method name to call
         methodParameters: []  // No parameters needed for this method
+      },
+      {
+        reference: 'fee', // V3 fee tier, reverts on V2 pairs
+        methodName: 'fee',
+        methodParameters: []
+      },
+      {
+        reference: 'tickSpacing', // V3 tick spacing, reverts on V2 pairs
+        methodName: 'tickSpacing',
+        methodParameters: []
+      },
+      {
+        reference: 'factory', // Factory used to pick the default V2 fee
+        methodName: 'factory',
+        methodParameters: []
       }
     ]
   }));
 };
 
-export async function fetchTokenAddresses(lpArr: { address: string, token1_address: string, token2_address: string }[]) {
-  const provider = new ethers.providers.InfuraProvider("homestead", "https://gas.api.infura.io/v3/3856c596592c4f29b48fa65916a34ae1");
-  const multicall = new Multicall({ ethersProvider: provider, tryAggregate: true });
+/**
+ * Decodes a raw 32-byte return value as a signed or unsigned integer.
+ * @param data - Hex return data of a multicall call.
+ * @param type - Solidity type of the value (e.g. `uint24`, `int24`).
+ * @returns The decoded number.
+ */
+function decodeInteger(data: string, type: string): number {
+  const [value] = ethers.utils.defaultAbiCoder.decode([type], data);
+  return ethers.BigNumber.from(value).toNumber();
+}
+
+/**
+ * Returns the swap fee charged by V2 pairs of the given factory.
+ * @param factory - Address of the factory that deployed the pair, if known.
+ * @returns The fee in hundredths of a bip; `DEFAULT_V2_FEE` for unknown factories.
+ */
+export const getDefaultV2Fee = (factory: string | null): number =>
+  (factory && DEX_FACTORIES[factory.toLowerCase()]?.fee) || DEFAULT_V2_FEE;
 
+export async function fetchTokenAddresses(lpArr: LPData[]) {
   const contractCallContext = convertToContractCallContext(lpArr, PoolABI);
 
-  // Execute multicall
-  const results: ContractCallResults = await multicall.call(contractCallContext);
+  // Execute multicall, failing over to the next healthy endpoint on error
+  const results: ContractCallResults = await endpointPool.execute('http', (url) => {
+    const provider = new ethers.providers.StaticJsonRpcProvider(url, 'homestead');
+    const multicall = new Multicall({ ethersProvider: provider, tryAggregate: true });
+    return multicall.call(contractCallContext);
+  });
   // Update lpArr with token addresses
   lpArr.forEach(pool => {
-    const token0 = results.results[pool.address].callsReturnContext[0].returnValues
-    const token1 = results.results[pool.address].callsReturnContext[1].returnValues
-    pool.token1_address = extractEthereumAddress(token0) || '';
-    pool.token2_address = extractEthereumAddress(token1) || '';
+    const [token0, token1, fee, tickSpacing, factory] =
+      results.results[pool.address].callsReturnContext;
+    pool.token1_address = extractEthereumAddress(getReturnData(token0)) || '';
+    pool.token2_address = extractEthereumAddress(getReturnData(token1)) || '';
+    pool.factory = factory.success ? extractEthereumAddress(getReturnData(factory)) : null;
+
+    // Only concentrated-liquidity pools expose a tick spacing
+    if (tickSpacing.success && fee.success) {
+      pool.pool_type = POOL_TYPES.V3;
+      pool.fee = decodeInteger(getReturnData(fee), 'uint24');
+      pool.tick_spacing = decodeInteger(getReturnData(tickSpacing), 'int24');
+    } else {
+      pool.pool_type = POOL_TYPES.V2;
+      pool.fee = getDefaultV2Fee(pool.factory);
+      pool.tick_spacing = null;
+    }
   });
 
   return lpArr;
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the number of the latest block.
+ * @returns The block number reported by the first healthy endpoint.
+ */
+export async function getLatestBlockNumber(): Promise<number> {
+  return endpointPool.execute('http', (url) =>
+    new ethers.providers.StaticJsonRpcProvider(url, 'homestead').getBlockNumber()
+  );
+}
+
+/**
+ * Reads the pairs a V2 factory created in a block range from its `PairCreated` events.
+ * @param factory - Address of the factory.
+ * @param fromBlock - First block of the range.
+ * @param toBlock - Last block of the range, inclusive.
+ * @returns The created pairs as V2 pools, with token0 and token1 taken from the event.
+ */
+export async function fetchCreatedPairs(factory: string, fromBlock: number, toBlock: number): Promise<LPData[]> {
+  const factoryInterface = new ethers.utils.Interface(FactoryABI);
+  const logs = await endpointPool.execute('http', (url) =>
+    new ethers.providers.StaticJsonRpcProvider(url, 'homestead').getLogs({
+      address: factory,
+      topics: [factoryInterface.getEventTopic('PairCreated')],
+      fromBlock,
+      toBlock,
+    })
+  );
+
+  return logs.map((log) => {
+    const { token0, token1, pair } = factoryInterface.parseLog(log).args;
+    return {
+      address: pair.toLowerCase(),
+      token1_address: token0.toLowerCase(),
+      token2_address: token1.toLowerCase(),
+      pool_type: POOL_TYPES.V2,
+      factory: factory.toLowerCase(),
+      fee: getDefaultV2Fee(factory),
+      tick_spacing: null,
+    };
+  });
+}
+
+/**
+ * Decodes the raw return data of `symbol()` or `name()`. Standard tokens return a string; older ones (e.g. MKR)
+ * return a zero-padded bytes32.
+ * @param data - Hex return data of a multicall call.
+ * @returns The decoded text without control characters, or `null` if nothing readable was returned.
+ */
+function decodeMetadataString(data: string): string | null {
+  let text: string | null = null;
+  try {
+    [text] = ethers.utils.defaultAbiCoder.decode(['string'], data);
+  } catch {
+    if (ethers.utils.hexDataLength(data) === 32) {
+      const bytes = ethers.utils.arrayify(data);
+      const end = bytes.indexOf(0);
+      text = ethers.utils.toUtf8String(bytes.slice(0, end < 0 ? bytes.length : end), ethers.utils.Utf8ErrorFuncs.ignore);
+    }
+  }
+  const cleaned = text?.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  return cleaned ? cleaned : null;
+}
+
+/**
+ * Decodes the raw return data of `decimals()`, accepting tokens that declare it as a wider integer.
+ * @param data - Hex return data of a multicall call.
+ * @returns The decimals, or `null` if the data is empty or out of the uint8 range.
+ */
+function decodeDecimals(data: string): number | null {
+  try {
+    const [value] = ethers.utils.defaultAbiCoder.decode(['uint256'], data);
+    return ethers.BigNumber.from(value).lte(255) ? ethers.BigNumber.from(value).toNumber() : null;
+  } catch {
+    return null; // No return data, e.g. an address without code
+  }
+}
+
+/**
+ * Fetches the symbol, name and decimals of tokens with batched multicalls. Calls that revert or return
+ * unreadable data leave the field `null` instead of failing the batch.
+ * @param addresses - Token addresses to look up.
+ * @returns The metadata of every token, in input order.
+ */
+export async function fetchTokenMetadata(addresses: string[]): Promise<TokenMetadata[]> {
+  const metadata: TokenMetadata[] = [];
+
+  for (let i = 0; i < addresses.length; i += CONFIG.METADATA_BATCH_SIZE) {
+    const batch = addresses.slice(i, i + CONFIG.METADATA_BATCH_SIZE).map((address) => address.toLowerCase());
+    const contractCallContext: ContractCallContext[] = batch.map((address) => ({
+      reference: address,
+      contractAddress: address,
+      abi: ERC20_METADATA_ABI,
+      calls: ['symbol', 'name', 'decimals'].map((method) => ({
+        reference: method,
+        methodName: method,
+        methodParameters: [],
+      })),
+    }));
+
+    // Execute multicall, failing over to the next healthy endpoint on error
+    const results: ContractCallResults = await endpointPool.execute('http', (url) => {
+      const provider = new ethers.providers.StaticJsonRpcProvider(url, 'homestead');
+      const multicall = new Multicall({ ethersProvider: provider, tryAggregate: true });
+      return multicall.call(contractCallContext);
+    });
+
+    batch.forEach((address) => {
+      const [symbol, name, decimals] = results.results[address].callsReturnContext;
+      metadata.push({
+        address,
+        symbol: symbol.success ? decodeMetadataString(getReturnData(symbol)) : null,
+        name: name.success ? decodeMetadataString(getReturnData(name)) : null,
+        decimals: decimals.success ? decodeDecimals(getReturnData(decimals)) : null,
+      });
+    });
+  }
+
+  return metadata;
+}
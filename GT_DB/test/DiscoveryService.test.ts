@@ -0,0 +1,146 @@
+import './setup';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { ethers } from 'ethers';
+import '../src/config/logging';
+import { DISCOVERY, FactoryABI } from '../src/config/constants';
+import { DatabaseService } from '../src/services/DatabaseService';
+import { DiscoveryService } from '../src/services/DiscoveryService';
+import { LPData } from '../src/types';
+
+const [FACTORY] = DISCOVERY.FACTORIES;
+const TOKEN_A = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const TOKEN_B = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+
+// Blocks of the scanned range in which the factory created a pair
+const PAIR_BLOCKS = [105, 115, 127];
+
+const factoryInterface = new ethers.utils.Interface(FactoryABI);
+
+// Builds the PairCreated log of the pair created in a block; the pair address is derived from the block number.
+const pairCreatedLog = (block: number): ethers.providers.Log => {
+  const pair = ethers.utils.hexZeroPad(ethers.utils.hexlify(block), 20);
+  const { data, topics } = factoryInterface.encodeEventLog(
+    factoryInterface.getEvent('PairCreated'),
+    [TOKEN_A, TOKEN_B, pair, block]
+  );
+  return { address: FACTORY, blockNumber: block, data, topics } as ethers.providers.Log;
+};
+
+describe('DiscoveryService', () => {
+  let cursors: Map<string, number>; // Factory cursors, as DatabaseService stores them
+  let saved: LPData[]; // Pools passed to DatabaseService
+  let requests: { fromBlock: number; toBlock: number; ok: boolean }[]; // getLogs ranges, in request order
+  let maxRange: number; // Widest range getLogs answers
+  let failingBlock: number | null; // Block whose getLogs requests always fail
+
+  beforeEach(() => {
+    cursors = new Map();
+    saved = [];
+    requests = [];
+    maxRange = Infinity;
+    failingBlock = null;
+
+    mock.method(DatabaseService, 'markFactoryLPsSeen', () => undefined);
+    mock.method(
+      DatabaseService,
+      'getFactoryCursor',
+      (factory: string) => cursors.get(factory) ?? null
+    );
+    mock.method(
+      DatabaseService,
+      'saveDiscoveredLPs',
+      (factory: string, lps: LPData[], lastBlock: number) => {
+        saved.push(...lps);
+        cursors.set(factory, lastBlock);
+        return { added: lps.length, changed: 0 };
+      }
+    );
+    mock.method(
+      ethers.providers.StaticJsonRpcProvider.prototype,
+      'getLogs',
+      async (filter: ethers.providers.Filter) => {
+        const fromBlock = Number(filter.fromBlock);
+        const toBlock = Number(filter.toBlock);
+        const ok =
+          toBlock - fromBlock + 1 <= maxRange &&
+          (failingBlock === null || failingBlock < fromBlock || failingBlock > toBlock);
+        requests.push({ fromBlock, toBlock, ok });
+        if (!ok) throw new Error('query returned more than 10000 results');
+        return PAIR_BLOCKS.filter((block) => block >= fromBlock && block <= toBlock).map(
+          pairCreatedLog
+        );
+      }
+    );
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('scans the range in chunks of LOG_CHUNK_SIZE blocks', async () => {
+    const counts = await DiscoveryService.discoverPools(1);
+
+    assert.deepEqual(
+      requests.map(({ fromBlock, toBlock }) => [fromBlock, toBlock]),
+      [
+        [100, 109],
+        [110, 119],
+        [120, 129],
+      ]
+    );
+    assert.deepEqual(counts, { added: PAIR_BLOCKS.length, changed: 0 });
+    assert.deepEqual(
+      saved.map((pool) => [pool.token1_address, pool.token2_address, pool.factory]),
+      PAIR_BLOCKS.map(() => [TOKEN_A, TOKEN_B, FACTORY])
+    );
+  });
+
+  it('halves the chunk while getLogs fails', async () => {
+    maxRange = 3;
+    await DiscoveryService.discoverPools(1);
+
+    assert.deepEqual(
+      requests
+        .filter((request) => !request.ok)
+        .map(({ fromBlock, toBlock }) => [fromBlock, toBlock]),
+      [
+        [100, 109],
+        [100, 104],
+      ]
+    );
+    // The remaining range is scanned with the smaller chunk, without gaps
+    const scanned = requests.filter((request) => request.ok);
+    scanned.forEach((request, index) => {
+      assert.equal(request.toBlock - request.fromBlock + 1, 2);
+      assert.equal(request.fromBlock, index === 0 ? 100 : scanned[index - 1].toBlock + 1);
+    });
+    assert.equal(scanned[scanned.length - 1].toBlock, 129);
+    assert.equal(saved.length, PAIR_BLOCKS.length);
+  });
+
+  it('persists the cursor with every chunk and resumes after it', async () => {
+    failingBlock = 115;
+    await assert.rejects(DiscoveryService.discoverPools(1), /more than 10000 results/);
+    assert.equal(cursors.get(FACTORY), 114); // Last block of the last stored chunk
+
+    failingBlock = null;
+    requests = [];
+    await DiscoveryService.discoverPools(2);
+
+    assert.equal(requests[0].fromBlock, 115);
+    assert.equal(cursors.get(FACTORY), DISCOVERY.END_BLOCK);
+    assert.deepEqual(
+      saved.map((pool) => pool.address),
+      PAIR_BLOCKS.map((block) => ethers.utils.hexZeroPad(ethers.utils.hexlify(block), 20))
+    );
+  });
+
+  it('skips a factory whose cursor is at the end block', async () => {
+    cursors.set(FACTORY, DISCOVERY.END_BLOCK);
+    const counts = await DiscoveryService.discoverPools(1);
+
+    assert.deepEqual(counts, { added: 0, changed: 0 });
+    assert.equal(requests.length, 0);
+  });
+});
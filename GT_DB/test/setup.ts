@@ -0,0 +1,19 @@
+// Environment of the tests, imported by every test before any module of the application. Sets the configuration the
+// constants are read from and keeps the database module from opening a database file: the tests stub the
+// DatabaseService methods they reach.
+Object.assign(process.env, {
+  RPC_ENDPOINTS: 'http://localhost:8545',
+  DISCOVERY_FACTORIES: '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f',
+  DISCOVERY_START_BLOCK: '100',
+  DISCOVERY_END_BLOCK: '129',
+  LOG_CHUNK_SIZE: '10',
+  LOG_LEVEL: 'error',
+});
+
+const databaseModule = require.resolve('../src/config/database');
+require.cache[databaseModule] = {
+  id: databaseModule,
+  filename: databaseModule,
+  loaded: true,
+  exports: { __esModule: true, default: {} },
+} as NodeJS.Module;
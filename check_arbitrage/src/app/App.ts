@@ -12,23 +12,66 @@
  */
 
 import { DatabaseManager } from "../database/dbManager";
+import { OpportunityStore } from "../database/opportunityStore";
 import { EventSubscriber } from "../services/eventSubscriber";
 import { ArbitrageCalculator } from "../services/arbitrageCalculator";
 import { WebSocketManager } from "../server/webSocketServer";
-import { EVENT_NAME, WEB_SERVER_PORT } from "../config/constants";
+import { HttpServer } from "../server/httpServer";
+import { GasEstimator } from "../services/gasEstimator";
+import { WebSocketPool } from "../services/webSocketPool";
+import {
+  AlertManager,
+  createConfiguredSinks,
+} from "../services/alertManager";
+import {
+  BLOCK_EVENT_NAME,
+  EVENT_NAME,
+  HTTP_SERVER_PORT,
+  LOADED_CONFIG,
+  MAX_CONNECTIONS_PER_ENDPOINT,
+  MISSING_RPC_ENDPOINTS,
+  OPPORTUNITY_EVENT_NAME,
+  REORG_EVENT_NAME,
+  RPC_ENDPOINTS,
+  WEB_SERVER_PORT,
+} from "../config/constants";
+import {
+  ArbitrageUpdate,
+  Opportunity,
+  ReorgNotice,
+} from "../types/interfaces";
+import { getLogger } from "../../../shared/logging/logger";
+
+/** Logger of the application lifecycle */
+const logger = getLogger("app");
 
 export class App {
   /** Database manager instance for handling all database operations */
   private dbManager: DatabaseManager | null = null;
+
+  /** Store persisting detected opportunities */
+  private opportunityStore: OpportunityStore | null = null;
   
   /** Arbitrage calculator instance for detecting trading opportunities */
   private arbitrageCalculator: ArbitrageCalculator | null = null;
+
+  /** RPC connections shared by the gas estimator and the event subscriber */
+  private webSocketPool: WebSocketPool | null = null;
+
+  /** Gas estimator tracking the gas price used for net profits */
+  private gasEstimator: GasEstimator | null = null;
   
   /** Event subscriber for monitoring blockchain events */
   private eventSubscriber: EventSubscriber | null = null;
   
   /** WebSocket manager for broadcasting updates to clients */
   private webSocketManager: WebSocketManager | null = null;
+
+  /** HTTP server exposing the read-only REST API */
+  private httpServer: HttpServer | null = null;
+
+  /** Alert manager forwarding profitable routes to the configured sinks */
+  private alertManager: AlertManager | null = null;
   
   /** Array of cleanup callbacks to be executed during shutdown */
   private cleanupCallbacks: (() => Promise<void>)[] = [];
@@ -36,10 +79,12 @@ export class App {
   /**
    * Initializes all components of the application.
    * Sets up the following components in sequence:
-   * 1. Database manager for data persistence
-   * 2. Arbitrage calculator for opportunity detection
-   * 3. WebSocket server for real-time updates
-   * 4. Event subscriber for blockchain monitoring
+   * 1. Database manager and opportunity store for data persistence
+   * 2. RPC connection pool and gas estimator for net profit calculation
+   * 3. Arbitrage calculator for opportunity detection
+   * 4. WebSocket server for real-time updates
+   * 5. HTTP server for the REST API
+   * 6. Event subscriber for blockchain monitoring
    * 
    * Also sets up event handlers and starts monitoring for opportunities.
    * 
@@ -47,37 +92,130 @@ export class App {
    * @throws {Error} If any component fails to initialize
    */
   async initialize() {
+    if (LOADED_CONFIG.file) {
+      logger.info("Configuration loaded", {
+        file: LOADED_CONFIG.file,
+        profile: LOADED_CONFIG.profile,
+      });
+    }
+
     // Initialize database manager for data persistence
     this.dbManager = new DatabaseManager();
     await this.dbManager.initialize();
 
+    // Initialize opportunity store for detection history
+    this.opportunityStore = new OpportunityStore();
+    await this.opportunityStore.initialize();
+    this.cleanupCallbacks.push(async () => this.opportunityStore?.close());
+
+    // Initialize RPC connection pool with failover between endpoints
+    if (RPC_ENDPOINTS.length === 0) {
+      throw new Error(MISSING_RPC_ENDPOINTS);
+    }
+    this.webSocketPool = new WebSocketPool({
+      endpoints: RPC_ENDPOINTS,
+      maxConnections: MAX_CONNECTIONS_PER_ENDPOINT,
+    });
+    // Pool events are only received over WebSocket subscriptions
+    if (!this.webSocketPool.hasWebSocketEndpoints()) {
+      throw new Error(
+        "No WebSocket RPC endpoint configured, add a ws:// or wss:// URL to rpcEndpoints",
+      );
+    }
+
+    // Initialize gas estimator tracking the latest base fee
+    this.gasEstimator = new GasEstimator(this.webSocketPool);
+    await this.gasEstimator.start();
+    this.cleanupCallbacks.push(async () => this.gasEstimator?.stop());
+
     // Initialize arbitrage calculator with database access
-    this.arbitrageCalculator = new ArbitrageCalculator(this.dbManager);
+    this.arbitrageCalculator = new ArbitrageCalculator(
+      this.dbManager,
+      this.gasEstimator,
+    );
     
     // Initialize WebSocket server for real-time updates
-    this.webSocketManager = new WebSocketManager(Number(WEB_SERVER_PORT));
+    const calculator = this.arbitrageCalculator;
+    this.webSocketManager = new WebSocketManager(
+      WEB_SERVER_PORT,
+      (limit) => calculator.getLatestUpdates(limit),
+      (pathId, multipliers) =>
+        calculator.getDepthAnalysis(pathId, multipliers),
+    );
     this.cleanupCallbacks.push(async () => this.webSocketManager?.close());
 
     // Set up event handler for broadcasting arbitrage opportunities
+    this.arbitrageCalculator.on(EVENT_NAME, (update: ArbitrageUpdate) => {
+      this.webSocketManager?.broadcast(update);
+    });
+
+    // Alert the configured sinks of profitable routes
+    const alertManager = new AlertManager(createConfiguredSinks());
+    if (alertManager.hasSinks()) {
+      this.alertManager = alertManager;
+      this.arbitrageCalculator.on(EVENT_NAME, (update: ArbitrageUpdate) => {
+        alertManager.handleUpdate(update);
+      });
+      this.cleanupCallbacks.push(async () => this.alertManager?.close());
+    }
+
+    // Persist detected opportunities
     this.arbitrageCalculator.on(
-      EVENT_NAME,
-      ({ pathId, pathDescription, rate }) => {
-        this.webSocketManager?.broadcast({ pathId, pathDescription, rate });
+      OPPORTUNITY_EVENT_NAME,
+      (opportunity: Opportunity) => {
+        this.opportunityStore?.record(opportunity).catch((error) => {
+          logger.error("Error storing opportunity", {
+            pathId: opportunity.pathId,
+            error,
+          });
+        });
       },
     );
 
+    // Invalidate opportunities from blocks rolled back by a reorganization
+    this.arbitrageCalculator.on(REORG_EVENT_NAME, (notice: ReorgNotice) => {
+      this.webSocketManager?.broadcastReorg(notice);
+      this.opportunityStore
+        ?.invalidateFromBlock(notice.fromBlock)
+        .catch((error) => {
+          logger.error("Error invalidating opportunities", {
+            fromBlock: notice.fromBlock,
+            error,
+          });
+        });
+    });
+
+    // Send leaderboards once every block has been processed
+    this.arbitrageCalculator.on(BLOCK_EVENT_NAME, (blockNumber: number) => {
+      this.webSocketManager?.broadcastLeaderboard(blockNumber);
+    });
+
+    // Initialize HTTP server for state queries
+    this.httpServer = new HttpServer(
+      HTTP_SERVER_PORT,
+      this.dbManager,
+      this.arbitrageCalculator,
+      this.opportunityStore,
+    );
+    this.cleanupCallbacks.push(async () => this.httpServer?.close());
+    await this.httpServer.start();
+
     // Initialize event subscriber for blockchain monitoring
     this.eventSubscriber = new EventSubscriber(
       this.dbManager,
       this.arbitrageCalculator,
+      this.webSocketPool,
     );
-    this.cleanupCallbacks.push(async () => this.eventSubscriber?.shutdown());
+    this.cleanupCallbacks.push(async () => {
+      await this.eventSubscriber?.shutdown();
+      this.webSocketPool?.closeAll();
+    });
 
     // Load initial pool data
     await this.eventSubscriber.fetchInitialPoolReserves();
 
     // Start monitoring for new events
-    console.log("Listening for Swap events...");
+    logger.info("Listening for pool events");
     await this.eventSubscriber.subscribeToPoolsInBatches();
   }
 
@@ -90,7 +228,7 @@ export class App {
    * @returns {Promise<void>}
    */
   async cleanup() {
-    console.log("Cleaning up resources...");
+    logger.info("Cleaning up resources");
     await Promise.all(this.cleanupCallbacks.map((cb) => cb()));
   }
 }
@@ -1,20 +1,403 @@
 /**
  * Configuration constants for the arbitrage detection system.
  * This file contains all the configurable parameters and constants used throughout the application.
+ * Tunable parameters are read from the config file, environment variables
+ * and command line flags described by CONFIG_SCHEMA.
  * 
  * @module constants
  */
 
+import {
+  ConfigSchema,
+  loadConfigOrExit,
+} from "../../../shared/config/configLoader";
+import {
+  LOG_FORMATS,
+  LOG_LEVELS,
+  LogFormat,
+  LoggingOptions,
+  LogLevel,
+} from "../../../shared/logging/logger";
+
+/** Decimal amount, as accepted by ethers.parseUnits */
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/** Ethereum address */
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Tunable parameters of the application and their defaults.
+ * Each setting can be set in the config file, with the environment variable
+ * of the same name in UPPER_SNAKE_CASE or with the --kebab-case flag.
+ */
+export const CONFIG_SCHEMA = {
+  infuraApiKey: {
+    type: "string",
+    default: "",
+    description:
+      "Infura API key used by the default RPC endpoints, required unless rpcEndpoints is set",
+    secret: true,
+  },
+  rpcEndpoints: {
+    type: "string[]",
+    default: [],
+    description: "HTTP and WebSocket RPC endpoints, Infura if empty",
+    pattern: /^(https?|wss?):\/\//i,
+  },
+  maxConnectionsPerEndpoint: {
+    type: "integer",
+    default: 50,
+    description: "WebSocket subscriptions per endpoint",
+    min: 1,
+  },
+  webServerPort: {
+    type: "integer",
+    default: 8080,
+    description: "WebSocket server port",
+    min: 1,
+    max: 65535,
+  },
+  httpServerPort: {
+    type: "integer",
+    default: 8081,
+    description: "REST API port",
+    min: 1,
+    max: 65535,
+  },
+  apiDefaultPageSize: {
+    type: "integer",
+    default: 50,
+    description: "Default REST API page size",
+    min: 1,
+  },
+  apiMaxPageSize: {
+    type: "integer",
+    default: 500,
+    description: "Maximum REST API page size",
+    min: 1,
+  },
+  v3TickBitmapWordRange: {
+    type: "integer",
+    default: 4,
+    description: "Tick bitmap words loaded around the current tick",
+    min: 0,
+  },
+  batchSize: {
+    type: "integer",
+    default: 800,
+    description: "Pools per batch",
+    min: 1,
+  },
+  startAmount: {
+    type: "string",
+    default: "1",
+    description: "Reference trade size, in startCurrency",
+    pattern: DECIMAL_PATTERN,
+  },
+  startCurrency: {
+    type: "string",
+    default: "ETH",
+    description: "Currency the reference trade size is expressed in",
+    values: ["ETH", "USD"],
+  },
+  usdStablecoins: {
+    type: "string[]",
+    default: [
+      "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+      "0xdac17f958d2ee523a2206206994597c13d831ec7",
+      "0x6b175474e89094c44da98b954eedeac495271d0f",
+    ],
+    description: "Tokens valued at one US dollar when pricing ETH",
+    pattern: ADDRESS_PATTERN,
+  },
+  defaultPoolFee: {
+    type: "integer",
+    default: 3000,
+    description: "Fee of pools without a stored fee, in hundredths of a bip",
+    min: 0,
+    max: 999_999,
+  },
+  optimizerMaxIterations: {
+    type: "integer",
+    default: 128,
+    description: "Trade size search steps",
+    min: 1,
+  },
+  depthLadder: {
+    type: "string[]",
+    default: ["0.1", "0.25", "0.5", "0.75", "1", "1.25", "1.5", "2", "3", "5"],
+    description:
+      "Input sizes of depth analyses, as multiples of the optimal input",
+    pattern: DECIMAL_PATTERN,
+  },
+  gasPriceMode: {
+    type: "string",
+    default: "dynamic",
+    description: "Gas price source",
+    values: ["dynamic", "static"],
+  },
+  priorityFeeGwei: {
+    type: "string",
+    default: "1",
+    description: "Priority fee in gwei",
+    pattern: DECIMAL_PATTERN,
+  },
+  staticGasPriceGwei: {
+    type: "string",
+    default: "20",
+    description: "Static gas price in gwei",
+    pattern: DECIMAL_PATTERN,
+  },
+  gasPriceRefreshInterval: {
+    type: "integer",
+    default: 12_000,
+    description: "Base fee refresh interval in milliseconds",
+    min: 1_000,
+  },
+  gasBaseCost: {
+    type: "integer",
+    default: 50_000,
+    description: "Fixed gas of an arbitrage transaction",
+    min: 0,
+  },
+  gasPerV2Hop: {
+    type: "integer",
+    default: 60_000,
+    description: "Gas per V2 swap",
+    min: 0,
+  },
+  gasPerV3Hop: {
+    type: "integer",
+    default: 120_000,
+    description: "Gas per V3 swap",
+    min: 0,
+  },
+  dbName: {
+    type: "string",
+    default: "defi.db",
+    description: "SQLite database file",
+  },
+  logLevel: {
+    type: "string",
+    default: "info",
+    description: "Lowest level logged; debug adds every route evaluation",
+    values: LOG_LEVELS,
+  },
+  logFormat: {
+    type: "string",
+    default: "text",
+    description: "Console log format",
+    values: LOG_FORMATS,
+  },
+  logFileName: {
+    type: "string",
+    default: "arbitrage.log",
+    description: "JSON lines log file, empty to log to the console only",
+  },
+  logMaxFileSize: {
+    type: "integer",
+    default: 10 * 1024 * 1024,
+    description: "Size in bytes at which the log file is rotated",
+    min: 1024,
+  },
+  logMaxFiles: {
+    type: "integer",
+    default: 5,
+    description: "Rotated log files kept",
+    min: 0,
+  },
+  replayOutputFile: {
+    type: "string",
+    default: "replay-opportunities.jsonl",
+    description: "Default replay output file",
+  },
+  snapshotSize: {
+    type: "integer",
+    default: 0,
+    description: "Routes sent to new WebSocket clients, 0 for all",
+    min: 0,
+  },
+  leaderboardSize: {
+    type: "integer",
+    default: 10,
+    description: "Default leaderboard size",
+    min: 1,
+  },
+  blockCoalesceDelay: {
+    type: "integer",
+    default: 500,
+    description: "Milliseconds to wait for more logs of a block",
+    min: 0,
+  },
+  reorgHistoryDepth: {
+    type: "integer",
+    default: 64,
+    description: "Blocks that can be rolled back",
+    min: 1,
+  },
+  executorAddress: {
+    type: "string",
+    default: "",
+    description: "Multi-hop executor contract execution plans are encoded for, empty for none",
+    pattern: /^(0x[a-fA-F0-9]{40})?$/,
+  },
+  forkRpcUrl: {
+    type: "string",
+    default: "http://127.0.0.1:8545",
+    description: "HTTP RPC endpoint of the forked node execution plans are verified against",
+    pattern: /^https?:\/\//i,
+  },
+  alertWebhookUrl: {
+    type: "string",
+    default: "",
+    description: "URL alerts are POSTed to as JSON, empty to disable",
+    pattern: /^(https?:\/\/.+)?$/i,
+  },
+  alertWebhookMinProfit: {
+    type: "number",
+    default: 0,
+    description: "Minimum net profit in ETH of webhook alerts",
+    min: 0,
+  },
+  alertWebhookCooldown: {
+    type: "integer",
+    default: 300_000,
+    description: "Milliseconds between webhook alerts of the same route",
+    min: 0,
+  },
+  alertWebhookRetries: {
+    type: "integer",
+    default: 3,
+    description: "Retries of a failed webhook request",
+    min: 0,
+  },
+  alertWebhookTimeout: {
+    type: "integer",
+    default: 5000,
+    description: "Milliseconds before a webhook request is aborted",
+    min: 1,
+  },
+  alertFile: {
+    type: "string",
+    default: "",
+    description: "JSON lines file alerts are appended to, empty to disable",
+  },
+  alertFileMinProfit: {
+    type: "number",
+    default: 0,
+    description: "Minimum net profit in ETH of file alerts",
+    min: 0,
+  },
+  alertFileCooldown: {
+    type: "integer",
+    default: 0,
+    description: "Milliseconds between file alerts of the same route",
+    min: 0,
+  },
+  alertStdout: {
+    type: "boolean",
+    default: false,
+    description: "Print alerts to stdout",
+  },
+  alertStdoutMinProfit: {
+    type: "number",
+    default: 0,
+    description: "Minimum net profit in ETH of stdout alerts",
+    min: 0,
+  },
+  alertStdoutCooldown: {
+    type: "integer",
+    default: 60_000,
+    description: "Milliseconds between stdout alerts of the same route",
+    min: 0,
+  },
+} satisfies ConfigSchema;
+
+/** Most input sizes a depth analysis quotes */
+export const MAX_DEPTH_POINTS = 50;
+
+/** Flags of the replay, v2-fixtures and verify-plan tools, read with getArgument */
+const COMMAND_FLAGS = [
+  "logs",
+  "snapshot",
+  "out",
+  "cases",
+  "block",
+  "fixtures",
+  "route",
+  "amount",
+  "executor",
+  "from",
+  "rpc",
+];
+
+/** Resolved configuration, the config file it was read from and the selected profile */
+export const LOADED_CONFIG = loadConfigOrExit(CONFIG_SCHEMA, {
+  commandFlags: COMMAND_FLAGS,
+  validate: (values) => {
+    const issues: string[] = [];
+    if (values.apiDefaultPageSize > values.apiMaxPageSize) {
+      issues.push("apiDefaultPageSize must not exceed apiMaxPageSize");
+    }
+    if (values.webServerPort === values.httpServerPort) {
+      issues.push("webServerPort and httpServerPort must differ");
+    }
+    if (values.depthLadder.some((multiplier) => Number(multiplier) <= 0)) {
+      issues.push("depthLadder multipliers must be positive");
+    }
+    if (values.depthLadder.length > MAX_DEPTH_POINTS) {
+      issues.push(
+        `depthLadder must not have more than ${MAX_DEPTH_POINTS} sizes`,
+      );
+    }
+    return issues;
+  },
+});
+
+const settings = LOADED_CONFIG.values;
+
 /** Infura API key for Ethereum network access */
-export const INFURA_API_KEY =
-  process.env.INFURA_API_KEY || "ea0a5cbdb47b4dbfb799f3269d449904";
+export const INFURA_API_KEY = settings.infuraApiKey;
+
+/**
+ * HTTP and WebSocket RPC endpoints.
+ * Requests and subscriptions fail over between endpoints of the same kind.
+ * Empty if neither endpoints nor an Infura key are configured; the offline
+ * tools (replay, fixture verification, plan verification) need none, the
+ * entry points that connect refuse to start with MISSING_RPC_ENDPOINTS.
+ */
+export const RPC_ENDPOINTS =
+  settings.rpcEndpoints.length > 0
+    ? settings.rpcEndpoints
+    : INFURA_API_KEY
+      ? [
+          `https://mainnet.infura.io/v3/${INFURA_API_KEY}`,
+          `wss://mainnet.infura.io/ws/v3/${INFURA_API_KEY}`,
+        ]
+      : [];
+
+/** Error message of entry points that need RPC_ENDPOINTS when it is empty */
+export const MISSING_RPC_ENDPOINTS =
+  "infuraApiKey is required unless rpcEndpoints is set: set INFURA_API_KEY or add it to the config file";
+
+/** Maximum number of WebSocket subscriptions opened on a single endpoint */
+export const MAX_CONNECTIONS_PER_ENDPOINT = settings.maxConnectionsPerEndpoint;
 
 /** Address of the Uniswap viewer contract for fetching pool data */
 export const UNISWAP_VIEWER_ADDRESS =
   "0x416355755f32b2710ce38725ed0fa102ce7d07e6";
 
 /** WebSocket server port for real-time updates */
-export const WEB_SERVER_PORT = process.env.WEB_SERVER_PORT || 8080;
+export const WEB_SERVER_PORT = settings.webServerPort;
+
+/** HTTP server port for the read-only REST API */
+export const HTTP_SERVER_PORT = settings.httpServerPort;
+
+/** Default number of items per page of REST API responses */
+export const API_DEFAULT_PAGE_SIZE = settings.apiDefaultPageSize;
+
+/** Maximum number of items per page of REST API responses */
+export const API_MAX_PAGE_SIZE = settings.apiMaxPageSize;
 
 /**
  * ABI definition for the Uniswap viewer contract.
@@ -68,26 +451,215 @@ export const UNISWAP_V2_POOL_ABI = [
   },
 ];
 
+/**
+ * ABI definition for Uniswap V3 pool contracts.
+ * Contains the state getters used to load a pool and the events that
+ * change its price, active liquidity and tick table.
+ */
+export const UNISWAP_V3_POOL_ABI = [
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+  "function liquidity() view returns (uint128)",
+  "function tickBitmap(int16 wordPosition) view returns (uint256)",
+  "function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  "event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)",
+];
+
+/** Address of the Multicall3 contract used to batch V3 state reads */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** ABI definition for the Multicall3 aggregate3 function */
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+/** Address of the Uniswap V2 router quoted when recording V2 fixtures */
+export const UNISWAP_V2_ROUTER_ADDRESS =
+  "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D";
+
+/** Address of the Uniswap V2 factory the router resolves pairs with */
+export const UNISWAP_V2_FACTORY_ADDRESS =
+  "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f";
+
+/** Router, factory and pair functions read when recording V2 fixtures */
+export const UNISWAP_V2_FIXTURE_ABI = [
+  "function getAmountsOut(uint amountIn, address[] path) view returns (uint[] amounts)",
+  "function getAmountsIn(uint amountOut, address[] path) view returns (uint[] amounts)",
+  "function getPair(address tokenA, address tokenB) view returns (address pair)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+/** Default file of recorded Uniswap V2 router quotes */
+export const V2_FIXTURE_FILE = "fixtures/uniswapV2.json";
+
+/** Uniswap V2 pair functions used to execute and verify a hop */
+export const UNISWAP_V2_PAIR_ABI = [
+  "function swap(uint amount0Out, uint amount1Out, address to, bytes data)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+/** ERC-20 transfer, used to fund the first pair of a route */
+export const ERC20_TRANSFER_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+/**
+ * ABI of the generic multi-hop executor contract execution plans are
+ * encoded for. `execute` performs the calls in order and reverts unless its
+ * balance of `profitToken` grew by at least `minProfit`, returning the
+ * growth. The executor must hold the input amount of the route.
+ */
+export const EXECUTOR_ABI = [
+  "function execute(address profitToken, uint256 minProfit, (address target, bytes data)[] calls) returns (uint256 profit)",
+];
+
+/** Executor contract execution plans are encoded for, null if not configured */
+export const EXECUTOR_ADDRESS = settings.executorAddress
+  ? settings.executorAddress.toLowerCase()
+  : null;
+
+/** HTTP RPC endpoint of the forked node execution plans are verified against */
+export const FORK_RPC_URL = settings.forkRpcUrl;
+
+/**
+ * Number of tick bitmap words loaded on each side of the current tick of a
+ * V3 pool. Each word covers 256 * tickSpacing ticks.
+ */
+export const V3_TICK_BITMAP_WORD_RANGE = settings.v3TickBitmapWordRange;
+
 /** Number of pools to process in each batch */
-export const BATCH_SIZE = 800;
+export const BATCH_SIZE = settings.batchSize;
+
+/**
+ * Reference trade size of every route, in START_CURRENCY. Converted to the
+ * start token of each route at its current price.
+ */
+export const START_AMOUNT = settings.startAmount;
+
+/** Currency START_AMOUNT is expressed in */
+export const START_CURRENCY = settings.startCurrency as "ETH" | "USD";
+
+/** Address of WETH, the token prices are expressed against */
+export const WETH_ADDRESS = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
 
-/** Initial amount in ETH for arbitrage calculations */
-export const START_AMOUNT = "1";
+/** USD stablecoins (lowercase addresses) used to derive the price of ETH in USD */
+export const USD_STABLECOINS = settings.usdStablecoins.map((address) =>
+  address.toLowerCase(),
+);
 
-/** Starting currency for arbitrage calculations */
-export const START_CURRENCY = "WETH";
+/** Denominator of pool fees: fees are stored in hundredths of a bip (1e-6) */
+export const FEE_DENOMINATOR = 1_000_000;
 
-/** Trading fee percentage (0.5%) */
-export const FEE_PERCENT = 0.5;
+/**
+ * Fee applied to pools without a stored fee (databases ingested before
+ * per-pool fees), in hundredths of a bip (3000 = 0.3%)
+ */
+export const DEFAULT_POOL_FEE = settings.defaultPoolFee;
+
+/**
+ * Maximum number of bracket-growing and narrowing steps used when searching
+ * for the optimal trade size numerically
+ */
+export const OPTIMIZER_MAX_ITERATIONS = settings.optimizerMaxIterations;
+
+/**
+ * Input sizes a depth analysis quotes by default, as multiples of the
+ * route's optimal input (of the reference amount if no size is profitable)
+ */
+export const DEPTH_LADDER = settings.depthLadder.map(Number);
+
+/**
+ * Gas price source: "dynamic" uses the latest block's base fee plus
+ * PRIORITY_FEE_GWEI, "static" always uses STATIC_GAS_PRICE_GWEI
+ */
+export const GAS_PRICE_MODE = settings.gasPriceMode as "dynamic" | "static";
+
+/** Priority fee in gwei added to the base fee in dynamic mode */
+export const PRIORITY_FEE_GWEI = settings.priorityFeeGwei;
+
+/** Gas price in gwei used in static mode and before the first base fee is known */
+export const STATIC_GAS_PRICE_GWEI = settings.staticGasPriceGwei;
+
+/** Interval in milliseconds between base fee refreshes */
+export const GAS_PRICE_REFRESH_INTERVAL = settings.gasPriceRefreshInterval;
+
+/** Fixed gas of an arbitrage transaction (intrinsic cost and executor overhead) */
+export const GAS_BASE_COST = settings.gasBaseCost;
+
+/** Gas used by a swap through a Uniswap V2 pair */
+export const GAS_PER_V2_HOP = settings.gasPerV2Hop;
+
+/** Gas used by a swap through a Uniswap V3 pool, including a tick crossing */
+export const GAS_PER_V3_HOP = settings.gasPerV3Hop;
 
 /** Maximum number of concurrent connections */
 export const MAX_CONNECTIONS = 2;
 
 /** SQLite database filename */
-export const DB_NAME = "defi.db";
+export const DB_NAME = settings.dbName;
+
+/**
+ * Logging of every module: level, console format and the rotated JSON lines
+ * log file, if any
+ */
+export const LOGGING: LoggingOptions = {
+  level: settings.logLevel as LogLevel,
+  format: settings.logFormat as LogFormat,
+  file: settings.logFileName || null,
+  maxFileSize: settings.logMaxFileSize,
+  maxFiles: settings.logMaxFiles,
+};
 
-/** Log file name for arbitrage opportunities */
-export const LOG_FILE_NAME = "arbitrage.log";
+/** Default output file for per-block replay results */
+export const REPLAY_OUTPUT_FILE = settings.replayOutputFile;
 
 /** Event name for arbitrage rate updates */
 export const EVENT_NAME = "arbitrageRateUpdated";
+
+/** Event name emitted once every log of a block has been processed */
+export const BLOCK_EVENT_NAME = "blockProcessed";
+
+/** Number of routes sent to new WebSocket clients, 0 sends every route */
+export const SNAPSHOT_SIZE = settings.snapshotSize;
+
+/** Default number of routes in a leaderboard message */
+export const LEADERBOARD_SIZE = settings.leaderboardSize;
+
+/** Event name for detected opportunities, emitted with the per-hop amounts */
+export const OPPORTUNITY_EVENT_NAME = "opportunityDetected";
+
+/**
+ * Webhook alert sink: URL (empty to disable), minimum net profit in ETH,
+ * per-route cooldown and delivery retries and timeout in milliseconds
+ */
+export const ALERT_WEBHOOK = {
+  url: settings.alertWebhookUrl,
+  minProfit: settings.alertWebhookMinProfit,
+  cooldownMs: settings.alertWebhookCooldown,
+  retries: settings.alertWebhookRetries,
+  timeoutMs: settings.alertWebhookTimeout,
+};
+
+/** JSON lines alert sink: file (empty to disable), minimum net profit in ETH and per-route cooldown */
+export const ALERT_FILE = {
+  file: settings.alertFile,
+  minProfit: settings.alertFileMinProfit,
+  cooldownMs: settings.alertFileCooldown,
+};
+
+/** Stdout alert sink: whether it is enabled, minimum net profit in ETH and per-route cooldown */
+export const ALERT_STDOUT = {
+  enabled: settings.alertStdout,
+  minProfit: settings.alertStdoutMinProfit,
+  cooldownMs: settings.alertStdoutCooldown,
+};
+
+/** Time in milliseconds to wait for more logs of a block before processing it */
+export const BLOCK_COALESCE_DELAY = settings.blockCoalesceDelay;
+
+/** Event name emitted when blocks are rolled back after a chain reorganization */
+export const REORG_EVENT_NAME = "chainReorganized";
+
+/** Number of recent blocks whose pool changes can be undone after a reorganization */
+export const REORG_HISTORY_DEPTH = settings.reorgHistoryDepth;
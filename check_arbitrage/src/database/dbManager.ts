@@ -8,6 +8,7 @@
  * - Data caching using Maps
  * - Efficient data retrieval
  * - Type-safe data structures
+ * - Refuses databases whose schema version differs from the shared schema
  * 
  * @class DatabaseManager
  */
@@ -16,6 +17,16 @@ import { open, Database } from "sqlite";
 import sqlite3 from "sqlite3";
 import { TokenInfo, LPInfo, RouteInfo, PathIdArray } from "../types/interfaces";
 import { DB_NAME } from "../config/constants";
+import {
+  checkSchemaVersion,
+  parseRoutePath,
+  Query,
+  selectPools,
+  selectRoutes,
+  selectSchemaTable,
+  selectSchemaVersion,
+  selectTokens,
+} from "../../../shared/db/schema";
 
 export class DatabaseManager {
   /** Map of token addresses to token information */
@@ -32,16 +43,48 @@ export class DatabaseManager {
 
   /**
    * Initializes the database manager.
-   * Opens the database connection, fetches all necessary data,
-   * and populates the in-memory maps.
+   * Opens the database connection, checks its schema version, fetches all
+   * necessary data, and populates the in-memory maps.
    * 
    * @async
    * @returns {Promise<void>}
+   * @throws {SchemaVersionError} If the database was not migrated to the shared schema version
    */
   async initialize() {
     const db = await this.openDatabase();
-    await this.fetchData(db);
-    await db.close();
+    try {
+      checkSchemaVersion(await this.getSchemaVersion(db));
+      await this.fetchData(db);
+    } finally {
+      await db.close();
+    }
+  }
+
+  /**
+   * Runs a query of the shared schema.
+   *
+   * @private
+   * @async
+   * @param {Database} db - SQLite database connection
+   * @param {Query<Row>} query - Query to run
+   * @returns {Promise<Row[]>} Rows returned by the query
+   */
+  private async query<Row>(db: Database, query: Query<Row>): Promise<Row[]> {
+    return (await db.all(query.sql, ...query.params)) as Row[];
+  }
+
+  /**
+   * Reads the schema version written by GT_DB's migrations.
+   *
+   * @private
+   * @async
+   * @param {Database} db - SQLite database connection
+   * @returns {Promise<number>} Schema version, 0 if the database is unversioned
+   */
+  private async getSchemaVersion(db: Database): Promise<number> {
+    if ((await this.query(db, selectSchemaTable())).length === 0) return 0;
+    const [row] = await this.query(db, selectSchemaVersion());
+    return row?.version ?? 0;
   }
 
   /**
@@ -70,14 +113,14 @@ export class DatabaseManager {
    */
   private async fetchData(db: Database) {
     // Fetch and cache token information
-    const tokens = (await db.all("SELECT * FROM TokenInfo")) as TokenInfo[];
+    const tokens: TokenInfo[] = await this.query(db, selectTokens());
     tokens.forEach((token: TokenInfo) => {
       this.tokenMap.set(token.address.toLocaleLowerCase(), token);
     });
 
     // Fetch and cache liquidity pool information
-    const lps = (await db.all("SELECT * FROM LPInfo")) as LPInfo[];
-    lps.forEach((lp: LPInfo) => {
+    const lps = await this.query(db, selectPools());
+    lps.forEach((lp) => {
       this.lpMap.set(lp.address.toLocaleLowerCase(), {
         ...lp,
         reserve1: 0n,
@@ -86,25 +129,22 @@ export class DatabaseManager {
     });
 
     // Fetch and cache route information
-    const routes = (await db.all("SELECT id, path FROM Route")) as {
-      id: string;
-      path: string;
-    }[];
-    routes.forEach((route: { id: string; path: string }) => {
+    const routes = await this.query(db, selectRoutes());
+    routes.forEach((route) => {
       // Parse route path and create route information
-      const pathArray: [string, [string]][] = JSON.parse(route.path);
-      const routeInfo = pathArray.map(([target, [lp]]: [string, [string]]) => ({
+      const id = String(route.id);
+      const routeInfo = parseRoutePath(route.path).map(([target, [lp]]) => ({
         target,
         lp,
       }));
-      this.routeMap.set(route.id, { id: route.id, routeInfo });
+      this.routeMap.set(id, { id, routeInfo });
 
       // Create LP to route mapping for efficient lookups
       routeInfo.forEach(({ lp }) => {
         if (!this.lp2routeMapping.has(lp)) {
           this.lp2routeMapping.set(lp, []);
         }
-        this.lp2routeMapping.get(lp)!.push(route.id);
+        this.lp2routeMapping.get(lp)!.push(id);
       });
     });
   }
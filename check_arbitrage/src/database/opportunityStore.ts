@@ -0,0 +1,212 @@
+/**
+ * Persistent store for detected arbitrage opportunities.
+ * Writes every profitable route to the Opportunity table of the SQLite
+ * database so that history can be analysed without parsing log files.
+ *
+ * Features:
+ * - Table created by the shared schema migrations (GT_DB)
+ * - One row per detected opportunity with per-hop amounts
+ * - Queries by time range, route and minimum profit
+ * - Invalidation of opportunities from rolled back blocks
+ *
+ * @class OpportunityStore
+ */
+
+import { open, Database } from "sqlite";
+import sqlite3 from "sqlite3";
+import { DB_NAME } from "../config/constants";
+import { Opportunity, OpportunityQuery } from "../types/interfaces";
+
+/**
+ * Row layout of the Opportunity table.
+ *
+ * @interface OpportunityRow
+ */
+interface OpportunityRow {
+  id: number;
+  path_id: string;
+  path_description: string;
+  block_number: number | null;
+  transaction_hash: string | null;
+  trigger_pool: string;
+  hops: string;
+  base_token: string;
+  gross_profit: string;
+  gross_profit_eth: number;
+  net_profit_eth: number;
+  net_profit_usd: number | null;
+  timestamp: number;
+  plan: string | null;
+  invalidated: number;
+}
+
+export class OpportunityStore {
+  /** Open database connection, null until initialized */
+  private db: Database | null = null;
+
+  /**
+   * Opens the database. The Opportunity table is created by the shared
+   * schema migrations, which DatabaseManager checks have been applied.
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async initialize() {
+    this.db = await open({
+      filename: DB_NAME,
+      driver: sqlite3.Database,
+    });
+  }
+
+  /**
+   * Returns the open connection.
+   *
+   * @private
+   * @returns {Database} SQLite database connection
+   * @throws {Error} If the store has not been initialized
+   */
+  private getDb(): Database {
+    if (!this.db) {
+      throw new Error("OpportunityStore is not initialized");
+    }
+    return this.db;
+  }
+
+  /**
+   * Stores a detected opportunity.
+   *
+   * @async
+   * @param {Opportunity} opportunity - Opportunity to store
+   * @returns {Promise<number>} Row id of the stored opportunity
+   */
+  async record(opportunity: Opportunity): Promise<number> {
+    const result = await this.getDb().run(
+      `INSERT INTO Opportunity (
+        path_id, path_description, block_number, transaction_hash, trigger_pool,
+        hops, base_token, gross_profit, gross_profit_eth, net_profit_eth,
+        net_profit_usd, timestamp, plan
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      opportunity.pathId,
+      opportunity.pathDescription,
+      opportunity.blockNumber,
+      opportunity.transactionHash,
+      opportunity.triggerPool,
+      JSON.stringify(opportunity.hops),
+      opportunity.baseToken,
+      opportunity.grossProfit,
+      opportunity.grossProfitEth,
+      opportunity.netProfitEth,
+      opportunity.netProfitUsd,
+      opportunity.timestamp,
+      opportunity.plan ? JSON.stringify(opportunity.plan) : null,
+    );
+    return result.lastID!;
+  }
+
+  /**
+   * Marks the opportunities detected in rolled back blocks as invalidated.
+   *
+   * @async
+   * @param {number} fromBlock - First rolled back block
+   * @returns {Promise<number>} Number of opportunities invalidated
+   */
+  async invalidateFromBlock(fromBlock: number): Promise<number> {
+    const result = await this.getDb().run(
+      "UPDATE Opportunity SET invalidated = 1 WHERE block_number >= ? AND invalidated = 0",
+      fromBlock,
+    );
+    return result.changes ?? 0;
+  }
+
+  /**
+   * Reads stored opportunities, most recent first.
+   * Invalidated opportunities are only returned if requested.
+   *
+   * @async
+   * @param {OpportunityQuery} query - Filters and paging
+   * @returns {Promise<{ opportunities: Opportunity[]; total: number }>} Matching page and total count
+   */
+  async query(
+    query: OpportunityQuery,
+  ): Promise<{ opportunities: Opportunity[]; total: number }> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.from !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(query.to);
+    }
+    if (query.pathId !== undefined) {
+      conditions.push("path_id = ?");
+      params.push(query.pathId);
+    }
+    if (query.minProfit !== undefined) {
+      conditions.push("gross_profit_eth >= ?");
+      params.push(query.minProfit);
+    }
+    if (!query.includeInvalidated) {
+      conditions.push("invalidated = 0");
+    }
+    const where = conditions.length
+      ? `WHERE ${conditions.join(" AND ")}`
+      : "";
+
+    const db = this.getDb();
+    const { total } = (await db.get(
+      `SELECT COUNT(*) AS total FROM Opportunity ${where}`,
+      ...params,
+    )) as { total: number };
+    const rows = (await db.all(
+      `SELECT * FROM Opportunity ${where}
+       ORDER BY timestamp DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      ...params,
+      query.limit ?? -1,
+      query.offset ?? 0,
+    )) as OpportunityRow[];
+
+    return { opportunities: rows.map((row) => this.fromRow(row)), total };
+  }
+
+  /**
+   * Converts a table row to an opportunity.
+   *
+   * @param {OpportunityRow} row - Row read from the table
+   * @private
+   * @returns {Opportunity} Stored opportunity
+   */
+  private fromRow(row: OpportunityRow): Opportunity {
+    return {
+      id: row.id,
+      pathId: row.path_id,
+      pathDescription: row.path_description,
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      triggerPool: row.trigger_pool,
+      hops: JSON.parse(row.hops),
+      baseToken: row.base_token,
+      grossProfit: row.gross_profit,
+      grossProfitEth: row.gross_profit_eth,
+      netProfitEth: row.net_profit_eth,
+      netProfitUsd: row.net_profit_usd,
+      timestamp: row.timestamp,
+      plan: row.plan ? JSON.parse(row.plan) : null,
+      invalidated: row.invalidated === 1,
+    };
+  }
+
+  /**
+   * Closes the database connection.
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async close() {
+    await this.db?.close();
+    this.db = null;
+  }
+}
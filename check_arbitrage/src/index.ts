@@ -14,10 +14,20 @@
  */
 
 import { App } from "./app/App";
+import { LOGGING } from "./config/constants";
+import {
+  closeLogging,
+  configureLogging,
+  getLogger,
+} from "../../shared/logging/logger";
+
+/** Logger of the process lifecycle */
+const logger = getLogger("main");
 
 /**
  * Main function that initializes and runs the application.
- * Sets up graceful shutdown handlers for SIGINT and SIGTERM signals.
+ * Configures logging, then sets up graceful shutdown handlers for SIGINT
+ * and SIGTERM signals.
  * Ensures proper cleanup of resources on application termination.
  * 
  * @function main
@@ -25,6 +35,7 @@ import { App } from "./app/App";
  * @throws {Error} If application initialization fails
  */
 async function main() {
+  configureLogging(LOGGING);
   const app = new App();
 
   try {
@@ -32,23 +43,26 @@ async function main() {
 
     // Handle graceful shutdown on SIGINT (Ctrl+C)
     process.on("SIGINT", async () => {
-      console.log("Received SIGINT. Shutting down...");
+      logger.info("Received SIGINT, shutting down");
       await app.cleanup();
+      closeLogging();
       process.exit(0);
     });
 
     // Handle graceful shutdown on SIGTERM
     process.on("SIGTERM", async () => {
-      console.log("Received SIGTERM. Shutting down...");
+      logger.info("Received SIGTERM, shutting down");
       await app.cleanup();
+      closeLogging();
       process.exit(0);
     });
   } catch (error) {
-    console.error("Error in application:", error);
+    logger.error("Error in application", { error });
     await app.cleanup();
+    closeLogging();
     process.exit(1);
   }
 }
 
 // Start the application and handle any uncaught errors
-main().catch(console.error);
+main().catch((error) => logger.error("Unhandled error", { error }));
@@ -0,0 +1,79 @@
+/**
+ * Entry point for replaying recorded Sync logs offline.
+ * Loads the route database and an initial reserve snapshot, replays the
+ * recorded logs through the live detection pipeline and writes the
+ * opportunities detected per block as JSON lines.
+ *
+ * Usage:
+ *   ts-node src/replay.ts --logs <syncs.jsonl> --snapshot <reserves.json> [--out <file>]
+ *
+ * @module replay
+ */
+
+import fs from "fs";
+import { DatabaseManager } from "./database/dbManager";
+import { ArbitrageCalculator } from "./services/arbitrageCalculator";
+import { EventSubscriber } from "./services/eventSubscriber";
+import { ReplayRunner } from "./services/replayRunner";
+import { LOGGING, REPLAY_OUTPUT_FILE } from "./config/constants";
+import { getArgument } from "./utils/cli";
+import {
+  closeLogging,
+  configureLogging,
+  getLogger,
+} from "../../shared/logging/logger";
+
+/** Logger of the replay progress */
+const logger = getLogger("replay");
+
+/**
+ * Runs the replay and writes the per-block results.
+ *
+ * @function main
+ * @async
+ * @throws {Error} If the inputs are missing or invalid
+ */
+async function main() {
+  const logsFile = getArgument("logs");
+  const snapshotFile = getArgument("snapshot");
+  const outputFile = getArgument("out") || REPLAY_OUTPUT_FILE;
+  if (!logsFile || !snapshotFile) {
+    throw new Error(
+      "Usage: replay --logs <syncs.jsonl> --snapshot <reserves.json> [--out <file>]",
+    );
+  }
+
+  configureLogging(LOGGING);
+  const dbManager = new DatabaseManager();
+  await dbManager.initialize();
+  const arbitrageCalculator = new ArbitrageCalculator(dbManager);
+  const eventSubscriber = new EventSubscriber(dbManager, arbitrageCalculator);
+  const runner = new ReplayRunner(dbManager, arbitrageCalculator, eventSubscriber);
+
+  const loaded = runner.loadReserveSnapshot(snapshotFile);
+  logger.info("Loaded reserve snapshot", { pools: loaded, file: snapshotFile });
+
+  const output = fs.createWriteStream(outputFile);
+  let blocks = 0;
+  let opportunities = 0;
+  const logCount = await runner.run(logsFile, (result) => {
+    blocks++;
+    opportunities += result.opportunities.length;
+    output.write(JSON.stringify(result) + "\n");
+  });
+  await new Promise((resolve) => output.end(resolve));
+
+  logger.info("Replay finished", {
+    logs: logCount,
+    blocks,
+    opportunities,
+    file: outputFile,
+  });
+  closeLogging();
+}
+
+main().catch((error) => {
+  logger.error("Replay failed", { error });
+  closeLogging();
+  process.exit(1);
+});
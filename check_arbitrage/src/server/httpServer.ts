@@ -0,0 +1,588 @@
+/**
+ * Read-only HTTP REST API exposing the current state of the service.
+ * Lets scripts and services query routes, pools, tokens and opportunities
+ * without holding a WebSocket connection open.
+ *
+ * Endpoints (GET only, JSON responses):
+ * - /routes                 Routes with their latest rate (paginated)
+ * - /routes/:id             Route hops and latest update
+ * - /routes/:id/plan        Execution plan and executor calldata of a route
+ * - /routes/:id/depth       Profit by input size and price impact per hop
+ * - /pools/:address         Pool tokens and reserves
+ * - /tokens                 Known tokens (paginated)
+ * - /opportunities          Routes whose net profit exceeds `minProfit` (paginated)
+ * - /opportunities/history  Stored opportunities by time, route and profit (paginated)
+ * - /metrics                Prometheus metrics (text exposition format)
+ *
+ * Paginated endpoints accept `page` (1-based) and `pageSize` query parameters
+ * and respond with `{ data, page, pageSize, total }`.
+ *
+ * @class HttpServer
+ */
+
+import http from "http";
+import { DatabaseManager } from "../database/dbManager";
+import { OpportunityStore } from "../database/opportunityStore";
+import { ArbitrageCalculator } from "../services/arbitrageCalculator";
+import { registry } from "../services/metrics";
+import {
+  API_DEFAULT_PAGE_SIZE,
+  API_MAX_PAGE_SIZE,
+} from "../config/constants";
+import { LPInfo, Opportunity, RouteHop } from "../types/interfaces";
+import { getLogger } from "../../../shared/logging/logger";
+
+/** Logger of the REST API */
+const logger = getLogger("http");
+
+/**
+ * Error carrying the HTTP status to respond with.
+ *
+ * @class HttpError
+ */
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A page of results.
+ *
+ * @interface Page
+ */
+interface Page<T> {
+  /** Items of the requested page */
+  data: T[];
+
+  /** Page number, starting at 1 */
+  page: number;
+
+  /** Maximum number of items per page */
+  pageSize: number;
+
+  /** Total number of items across all pages */
+  total: number;
+}
+
+export class HttpServer {
+  /** HTTP server instance */
+  private server: http.Server;
+
+  /** Port to listen on */
+  private port: number;
+
+  /** Database manager providing routes, pools and tokens */
+  private dbManager: DatabaseManager;
+
+  /** Calculator providing route hops and latest rates */
+  private arbitrageCalculator: ArbitrageCalculator;
+
+  /** Store providing the opportunity history */
+  private opportunityStore: OpportunityStore;
+
+  /**
+   * Creates the HTTP server. It accepts connections once started.
+   *
+   * @param {number} port - Port number to start the HTTP server on
+   * @param {DatabaseManager} dbManager - Database manager instance
+   * @param {ArbitrageCalculator} arbitrageCalculator - Arbitrage calculator instance
+   * @param {OpportunityStore} opportunityStore - Opportunity store instance
+   */
+  constructor(
+    port: number,
+    dbManager: DatabaseManager,
+    arbitrageCalculator: ArbitrageCalculator,
+    opportunityStore: OpportunityStore,
+  ) {
+    this.dbManager = dbManager;
+    this.arbitrageCalculator = arbitrageCalculator;
+    this.opportunityStore = opportunityStore;
+    this.port = port;
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  /**
+   * Starts listening on the configured port.
+   *
+   * @async
+   * @returns {Promise<void>} Resolves once the server accepts connections
+   * @throws {Error} If the port cannot be bound, e.g. because it is in use
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => {
+        logger.error("HTTP server could not listen", {
+          port: this.port,
+          error,
+        });
+        reject(error);
+      };
+      this.server.once("error", onError);
+      this.server.listen(this.port, () => {
+        this.server.off("error", onError);
+        this.server.on("error", (error) =>
+          logger.error("HTTP server error", { error }),
+        );
+        logger.info("HTTP server started", {
+          url: `http://localhost:${this.port}`,
+        });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Dispatches a request to its endpoint and writes the JSON response, or
+   * the metrics in the Prometheus text format for /metrics.
+   *
+   * @param {http.IncomingMessage} req - Incoming request
+   * @param {http.ServerResponse} res - Response to write
+   * @private
+   * @async
+   */
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    try {
+      if (req.method !== "GET") {
+        throw new HttpError(405, "Only GET requests are supported");
+      }
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const segments = url.pathname.split("/").filter(Boolean);
+      const params = url.searchParams;
+
+      if (url.pathname === "/metrics") {
+        res.writeHead(200, {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        });
+        res.end(registry.render());
+        return;
+      }
+
+      let body: unknown;
+      if (segments[0] === "routes" && segments.length === 1) {
+        body = this.listRoutes(params);
+      } else if (segments[0] === "routes" && segments.length === 2) {
+        body = this.getRoute(this.decodeSegment(segments[1]));
+      } else if (
+        segments[0] === "routes" &&
+        segments[2] === "plan" &&
+        segments.length === 3
+      ) {
+        body = this.getExecutionPlan(this.decodeSegment(segments[1]), params);
+      } else if (
+        segments[0] === "routes" &&
+        segments[2] === "depth" &&
+        segments.length === 3
+      ) {
+        body = this.getDepthAnalysis(this.decodeSegment(segments[1]), params);
+      } else if (segments[0] === "pools" && segments.length === 2) {
+        body = this.getPool(segments[1].toLowerCase());
+      } else if (segments[0] === "tokens" && segments.length === 1) {
+        body = this.listTokens(params);
+      } else if (segments[0] === "opportunities" && segments.length === 1) {
+        body = this.listOpportunities(params);
+      } else if (
+        segments[0] === "opportunities" &&
+        segments[1] === "history" &&
+        segments.length === 2
+      ) {
+        body = await this.queryOpportunityHistory(params);
+      } else {
+        throw new HttpError(404, `Unknown endpoint: ${url.pathname}`);
+      }
+
+      this.sendJson(res, 200, body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendJson(res, error.status, { error: error.message });
+      } else {
+        logger.error("Error handling HTTP request", { url: req.url, error });
+        this.sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  }
+
+  /**
+   * Decodes a percent-encoded path segment.
+   *
+   * @param {string} segment - Raw path segment
+   * @private
+   * @returns {string} Decoded segment
+   * @throws {HttpError} 400 if the segment is not valid percent-encoding
+   */
+  private decodeSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch (error) {
+      throw new HttpError(400, `Malformed path segment: ${segment}`);
+    }
+  }
+
+  /**
+   * Writes a JSON response. Bigints are serialized as decimal strings.
+   *
+   * @param {http.ServerResponse} res - Response to write
+   * @param {number} status - HTTP status code
+   * @param {unknown} body - Response body
+   * @private
+   */
+  private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    const json = JSON.stringify(body, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    );
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(json);
+  }
+
+  /**
+   * Slices a list according to the `page` and `pageSize` query parameters.
+   *
+   * @param {T[]} items - Full list
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   * @returns {Page<T>} Requested page
+   * @throws {HttpError} If the parameters are not positive integers
+   */
+  private paginate<T>(items: T[], params: URLSearchParams): Page<T> {
+    const { page, pageSize } = this.parsePage(params);
+    const start = (page - 1) * pageSize;
+    return {
+      data: items.slice(start, start + pageSize),
+      page,
+      pageSize,
+      total: items.length,
+    };
+  }
+
+  /**
+   * Reads the `page` and `pageSize` query parameters.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   * @returns {{ page: number; pageSize: number }} Page number and size
+   * @throws {HttpError} If the parameters are not positive integers
+   */
+  private parsePage(params: URLSearchParams): {
+    page: number;
+    pageSize: number;
+  } {
+    return {
+      page: this.parsePositiveInteger(params, "page") ?? 1,
+      pageSize: Math.min(
+        this.parsePositiveInteger(params, "pageSize") ?? API_DEFAULT_PAGE_SIZE,
+        API_MAX_PAGE_SIZE,
+      ),
+    };
+  }
+
+  /**
+   * Reads an optional numeric query parameter.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @param {string} name - Parameter name
+   * @private
+   * @returns {number | undefined} Parameter value, if given
+   * @throws {HttpError} If the value is not a number
+   */
+  private parseNumber(
+    params: URLSearchParams,
+    name: string,
+  ): number | undefined {
+    const raw = params.get(name);
+    if (raw === null) return undefined;
+    const value = Number(raw);
+    if (raw.trim() === "" || Number.isNaN(value)) {
+      throw new HttpError(400, `"${name}" must be a number`);
+    }
+    return value;
+  }
+
+  /**
+   * Reads an optional positive integer query parameter.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @param {string} name - Parameter name
+   * @private
+   * @returns {number | undefined} Parameter value, if given
+   * @throws {HttpError} If the value is not a positive integer
+   */
+  private parsePositiveInteger(
+    params: URLSearchParams,
+    name: string,
+  ): number | undefined {
+    const raw = params.get(name);
+    if (raw === null) return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new HttpError(400, `"${name}" must be a positive integer`);
+    }
+    return value;
+  }
+
+  /**
+   * Reads an optional non-negative integer query parameter too large for a
+   * number, such as a token amount in its smallest unit.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @param {string} name - Parameter name
+   * @private
+   * @returns {bigint | undefined} Parameter value, if given
+   * @throws {HttpError} If the value is not a non-negative integer
+   */
+  private parseBigInt(
+    params: URLSearchParams,
+    name: string,
+  ): bigint | undefined {
+    const raw = params.get(name);
+    if (raw === null) return undefined;
+    if (!/^\d+$/.test(raw)) {
+      throw new HttpError(400, `"${name}" must be a non-negative integer`);
+    }
+    return BigInt(raw);
+  }
+
+  /**
+   * Lists every route with its latest update, if it has been evaluated.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   */
+  private listRoutes(params: URLSearchParams) {
+    const routes = Array.from(this.dbManager.getRouteMap().values()).map(
+      (route) => ({
+        id: route.id,
+        hopCount: route.routeInfo.length,
+        latest: this.arbitrageCalculator.getLatestUpdate(route.id) ?? null,
+      }),
+    );
+    return this.paginate(routes, params);
+  }
+
+  /**
+   * Returns the hops of a route resolved against the current pool state,
+   * together with its latest update.
+   *
+   * @param {string} id - Route identifier
+   * @private
+   * @throws {HttpError} If the route does not exist or uses an untracked pool
+   */
+  private getRoute(id: string) {
+    const hops = this.arbitrageCalculator.getRouteHops(id);
+    if (!hops) {
+      throw new HttpError(404, `Unknown or unresolvable route: ${id}`);
+    }
+    return {
+      id,
+      hops: hops.map((hop) => this.describeHop(hop)),
+      latest: this.arbitrageCalculator.getLatestUpdate(id) ?? null,
+    };
+  }
+
+  /**
+   * Builds the execution plan of a route at the current pool state. Accepts
+   * `amountIn` (smallest unit of the start token, default the optimal
+   * input), `executor` (default the configured executor) and `minProfit`
+   * (smallest unit of the start token, default the expected profit).
+   *
+   * @param {string} id - Route identifier
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   * @throws {HttpError} If the route does not exist or cannot be planned
+   */
+  private getExecutionPlan(id: string, params: URLSearchParams) {
+    const amountIn = this.parseBigInt(params, "amountIn");
+    const minProfit = this.parseBigInt(params, "minProfit");
+    const executor = params.get("executor");
+    if (executor !== null && !/^0x[a-fA-F0-9]{40}$/.test(executor)) {
+      throw new HttpError(400, `"executor" must be an address`);
+    }
+    if (amountIn === 0n) {
+      throw new HttpError(400, `"amountIn" must be positive`);
+    }
+
+    let plan;
+    try {
+      plan = this.arbitrageCalculator.getExecutionPlan(
+        id,
+        amountIn,
+        executor ?? undefined,
+        minProfit,
+      );
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    if (!plan) {
+      throw new HttpError(404, `Unknown or unresolvable route: ${id}`);
+    }
+    return plan;
+  }
+
+  /**
+   * Analyses the profit of a route by input size. Accepts `multipliers`, a
+   * comma separated list of input sizes as multiples of the optimal input
+   * (default the configured ladder).
+   *
+   * @param {string} id - Route identifier
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   * @throws {HttpError} If the route does not exist or cannot be analysed
+   */
+  private getDepthAnalysis(id: string, params: URLSearchParams) {
+    const raw = params.get("multipliers");
+    const multipliers =
+      raw === null
+        ? undefined
+        : raw.split(",").map((item) => (item.trim() ? Number(item) : NaN));
+
+    let analysis;
+    try {
+      analysis = this.arbitrageCalculator.getDepthAnalysis(id, multipliers);
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    if (!analysis) {
+      throw new HttpError(404, `Unknown or unresolvable route: ${id}`);
+    }
+    return analysis;
+  }
+
+  /**
+   * Summarizes a route hop for the API.
+   *
+   * @param {RouteHop} hop - Resolved hop
+   * @private
+   */
+  private describeHop(hop: RouteHop) {
+    return {
+      pool: hop.pool.address,
+      poolType: hop.pool.pool_type,
+      fee: hop.fee,
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+      symbolIn: hop.symbolIn,
+      symbolOut: hop.symbolOut,
+      reserveIn: hop.reserveIn,
+      reserveOut: hop.reserveOut,
+    };
+  }
+
+  /**
+   * Returns a pool with its tokens and current reserves.
+   *
+   * @param {string} address - Pool address, lowercase
+   * @private
+   * @throws {HttpError} If the pool is not tracked
+   */
+  private getPool(address: string) {
+    const pool = this.dbManager.getLPMap().get(address);
+    if (!pool) {
+      throw new HttpError(404, `Unknown pool: ${address}`);
+    }
+    const tokenMap = this.dbManager.getTokenMap();
+    return {
+      address: pool.address,
+      poolType: pool.pool_type,
+      factory: pool.factory,
+      fee: pool.fee,
+      tickSpacing: pool.tick_spacing,
+      token0: tokenMap.get(pool.token1_address.toLowerCase()) ?? {
+        address: pool.token1_address,
+      },
+      token1: tokenMap.get(pool.token2_address.toLowerCase()) ?? {
+        address: pool.token2_address,
+      },
+      reserve0: pool.reserve1,
+      reserve1: pool.reserve2,
+      v3: this.describeV3State(pool),
+      routeCount: this.dbManager.getLP2RouteMapping().get(address)?.length ?? 0,
+    };
+  }
+
+  /**
+   * Summarizes the concentrated-liquidity state of a V3 pool.
+   *
+   * @param {LPInfo} pool - Pool to describe
+   * @private
+   */
+  private describeV3State(pool: LPInfo) {
+    if (!pool.v3) return null;
+    return {
+      sqrtPriceX96: pool.v3.sqrtPriceX96,
+      tick: pool.v3.tick,
+      liquidity: pool.v3.liquidity,
+      initializedTicks: pool.v3.tickIndices.length,
+    };
+  }
+
+  /**
+   * Lists every known token.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   */
+  private listTokens(params: URLSearchParams) {
+    return this.paginate(
+      Array.from(this.dbManager.getTokenMap().values()),
+      params,
+    );
+  }
+
+  /**
+   * Lists the routes whose latest net profit is above `minProfit` (in ETH,
+   * default 0), best first.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   * @throws {HttpError} If `minProfit` is not a number
+   */
+  private listOpportunities(params: URLSearchParams) {
+    const minProfit = this.parseNumber(params, "minProfit") ?? 0;
+    const opportunities = this.arbitrageCalculator
+      .getLatestUpdates()
+      .filter((update) => update.netProfit > minProfit)
+      .sort((a, b) => b.netProfit - a.netProfit);
+    return this.paginate(opportunities, params);
+  }
+
+  /**
+   * Reads stored opportunities, most recent first. Accepts `from` and `to`
+   * (milliseconds since the Unix epoch), `pathId`, `minProfit` (gross
+   * profit in ETH) and `includeInvalidated`.
+   *
+   * @param {URLSearchParams} params - Query parameters
+   * @private
+   * @async
+   * @throws {HttpError} If a parameter is invalid
+   */
+  private async queryOpportunityHistory(
+    params: URLSearchParams,
+  ): Promise<Page<Opportunity>> {
+    const { page, pageSize } = this.parsePage(params);
+    const { opportunities, total } = await this.opportunityStore.query({
+      from: this.parseNumber(params, "from"),
+      to: this.parseNumber(params, "to"),
+      pathId: params.get("pathId") ?? undefined,
+      minProfit: this.parseNumber(params, "minProfit"),
+      includeInvalidated: params.get("includeInvalidated") === "true",
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+    return { data: opportunities, page, pageSize, total };
+  }
+
+  /**
+   * Stops accepting connections and closes the HTTP server.
+   * Should be called during application shutdown.
+   */
+  close() {
+    this.server.close();
+    logger.info("HTTP server closed");
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Client subscription protocol for the WebSocket feed.
+ * Clients narrow the `arbitrageRateUpdated` stream by sending subscribe and
+ * unsubscribe messages; every update is checked against the filters of
+ * each connection before it is sent.
+ *
+ * Messages from clients:
+ *   { "type": "subscribe", "id"?: string, "filter": SubscriptionFilter }
+ *   { "type": "unsubscribe", "id"?: string }   // no id removes all subscriptions
+ *   { "type": "snapshot", "limit"?: number }   // latest state of the best routes
+ *   { "type": "leaderboard", "limit"?: number, "enabled"?: boolean }
+ *   { "type": "depth", "pathId": string, "multipliers"?: number[] }  // depth analysis of a route
+ *
+ * @module subscriptions
+ */
+
+import { ArbitrageUpdate } from "../types/interfaces";
+
+/**
+ * Criteria an update must meet to be delivered. Every given criterion must
+ * match; a list matches when any of its entries does.
+ *
+ * @interface SubscriptionFilter
+ */
+export interface SubscriptionFilter {
+  /** Route identifiers to receive */
+  pathIds?: string[];
+
+  /** Token addresses or symbols the route must go through */
+  tokens?: string[];
+
+  /** Pool addresses the route must use */
+  pools?: string[];
+
+  /** Minimum rate (profit in ETH at START_AMOUNT) */
+  minRate?: number;
+}
+
+/**
+ * A message sent by a client.
+ *
+ * @typedef {Object} ClientMessage
+ */
+export type ClientMessage =
+  | { type: "subscribe"; id?: string; filter: SubscriptionFilter }
+  | { type: "unsubscribe"; id?: string }
+  | { type: "snapshot"; limit?: number }
+  | { type: "leaderboard"; limit?: number; enabled: boolean }
+  | { type: "depth"; pathId: string; multipliers?: number[] };
+
+/**
+ * Parses and validates a raw client message.
+ *
+ * @param {string} raw - Message text received from the client
+ * @returns {ClientMessage} Parsed message
+ * @throws {Error} If the message is not a valid subscription request
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error("Message is not valid JSON");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Message must be a JSON object");
+  }
+
+  const message = parsed as Record<string, unknown>;
+  if (message.id !== undefined && typeof message.id !== "string") {
+    throw new Error("Subscription id must be a string");
+  }
+
+  switch (message.type) {
+    case "subscribe":
+      return {
+        type: "subscribe",
+        id: message.id,
+        filter: parseFilter(message.filter),
+      };
+    case "unsubscribe":
+      return { type: "unsubscribe", id: message.id };
+    case "snapshot":
+      return { type: "snapshot", limit: parseLimit(message.limit) };
+    case "leaderboard":
+      if (
+        message.enabled !== undefined &&
+        typeof message.enabled !== "boolean"
+      ) {
+        throw new Error('Field "enabled" must be a boolean');
+      }
+      return {
+        type: "leaderboard",
+        limit: parseLimit(message.limit),
+        enabled: message.enabled ?? true,
+      };
+    case "depth":
+      if (typeof message.pathId !== "string") {
+        throw new Error('Field "pathId" must be a string');
+      }
+      if (
+        message.multipliers !== undefined &&
+        (!Array.isArray(message.multipliers) ||
+          message.multipliers.some(
+            (item: unknown) =>
+              typeof item !== "number" || !Number.isFinite(item),
+          ))
+      ) {
+        throw new Error(
+          'Field "multipliers" must be an array of finite numbers',
+        );
+      }
+      return {
+        type: "depth",
+        pathId: message.pathId,
+        multipliers: message.multipliers,
+      };
+    default:
+      throw new Error(`Unknown message type: ${String(message.type)}`);
+  }
+}
+
+/**
+ * Validates the number of routes requested in a snapshot or leaderboard.
+ *
+ * @param {unknown} limit - Limit received from the client
+ * @returns {number | undefined} Limit, or undefined if not given
+ * @throws {Error} If the limit is not a positive integer
+ */
+function parseLimit(limit: unknown): number | undefined {
+  if (limit === undefined) return undefined;
+  if (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0) {
+    throw new Error('Field "limit" must be a positive integer');
+  }
+  return limit;
+}
+
+/**
+ * Validates a subscription filter and normalizes addresses to lowercase.
+ *
+ * @param {unknown} filter - Filter received from the client
+ * @returns {SubscriptionFilter} Normalized filter
+ * @throws {Error} If a field has the wrong type
+ */
+function parseFilter(filter: unknown): SubscriptionFilter {
+  if (filter === undefined) return {};
+  if (typeof filter !== "object" || filter === null || Array.isArray(filter)) {
+    throw new Error("Filter must be an object");
+  }
+
+  const fields = filter as Record<string, unknown>;
+  const stringList = (name: string): string[] | undefined => {
+    const value = fields[name];
+    if (value === undefined) return undefined;
+    if (
+      !Array.isArray(value) ||
+      value.some((item: unknown) => typeof item !== "string")
+    ) {
+      throw new Error(`Filter field "${name}" must be an array of strings`);
+    }
+    return value as string[];
+  };
+
+  const minRate = fields.minRate;
+  if (minRate !== undefined && typeof minRate !== "number") {
+    throw new Error('Filter field "minRate" must be a number');
+  }
+
+  return {
+    pathIds: stringList("pathIds"),
+    tokens: stringList("tokens")?.map((token) => token.toLowerCase()),
+    pools: stringList("pools")?.map((pool) => pool.toLowerCase()),
+    minRate,
+  };
+}
+
+/**
+ * Checks whether an update satisfies a subscription filter.
+ * Tokens match either an address on the route or a symbol of the path
+ * description, case-insensitively.
+ *
+ * @param {SubscriptionFilter} filter - Filter to check against
+ * @param {ArbitrageUpdate} update - Route update
+ * @returns {boolean} True if the update should be delivered
+ */
+export function matchesFilter(
+  filter: SubscriptionFilter,
+  update: ArbitrageUpdate,
+): boolean {
+  if (filter.pathIds && !filter.pathIds.includes(update.pathId)) {
+    return false;
+  }
+  if (
+    filter.pools &&
+    !update.pools.some((pool) => filter.pools!.includes(pool))
+  ) {
+    return false;
+  }
+  if (filter.tokens) {
+    const routeTokens = [
+      ...update.tokens,
+      ...update.pathDescription
+        .split(" -> ")
+        .map((symbol) => symbol.toLowerCase()),
+    ];
+    if (!routeTokens.some((token) => filter.tokens!.includes(token))) {
+      return false;
+    }
+  }
+  if (filter.minRate !== undefined && update.rate < filter.minRate) {
+    return false;
+  }
+  return true;
+}
@@ -1,50 +1,265 @@
 /**
  * WebSocket server implementation for real-time arbitrage opportunity broadcasting.
  * This class manages WebSocket connections and broadcasts arbitrage opportunities
- * to all connected clients in real-time.
+ * to connected clients in real-time.
  * 
  * Features:
  * - Real-time data broadcasting
+ * - Per-client subscriptions and filters
+ * - State snapshot on connection and per-block leaderboards
+ * - Depth analyses of routes on request
+ * - Chain reorganization notices
  * - Connection state management
  * - Graceful server shutdown
  * 
  * @class WebSocketManager
  */
 
-import { WebSocketServer, WebSocket } from "ws";
-import { EVENT_NAME } from "../config/constants";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import {
+  EVENT_NAME,
+  LEADERBOARD_SIZE,
+  SNAPSHOT_SIZE,
+} from "../config/constants";
+import {
+  ArbitrageUpdate,
+  DepthAnalysis,
+  ReorgNotice,
+} from "../types/interfaces";
+import { metrics } from "../services/metrics";
+import { getLogger } from "../../../shared/logging/logger";
+import {
+  SubscriptionFilter,
+  matchesFilter,
+  parseClientMessage,
+} from "./subscriptions";
+
+/** Logger of the WebSocket server */
+const logger = getLogger("ws");
 
 export class WebSocketManager {
   /** WebSocket server instance */
   private wss: WebSocketServer;
 
+  /** Active subscriptions of every client, keyed by subscription id */
+  private subscriptions = new Map<WebSocket, Map<string, SubscriptionFilter>>();
+
+  /** Counter used to generate subscription ids */
+  private nextSubscriptionId = 1;
+
+  /** Clients receiving leaderboards, with the number of routes they asked for */
+  private leaderboardClients = new Map<WebSocket, number>();
+
+  /** Source of the latest route updates, sorted from best to worst */
+  private getLatestUpdates: (limit?: number) => ArbitrageUpdate[];
+
+  /** Source of route depth analyses, null for unknown routes */
+  private getDepthAnalysis: (
+    pathId: string,
+    multipliers?: number[],
+  ) => DepthAnalysis | null;
+
   /**
    * Creates a new WebSocket server instance.
    * Initializes the server on the specified port and logs the server URL.
    * 
    * @param {number} port - Port number to start the WebSocket server on
+   * @param {(limit?: number) => ArbitrageUpdate[]} getLatestUpdates - Latest route updates, best first
+   * @param {(pathId: string, multipliers?: number[]) => DepthAnalysis | null} getDepthAnalysis - Depth analysis of a route, throwing if it cannot be analysed
    */
-  constructor(port: number) {
+  constructor(
+    port: number,
+    getLatestUpdates: (limit?: number) => ArbitrageUpdate[],
+    getDepthAnalysis: (
+      pathId: string,
+      multipliers?: number[],
+    ) => DepthAnalysis | null,
+  ) {
+    this.getLatestUpdates = getLatestUpdates;
+    this.getDepthAnalysis = getDepthAnalysis;
     this.wss = new WebSocketServer({ port });
-    console.log(`WebSocket server started on ws://localhost:${port}`);
+    this.wss.on("connection", (client) => this.handleConnection(client));
+    metrics.webSocketClients.setCollector(() => [
+      { labels: {}, value: this.subscriptions.size },
+    ]);
+    logger.info("WebSocket server started", { url: `ws://localhost:${port}` });
+  }
+
+  /**
+   * Sets up message handling for a new client.
+   * Clients first receive a snapshot of the best SNAPSHOT_SIZE routes (every
+   * route if 0), then every update until their first subscribe message.
+   *
+   * @param {WebSocket} client - Newly connected client
+   * @private
+   */
+  private handleConnection(client: WebSocket) {
+    this.subscriptions.set(client, new Map());
+    client.on("message", (data) => this.handleMessage(client, data));
+    client.on("close", () => {
+      this.subscriptions.delete(client);
+      this.leaderboardClients.delete(client);
+    });
+    this.send(client, {
+      type: "snapshot",
+      updates: this.getLatestUpdates(SNAPSHOT_SIZE || undefined),
+    });
+  }
+
+  /**
+   * Handles a subscribe, unsubscribe, snapshot, leaderboard or depth request from a client.
+   * Replies with a confirmation, or an error message if the request is invalid.
+   *
+   * @param {WebSocket} client - Client that sent the message
+   * @param {RawData} data - Raw message data
+   * @private
+   */
+  private handleMessage(client: WebSocket, data: RawData) {
+    const clientSubscriptions = this.subscriptions.get(client);
+    if (!clientSubscriptions) return;
+
+    try {
+      const message = parseClientMessage(data.toString());
+
+      if (message.type === "subscribe") {
+        const id = message.id ?? `sub-${this.nextSubscriptionId++}`;
+        clientSubscriptions.set(id, message.filter);
+        this.send(client, { type: "subscribed", id, filter: message.filter });
+      } else if (message.type === "snapshot") {
+        // Requested snapshots honour the client's subscriptions
+        const filters = Array.from(clientSubscriptions.values());
+        const updates = this.getLatestUpdates().filter(
+          (update) =>
+            filters.length === 0 ||
+            filters.some((filter) => matchesFilter(filter, update)),
+        );
+        this.send(client, {
+          type: "snapshot",
+          updates:
+            message.limit === undefined
+              ? updates
+              : updates.slice(0, message.limit),
+        });
+      } else if (message.type === "leaderboard") {
+        if (message.enabled) {
+          this.leaderboardClients.set(
+            client,
+            message.limit ?? LEADERBOARD_SIZE,
+          );
+        } else {
+          this.leaderboardClients.delete(client);
+        }
+        this.send(client, {
+          type: "leaderboardStatus",
+          enabled: message.enabled,
+          limit: this.leaderboardClients.get(client),
+        });
+      } else if (message.type === "depth") {
+        const analysis = this.getDepthAnalysis(
+          message.pathId,
+          message.multipliers,
+        );
+        if (!analysis) {
+          throw new Error(
+            `Unknown or unresolvable route: ${message.pathId}`,
+          );
+        }
+        this.send(client, { type: "depth", ...analysis });
+      } else if (message.id !== undefined) {
+        if (!clientSubscriptions.delete(message.id)) {
+          throw new Error(`Unknown subscription id: ${message.id}`);
+        }
+        this.send(client, { type: "unsubscribed", ids: [message.id] });
+      } else {
+        const ids = Array.from(clientSubscriptions.keys());
+        clientSubscriptions.clear();
+        this.send(client, { type: "unsubscribed", ids });
+      }
+    } catch (error) {
+      this.send(client, {
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
-   * Broadcasts an arbitrage opportunity to all connected clients.
-   * Only sends to clients with OPEN connection state.
+   * Sends a JSON message to a client if its connection is open.
+   *
+   * @param {WebSocket} client - Target client
+   * @param {object} message - Message to serialize
+   * @private
+   */
+  private send(client: WebSocket, message: object) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Broadcasts an arbitrage opportunity to connected clients.
+   * Only sends to clients with OPEN connection state. Clients with
+   * subscriptions only receive updates matching at least one of them.
    * 
-   * @param {Object} message - The arbitrage opportunity data
+   * @param {ArbitrageUpdate} message - The arbitrage opportunity data
    * @param {string} message.pathId - Unique identifier for the arbitrage path
    * @param {string} message.pathDescription - Human-readable path description
+   * @param {string} message.baseToken - Token the route starts and ends with
    * @param {number} message.rate - Profit rate in ETH
+   * @param {number} message.optimalAmountIn - Profit-maximising input in start tokens
+   * @param {number} message.maxProfitBase - Profit in start tokens at the optimal input
+   * @param {number} message.maxProfit - Profit in ETH at the optimal input
+   * @param {number} message.gasCost - Estimated gas cost in ETH
+   * @param {number} message.netProfit - Profit in ETH after gas costs
+   * @param {number | null} message.netProfitUsd - Profit in USD after gas costs
    */
-  broadcast(message: {
-    pathId: string;
-    pathDescription: string;
-    rate: number;
-  }) {
-    // console.log("message", message);
+  broadcast(message: ArbitrageUpdate) {
     const data = JSON.stringify({ type: EVENT_NAME, ...message });
+    this.wss.clients.forEach((client) => {
+      if (client.readyState !== WebSocket.OPEN) return;
+
+      const clientSubscriptions = this.subscriptions.get(client);
+      const wanted =
+        !clientSubscriptions ||
+        clientSubscriptions.size === 0 ||
+        Array.from(clientSubscriptions.values()).some((filter) =>
+          matchesFilter(filter, message),
+        );
+      if (wanted) {
+        client.send(data);
+      }
+    });
+  }
+
+  /**
+   * Sends the current best routes to every client that requested leaderboards.
+   * Called once per processed block.
+   *
+   * @param {number} blockNumber - Block the leaderboard reflects
+   */
+  broadcastLeaderboard(blockNumber: number) {
+    if (this.leaderboardClients.size === 0) return;
+
+    const limit = Math.max(...this.leaderboardClients.values());
+    const routes = this.getLatestUpdates(limit);
+    this.leaderboardClients.forEach((clientLimit, client) => {
+      this.send(client, {
+        type: "leaderboard",
+        blockNumber,
+        routes: routes.slice(0, clientLimit),
+      });
+    });
+  }
+
+  /**
+   * Notifies every client that blocks were rolled back, so updates received
+   * for them, and for the listed routes, must be discarded. Sent regardless
+   * of subscriptions.
+   *
+   * @param {ReorgNotice} notice - Rolled back blocks and invalidated routes
+   */
+  broadcastReorg(notice: ReorgNotice) {
+    const data = JSON.stringify({ type: "reorg", ...notice });
     this.wss.clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
         client.send(data);
@@ -58,6 +273,6 @@ export class WebSocketManager {
    */
   close() {
     this.wss.close();
-    console.log("WebSocket server closed.");
+    logger.info("WebSocket server closed");
   }
 }
@@ -0,0 +1,337 @@
+/**
+ * Opportunity alerts.
+ * Forwards route updates that are profitable after gas to the configured
+ * sinks: an HTTP webhook, an append-only JSON lines file and stdout.
+ *
+ * Every sink has its own minimum profit and per-route cooldown, and alerts
+ * once per profitable streak of a route: a route that stays above the
+ * minimum across many blocks raises a single alert. A new alert is raised
+ * only once the route fell below the minimum, became profitable again and
+ * the cooldown since its previous alert has passed.
+ *
+ * @module alertManager
+ */
+
+import fs from "fs";
+import {
+  ALERT_FILE,
+  ALERT_STDOUT,
+  ALERT_WEBHOOK,
+} from "../config/constants";
+import { Alert, ArbitrageUpdate } from "../types/interfaces";
+import { metrics } from "./metrics";
+import { getLogger } from "../../../shared/logging/logger";
+
+/** Logger of alert delivery */
+const logger = getLogger("alerts");
+
+/** Delay before the first webhook retry, doubled on every further retry */
+const WEBHOOK_RETRY_DELAY = 1000;
+
+/**
+ * Destination of alerts.
+ *
+ * @interface AlertSink
+ */
+export interface AlertSink {
+  /** Name used in logs and metric labels */
+  readonly name: string;
+
+  /** Delivers an alert, rejecting if it could not be delivered */
+  send(alert: Alert): Promise<void>;
+
+  /** Releases the sink once pending alerts are delivered */
+  close?(): Promise<void>;
+}
+
+/**
+ * When a sink is alerted.
+ *
+ * @interface AlertPolicy
+ */
+export interface AlertPolicy {
+  /** Net profit in ETH a route must exceed */
+  minProfit: number;
+
+  /** Minimum time between two alerts of the same route, in milliseconds */
+  cooldownMs: number;
+}
+
+/**
+ * A sink with the policy deciding which updates reach it.
+ *
+ * @interface ConfiguredSink
+ */
+export interface ConfiguredSink {
+  /** Destination of the alerts */
+  sink: AlertSink;
+
+  /** Thresholds of the sink */
+  policy: AlertPolicy;
+}
+
+/**
+ * Alert state of a route for one sink.
+ *
+ * @interface RouteAlertState
+ */
+interface RouteAlertState {
+  /** Whether the route has been above the minimum since its last alert */
+  alerted: boolean;
+
+  /** Time of the last alert, in milliseconds since the Unix epoch */
+  lastAlertAt: number;
+}
+
+/**
+ * POSTs every alert as JSON to a URL, retrying failed requests with
+ * exponential backoff.
+ *
+ * @class WebhookSink
+ */
+export class WebhookSink implements AlertSink {
+  readonly name = "webhook";
+
+  /** Set on close, stops pending retries */
+  private closed = false;
+
+  /**
+   * Creates a webhook sink.
+   *
+   * @param {string} url - URL the alerts are POSTed to
+   * @param {number} retries - Retries of a failed request
+   * @param {number} timeoutMs - Time before a request is aborted
+   */
+  constructor(
+    private readonly url: string,
+    private readonly retries: number,
+    private readonly timeoutMs: number,
+  ) {}
+
+  /**
+   * POSTs an alert. Network errors and non-2xx responses are retried.
+   *
+   * @param {Alert} alert - Alert to deliver
+   * @async
+   * @throws {Error} If every attempt failed or the sink was closed
+   */
+  async send(alert: Alert) {
+    const body = JSON.stringify(alert);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(this.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (response.ok) return;
+        throw new Error(`Webhook responded with status ${response.status}`);
+      } catch (error) {
+        if (attempt >= this.retries || this.closed) throw error;
+        const delay = WEBHOOK_RETRY_DELAY * 2 ** attempt;
+        logger.warn("Webhook request failed, retrying", {
+          pathId: alert.pathId,
+          attempt: attempt + 1,
+          delayMs: delay,
+          error,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  async close() {
+    this.closed = true;
+  }
+}
+
+/**
+ * Appends every alert to a file as one JSON object per line.
+ *
+ * @class JsonlFileSink
+ */
+export class JsonlFileSink implements AlertSink {
+  readonly name = "file";
+
+  /** Stream appending to the file */
+  private stream: fs.WriteStream;
+
+  /**
+   * Opens the file for appending.
+   *
+   * @param {string} file - JSON lines file
+   */
+  constructor(file: string) {
+    this.stream = fs.createWriteStream(file, { flags: "a" });
+    // Failed writes are reported by send, keep the stream error from crashing the process
+    this.stream.on("error", (error) =>
+      logger.error("Alert file error", { file, error }),
+    );
+  }
+
+  /**
+   * Appends an alert.
+   *
+   * @param {Alert} alert - Alert to write
+   * @async
+   */
+  send(alert: Alert): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.write(JSON.stringify(alert) + "\n", (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Prints every alert to stdout as a single readable line.
+ *
+ * @class StdoutSink
+ */
+export class StdoutSink implements AlertSink {
+  readonly name = "stdout";
+
+  /**
+   * Prints an alert.
+   *
+   * @param {Alert} alert - Alert to print
+   * @async
+   */
+  async send(alert: Alert) {
+    const usd =
+      alert.netProfitUsd === null ? "" : ` ($${alert.netProfitUsd.toFixed(2)})`;
+    const block =
+      alert.blockNumber === undefined ? "" : ` at block ${alert.blockNumber}`;
+    process.stdout.write(
+      `ALERT ${alert.pathDescription}: net profit ${alert.netProfit.toFixed(6)} ETH${usd}${block} (route ${alert.pathId})\n`,
+    );
+  }
+}
+
+/**
+ * Decides for every sink which route updates raise an alert and delivers
+ * them without blocking the caller.
+ *
+ * @class AlertManager
+ */
+export class AlertManager {
+  /** Configured sinks with the alert state of every route */
+  private sinks: (ConfiguredSink & { routes: Map<string, RouteAlertState> })[];
+
+  /** Deliveries in progress */
+  private pending = new Set<Promise<void>>();
+
+  /**
+   * Creates an alert manager.
+   *
+   * @param {ConfiguredSink[]} sinks - Sinks to alert and their policies
+   */
+  constructor(sinks: ConfiguredSink[]) {
+    this.sinks = sinks.map((configured) => ({
+      ...configured,
+      routes: new Map(),
+    }));
+  }
+
+  /**
+   * Returns whether any sink is configured.
+   *
+   * @returns {boolean} True if updates can raise alerts
+   */
+  hasSinks(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  /**
+   * Raises an alert on every sink for which the update starts a new
+   * profitable streak of its route outside the cooldown.
+   *
+   * @param {ArbitrageUpdate} update - Latest evaluation of a route
+   */
+  handleUpdate(update: ArbitrageUpdate) {
+    const now = Date.now();
+    for (const { sink, policy, routes } of this.sinks) {
+      const state = routes.get(update.pathId);
+      if (update.netProfit <= policy.minProfit) {
+        if (state) state.alerted = false;
+        continue;
+      }
+      // Still the streak that was already alerted, or too soon after it
+      if (
+        state &&
+        (state.alerted || now - state.lastAlertAt < policy.cooldownMs)
+      ) {
+        continue;
+      }
+
+      routes.set(update.pathId, { alerted: true, lastAlertAt: now });
+      this.deliver(sink, { ...update, alertedAt: now });
+    }
+  }
+
+  /**
+   * Sends an alert to a sink and records the outcome.
+   *
+   * @param {AlertSink} sink - Sink to deliver to
+   * @param {Alert} alert - Alert to deliver
+   * @private
+   */
+  private deliver(sink: AlertSink, alert: Alert) {
+    const delivery = sink
+      .send(alert)
+      .then(() => metrics.alertsSent.inc({ sink: sink.name }))
+      .catch((error) => {
+        metrics.alertsFailed.inc({ sink: sink.name });
+        logger.error("Alert delivery failed", {
+          sink: sink.name,
+          pathId: alert.pathId,
+          error,
+        });
+      })
+      .finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  /**
+   * Waits for deliveries in progress and closes every sink.
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async close() {
+    await Promise.all(this.sinks.map(({ sink }) => sink.close?.()));
+    await Promise.all(this.pending);
+  }
+}
+
+/**
+ * Creates the sinks enabled in the configuration.
+ *
+ * @returns {ConfiguredSink[]} Webhook, file and stdout sinks that are enabled
+ */
+export function createConfiguredSinks(): ConfiguredSink[] {
+  const sinks: ConfiguredSink[] = [];
+  if (ALERT_WEBHOOK.url) {
+    sinks.push({
+      sink: new WebhookSink(
+        ALERT_WEBHOOK.url,
+        ALERT_WEBHOOK.retries,
+        ALERT_WEBHOOK.timeoutMs,
+      ),
+      policy: ALERT_WEBHOOK,
+    });
+  }
+  if (ALERT_FILE.file) {
+    sinks.push({ sink: new JsonlFileSink(ALERT_FILE.file), policy: ALERT_FILE });
+  }
+  if (ALERT_STDOUT.enabled) {
+    sinks.push({ sink: new StdoutSink(), policy: ALERT_STDOUT });
+  }
+  return sinks;
+}
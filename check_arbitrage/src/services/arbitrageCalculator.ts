@@ -5,25 +5,92 @@
  * 
  * Features:
  * - Real-time arbitrage detection
- * - Multi-hop path analysis
- * - Fee calculation and adjustment
+ * - Multi-hop path analysis across Uniswap V2 and V3 pools
+ * - Optimal trade-size search per route
+ * - Per-pool fee calculation and adjustment
+ * - Routes starting from any token, with profits normalized to ETH and USD
+ * - Gas cost estimation and net profit reporting
  * - Event-based updates
+ * - Latest rate per route for snapshots and leaderboards
+ * - Rollback of recent blocks after chain reorganizations
  * - Comprehensive logging
  * 
  * @class ArbitrageCalculator
  */
 
 import { ethers } from "ethers";
-import fs from "fs";
 import { Mutex } from "async-mutex";
 import { EventEmitter } from "events";
 import {
   START_AMOUNT,
-  FEE_PERCENT,
+  DEFAULT_POOL_FEE,
+  FEE_DENOMINATOR,
   START_CURRENCY,
-  LOG_FILE_NAME,
+  EVENT_NAME,
+  BLOCK_EVENT_NAME,
+  OPPORTUNITY_EVENT_NAME,
+  REORG_EVENT_NAME,
+  REORG_HISTORY_DEPTH,
+  EXECUTOR_ADDRESS,
+  DEPTH_LADDER,
+  MAX_DEPTH_POINTS,
 } from "../config/constants";
 import { DatabaseManager } from "../database/dbManager";
+import { GasEstimator } from "./gasEstimator";
+import { metrics } from "./metrics";
+import { PriceOracle } from "./priceOracle";
+import {
+  ArbitrageUpdate,
+  DepthAnalysis,
+  DepthPoint,
+  ExecutionPlan,
+  LPInfo,
+  Opportunity,
+  PoolUpdate,
+  ReorgNotice,
+  RouteHop,
+  RouteInfo,
+  V3PoolEvent,
+} from "../types/interfaces";
+import {
+  buildExecutionPlan,
+  getUnsupportedReason,
+} from "../utils/executionPlan";
+import { getPriceImpact } from "../utils/priceImpact";
+import {
+  ConstantProductHop,
+  TradeSizeResult,
+  findOptimalTradeSize,
+} from "../utils/tradeSize";
+import { getAmountOut } from "../utils/uniswapV2";
+import {
+  applyLiquidityDelta,
+  getVirtualReserves,
+  swapExactInput,
+} from "../utils/uniswapV3";
+import { getLogger } from "../../../shared/logging/logger";
+
+/** Logger of route evaluations and detected opportunities */
+const logger = getLogger("calculator");
+
+/**
+ * Pool states replaced by a block, kept so the block can be undone.
+ *
+ * @interface BlockUndo
+ */
+interface BlockUndo {
+  /** Block the changes belong to */
+  blockNumber: number;
+
+  /** Hash of the block, null if unknown */
+  blockHash: string | null;
+
+  /** State of every pool the block changed, before its first change */
+  previousPools: Map<string, LPInfo>;
+
+  /** Updates the block applied to every pool it changed, in log order */
+  updates: Map<string, PoolUpdate[]>;
+}
 
 /**
  * Calculates arbitrage opportunities across different liquidity pools.
@@ -33,231 +100,974 @@ export class ArbitrageCalculator extends EventEmitter {
   /** Database manager for accessing pool and route data */
   private dbManager: DatabaseManager;
   
-  /** File stream for logging arbitrage opportunities */
-  private logStream: fs.WriteStream;
-  
   /** Mutex for ensuring thread-safe calculations */
   private mutex = new Mutex();
 
+  /** Gas estimator used to derive net profits */
+  private gasEstimator: GasEstimator;
+
+  /** Price oracle used to compare routes with different start tokens */
+  private priceOracle: PriceOracle;
+
+  /** Start tokens without a price, reported once */
+  private unpricedTokens = new Set<string>();
+
+  /** Whether the missing ETH/USD price has been reported */
+  private missingUsdPriceReported = false;
+
+  /** Latest update of every route, keyed by pathId */
+  private latestUpdates = new Map<string, ArbitrageUpdate>();
+
+  /** Undo history of recent blocks, in block order */
+  private blockHistory: BlockUndo[] = [];
+
   /**
    * Creates a new ArbitrageCalculator instance.
-   * Initializes logging and database connection.
    * 
    * @param {DatabaseManager} dbManager - Database manager instance
+   * @param {GasEstimator} [gasEstimator] - Gas estimator, static pricing if omitted
+   * @param {PriceOracle} [priceOracle] - Price oracle, derived from the tracked pools if omitted
    */
-  constructor(dbManager: DatabaseManager) {
+  constructor(
+    dbManager: DatabaseManager,
+    gasEstimator: GasEstimator = new GasEstimator(null),
+    priceOracle: PriceOracle = new PriceOracle(dbManager),
+  ) {
     super();
     this.dbManager = dbManager;
-    this.logStream = fs.createWriteStream(LOG_FILE_NAME, { flags: "a" });
+    this.gasEstimator = gasEstimator;
+    this.priceOracle = priceOracle;
   }
 
   /**
-   * Logs a message to both console and log file.
-   * Ensures consistent logging across the application.
+   * Calculates arbitrage opportunities for the given routes.
+   * Analyzes every route once and calculates potential profits.
+   * Each route is evaluated at the reference START_AMOUNT, converted to its
+   * start token, and at the input amount that maximises its profit.
+   * Profits are computed in the start token and converted to ETH and USD at
+   * prices derived from pool reserves, so routes with different start tokens
+   * can be compared. Routes whose start token cannot be priced are skipped.
+   * Uses the constant product formula (x * y = k) with fee adjustments for V2
+   * pools and concentrated-liquidity swap math for V3 pools.
    * 
-   * @param {string} message - Message to be logged
-   * @private
-   */
-  private logMessage(message: string) {
-    console.log(message);
-    this.logStream.write(message + "\n");
-  }
-
-  /**
-   * Calculates arbitrage opportunities for a given pool.
-   * Analyzes all possible routes through the pool and calculates potential profits.
-   * Uses the constant product formula (x * y = k) with fee adjustments.
-   * 
-   * @param {any} poolInfo - Information about the liquidity pool
+   * @param {Map<string, Pick<PoolUpdate, "pool" | "context">>} routeTriggers - Routes to evaluate, with the last pool change that affected each
    * @private
    * @async
    * @returns {Promise<void>}
    */
-  private async calculateArbitrageOpportunities(poolInfo: any) {
-    // Convert start amount to wei (smallest unit of ETH)
-    const startAmount = ethers.parseEther(START_AMOUNT);
-    let currentAmount = startAmount;
-    // Calculate fee multiplier (e.g., 0.997 for 0.3% fee)
-    const feeMultiplier = 1 - FEE_PERCENT / 100;
+  private async calculateArbitrageOpportunities(
+    routeTriggers: Map<string, Pick<PoolUpdate, "pool" | "context">>,
+  ) {
+    // Reference trade size in ETH
+    const referenceValue = this.getReferenceValue();
 
     // Get necessary data structures from database
-    const lp2routeMapping = this.dbManager.getLP2RouteMapping();
     const routeMap = this.dbManager.getRouteMap();
-    const tokenMap = this.dbManager.getTokenMap();
+    const startedAt = performance.now();
 
-    // Get all possible routes that include this pool
-    const routePathIds = lp2routeMapping.get(poolInfo.address);
-    if (routePathIds) {
-      // Process all routes in parallel for efficiency
-      await Promise.all(
-        routePathIds.map(async (pathId) => {
+    // Process all routes in parallel for efficiency
+    await Promise.all(
+      Array.from(routeTriggers.entries()).map(
+        async ([pathId, { pool: triggerPool, context }]) => {
+          const routeStartedAt = performance.now();
           const routePath = routeMap.get(pathId);
-          if (routePath) {
-            // Reset amount for this path
-            currentAmount = startAmount;
-            let pathDescription = START_CURRENCY;
-            let logDescription = `${START_AMOUNT} ${START_CURRENCY}`;
-
-            // Process each hop in the route
-            for (const pathItem of routePath.routeInfo) {
-              const lpPool = this.dbManager.getLPMap().get(pathItem.lp);
-              if (lpPool) {
-                // Determine token order and calculate amounts
-                const isToken1Target = pathItem.target === lpPool.token1_address;
-                const tokenIn = isToken1Target
-                  ? lpPool.token2_address.toLowerCase()
-                  : lpPool.token1_address.toLowerCase();
-                const tokenOut = isToken1Target
-                  ? lpPool.token1_address.toLowerCase()
-                  : lpPool.token2_address.toLowerCase();
-                const reserveIn = isToken1Target
-                  ? lpPool.reserve2
-                  : lpPool.reserve1;
-                const reserveOut = isToken1Target
-                  ? lpPool.reserve1
-                  : lpPool.reserve2;
-
-                // Get token information for logging
-                const tokenInfoIn = tokenMap.get(tokenIn);
-                const tokenInfoOut = tokenMap.get(tokenOut);
-                const tokenSymbolIn = tokenInfoIn
-                  ? tokenInfoIn.symbol
-                  : "UNKNOWN";
-                const tokenSymbolOut = tokenInfoOut
-                  ? tokenInfoOut.symbol
-                  : "UNKNOWN";
-                const decimalsIn = tokenInfoIn ? tokenInfoIn.decimals : 0;
-                const decimalsOut = tokenInfoOut ? tokenInfoOut.decimals : 0;
-
-                // Update path description
-                pathDescription += ` -> ${tokenSymbolOut}`;
-
-                // Calculate output amount using constant product formula
-                const amountOut = this.getAmountOutWithFee(
-                  currentAmount,
-                  reserveIn,
-                  reserveOut,
-                  feeMultiplier,
-                  decimalsIn,
-                  decimalsOut,
-                );
-
-                // Convert amounts for logging
-                const adjustedCurrentAmount =
-                  Number(currentAmount) / 10 ** decimalsIn;
-                const adjustedAmountOut = Number(amountOut) / 10 ** decimalsOut;
-
-                // Add step to log description
-                logDescription += ` -> ${adjustedAmountOut.toFixed(decimalsOut)} ${tokenSymbolOut} (${lpPool.address} - ${isToken1Target})\r\n`;
-                currentAmount = amountOut;
-              }
-            }
+          if (!routePath || referenceValue === null) return;
 
-            // Calculate and log profit
-            const profit = currentAmount - startAmount;
-            const adjustedProfit = Number(profit) / 10 ** 18;
-            if (profit > 0n) {
-              this.logMessage(
-                `Arbitrage opportunity detected! Path: ${pathDescription} Profit: ${adjustedProfit.toFixed(18)} ETH`,
+          const hops = this.resolveRouteHops(routePath);
+          if (!hops) {
+            logger.debug("Route cannot be resolved, skipping it", { pathId });
+            return;
+          }
+          const baseToken = hops[0].tokenIn;
+          const baseSymbol = hops[0].symbolIn;
+          const baseUnit = 10 ** hops[0].decimalsIn;
+
+          // Reference amount in the start token's smallest unit
+          const startAmount = this.priceOracle.fromEth(
+            baseToken,
+            referenceValue,
+          );
+          if (startAmount === null || startAmount <= 0n) {
+            if (!this.unpricedTokens.has(baseToken)) {
+              this.unpricedTokens.add(baseToken);
+              logger.warn(
+                "No price for start token, skipping its routes until it can be priced",
+                { token: baseToken, symbol: baseSymbol },
               );
-              this.logMessage(`Calculation steps: ${logDescription}`);
             }
-            console.log(`LP updated: ${pathId}, ${pathDescription}, ${adjustedProfit}`);
-            
-            // Emit update for real-time broadcasting
-            this.emit("arbitrageRateUpdated", {
+            return;
+          }
+          this.unpricedTokens.delete(baseToken);
+
+          const pathDescription = [
+            baseSymbol,
+            ...hops.map((hop) => hop.symbolOut),
+          ].join(" -> ");
+
+          // Profit at the reference amount
+          const referenceAmounts = this.quoteRoute(hops, startAmount);
+          const profit =
+            referenceAmounts[referenceAmounts.length - 1] - startAmount;
+          const adjustedProfit = this.priceOracle.toEth(baseToken, profit)!;
+
+          // Profit at the optimal amount
+          const optimal = this.findOptimalTrade(hops, startAmount);
+          const adjustedOptimalAmountIn = Number(optimal.amountIn) / baseUnit;
+          const adjustedMaxProfitBase = Number(optimal.profit) / baseUnit;
+          const adjustedMaxProfit = this.priceOracle.toEth(
+            baseToken,
+            optimal.profit,
+          )!;
+
+          // Net profit after the estimated gas cost of executing the route
+          const gas = this.gasEstimator.estimate(hops);
+          const adjustedGasCost = Number(gas.gasCost) / 10 ** 18;
+          const adjustedNetProfit = adjustedMaxProfit - adjustedGasCost;
+          const netProfitUsd = this.priceOracle.ethToUsd(adjustedNetProfit);
+
+          if (optimal.profit > 0n && adjustedNetProfit > 0) {
+            const optimalAmounts = this.quoteRoute(hops, optimal.amountIn);
+            logger.info("Arbitrage opportunity detected", {
+              pathId,
+              path: pathDescription,
+              blockNumber: context?.blockNumber,
+              optimalInput: `${ethers.formatUnits(optimal.amountIn, hops[0].decimalsIn)} ${baseSymbol}`,
+              maxProfit: `${ethers.formatUnits(optimal.profit, hops[0].decimalsIn)} ${baseSymbol}`,
+              maxProfitEth: adjustedMaxProfit,
+              gasCostEth: adjustedGasCost,
+              gasUnits: gas.gasUnits,
+              gasPriceGwei: ethers.formatUnits(gas.gasPrice, "gwei"),
+              netProfitEth: adjustedNetProfit,
+              netProfitUsd,
+              method: optimal.method,
+            });
+            if (logger.isEnabled("debug")) {
+              logger.debug("Calculation steps", {
+                pathId,
+                steps: this.describeSteps(hops, optimalAmounts),
+              });
+            }
+
+            // Emit a structured record for persistence
+            const opportunity: Opportunity = {
               pathId,
               pathDescription,
+              blockNumber: context?.blockNumber ?? null,
+              transactionHash: context?.transactionHash ?? null,
+              triggerPool,
+              hops: hops.map((hop, i) => ({
+                pool: hop.pool.address,
+                tokenIn: hop.tokenIn,
+                tokenOut: hop.tokenOut,
+                amountIn: optimalAmounts[i].toString(),
+                amountOut: optimalAmounts[i + 1].toString(),
+              })),
+              baseToken,
+              grossProfit: optimal.profit.toString(),
+              grossProfitEth: adjustedMaxProfit,
+              netProfitEth: adjustedNetProfit,
+              netProfitUsd,
+              timestamp: Date.now(),
+              plan: this.planOpportunity(pathId, hops, optimal.amountIn),
+            };
+            this.emit(OPPORTUNITY_EVENT_NAME, opportunity);
+            metrics.opportunitiesFound.inc();
+          }
+          if (logger.isEnabled("debug")) {
+            logger.debug("Route evaluated", {
+              pathId,
+              path: pathDescription,
               rate: adjustedProfit,
+              optimalAmountIn: adjustedOptimalAmountIn,
+              maxProfit: adjustedMaxProfit,
             });
           }
-        }),
+
+          // Emit update for real-time broadcasting
+          const update: ArbitrageUpdate = {
+            pathId,
+            pathDescription,
+            baseToken,
+            baseSymbol,
+            rate: adjustedProfit,
+            optimalAmountIn: adjustedOptimalAmountIn,
+            maxProfitBase: adjustedMaxProfitBase,
+            maxProfit: adjustedMaxProfit,
+            gasCost: adjustedGasCost,
+            netProfit: adjustedNetProfit,
+            netProfitUsd,
+            blockNumber: context?.blockNumber,
+            transactionHash: context?.transactionHash,
+            triggerPool,
+            tokens: [baseToken, ...hops.map((hop) => hop.tokenOut)],
+            pools: hops.map((hop) => hop.pool.address),
+          };
+          this.latestUpdates.set(pathId, update);
+          this.emit(EVENT_NAME, update);
+          metrics.routeEvaluation.observeSince(routeStartedAt);
+        },
+      ),
+    );
+    metrics.routeRecalculation.observeSince(startedAt);
+  }
+
+  /**
+   * Finds the input amount of a route that maximises its profit.
+   *
+   * @param {RouteHop[]} hops - Resolved hops of the route
+   * @param {bigint} startAmount - Reference amount the search starts from
+   * @private
+   * @returns {TradeSizeResult} Optimal input amount and its profit
+   */
+  private findOptimalTrade(
+    hops: RouteHop[],
+    startAmount: bigint,
+  ): TradeSizeResult {
+    return findOptimalTradeSize(
+      (amountIn) => {
+        const amounts = this.quoteRoute(hops, amountIn);
+        return amounts[amounts.length - 1];
+      },
+      startAmount,
+      this.toConstantProductHops(hops),
+    );
+  }
+
+  /**
+   * Builds the execution plan of a detected opportunity for the configured
+   * executor. Routes that cannot be executed get no plan.
+   *
+   * @param {string} pathId - Route identifier
+   * @param {RouteHop[]} hops - Resolved hops of the route
+   * @param {bigint} amountIn - Optimal input amount
+   * @private
+   * @returns {ExecutionPlan | null} Plan, null without executor or for unsupported routes
+   */
+  private planOpportunity(
+    pathId: string,
+    hops: RouteHop[],
+    amountIn: bigint,
+  ): ExecutionPlan | null {
+    if (!EXECUTOR_ADDRESS || getUnsupportedReason(hops)) return null;
+    try {
+      return buildExecutionPlan(hops, amountIn, EXECUTOR_ADDRESS);
+    } catch (error) {
+      logger.warn("Could not build execution plan", { pathId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Builds the execution plan of a route at the current pool state.
+   *
+   * @param {string} pathId - Route identifier
+   * @param {bigint} [amountIn] - Input amount in the smallest unit of the start token, defaults to the optimal input
+   * @param {string | null} [executor] - Executor contract, defaults to the configured one
+   * @param {bigint} [minProfit] - Growth below which the execution reverts, defaults to the expected profit
+   * @returns {ExecutionPlan | null} Plan, or null if the route is unknown or cannot be resolved
+   * @throws {Error} If no executor is given, the route cannot be executed or has no profitable size
+   */
+  getExecutionPlan(
+    pathId: string,
+    amountIn?: bigint,
+    executor: string | null = EXECUTOR_ADDRESS,
+    minProfit?: bigint,
+  ): ExecutionPlan | null {
+    const hops = this.getRouteHops(pathId);
+    if (!hops) return null;
+    if (!executor) throw new Error("No executor address configured");
+    const unsupported = getUnsupportedReason(hops);
+    if (unsupported) throw new Error(unsupported);
+
+    if (amountIn === undefined) {
+      const startAmount = this.getStartAmount(hops[0].tokenIn);
+      if (startAmount === null) {
+        throw new Error("Start token cannot be priced, pass an input amount");
+      }
+      amountIn = this.findOptimalTrade(hops, startAmount).amountIn;
+      if (amountIn <= 0n) {
+        throw new Error(
+          "Route is not profitable at any size, pass an input amount",
+        );
+      }
+    }
+    return buildExecutionPlan(
+      hops,
+      amountIn,
+      executor.toLowerCase(),
+      minProfit,
+    );
+  }
+
+  /**
+   * Analyses how the profit of a route depends on its input size. The route
+   * is quoted at every multiple of its optimal input (of the reference
+   * amount if no size is profitable), with the price impact of every hop.
+   * The hop with the highest impact at the reference input limits the
+   * trade: it is where added liquidity would raise the optimal size most.
+   *
+   * @param {string} pathId - Route identifier
+   * @param {number[]} [multipliers] - Input sizes as multiples of the reference input
+   * @returns {DepthAnalysis | null} Analysis, or null if the route is unknown or cannot be resolved
+   * @throws {Error} If the multipliers are invalid or the start token cannot be priced
+   */
+  getDepthAnalysis(
+    pathId: string,
+    multipliers: number[] = DEPTH_LADDER,
+  ): DepthAnalysis | null {
+    if (
+      multipliers.length === 0 ||
+      multipliers.length > MAX_DEPTH_POINTS ||
+      multipliers.some((m) => !Number.isFinite(m) || m <= 0)
+    ) {
+      throw new Error(
+        `Multipliers must be 1 to ${MAX_DEPTH_POINTS} positive numbers`,
       );
     }
+    const hops = this.getRouteHops(pathId);
+    if (!hops) return null;
+
+    const baseToken = hops[0].tokenIn;
+    const startAmount = this.getStartAmount(baseToken);
+    if (startAmount === null) throw new Error("Start token cannot be priced");
+    const optimal = this.findOptimalTrade(hops, startAmount);
+    const referenceAmount =
+      optimal.amountIn > 0n ? optimal.amountIn : startAmount;
+    const gasCostEth =
+      Number(this.gasEstimator.estimate(hops).gasCost) / 10 ** 18;
+
+    // Impact of every hop and the hop with the highest one
+    const getImpacts = (amounts: bigint[]) => {
+      const impacts = hops.map((hop, i) =>
+        getPriceImpact(
+          amounts[i],
+          amounts[i + 1],
+          hop.reserveIn,
+          hop.reserveOut,
+          hop.fee,
+        ),
+      );
+      let limitingHop: number | null = null;
+      impacts.forEach((impact, i) => {
+        if (
+          impact !== null &&
+          (limitingHop === null || impact > impacts[limitingHop]!)
+        ) {
+          limitingHop = i;
+        }
+      });
+      return { impacts, limitingHop };
+    };
+
+    const reference = getImpacts(this.quoteRoute(hops, referenceAmount));
+    const ladder = [...multipliers]
+      .sort((a, b) => a - b)
+      .map((multiplier): DepthPoint => {
+        // Scale by the multiplier in millionths to stay in bigint
+        const amountIn =
+          (referenceAmount * BigInt(Math.round(multiplier * 1_000_000))) /
+          1_000_000n;
+        const amounts = this.quoteRoute(hops, amountIn);
+        const profit = amounts[amounts.length - 1] - amountIn;
+        const profitEth = this.priceOracle.toEth(baseToken, profit);
+        const { impacts, limitingHop } = getImpacts(amounts);
+        return {
+          multiplier,
+          amountIn: amountIn.toString(),
+          amountOut: amounts[amounts.length - 1].toString(),
+          profit: profit.toString(),
+          profitEth,
+          netProfitEth: profitEth === null ? null : profitEth - gasCostEth,
+          priceImpacts: impacts,
+          limitingHop,
+        };
+      });
+
+    return {
+      pathId,
+      pathDescription: [
+        hops[0].symbolIn,
+        ...hops.map((hop) => hop.symbolOut),
+      ].join(" -> "),
+      baseToken,
+      baseSymbol: hops[0].symbolIn,
+      baseDecimals: hops[0].decimalsIn,
+      referenceAmountIn: referenceAmount.toString(),
+      profitable: optimal.amountIn > 0n,
+      gasCostEth,
+      hops: hops.map((hop, i) => ({
+        pool: hop.pool.address,
+        poolType: hop.pool.pool_type,
+        fee: hop.fee,
+        symbolIn: hop.symbolIn,
+        symbolOut: hop.symbolOut,
+        reserveIn: hop.reserveIn.toString(),
+        reserveOut: hop.reserveOut.toString(),
+        priceImpact: reference.impacts[i],
+      })),
+      limitingHop: reference.limitingHop,
+      ladder,
+      timestamp: Date.now(),
+    };
   }
 
   /**
-   * Calculates the output amount for a given input amount using the constant product formula.
-   * Takes into account fees and token decimals.
-   * 
+   * Returns the reference amount of a start token: START_AMOUNT converted
+   * to the token at its current price.
+   *
+   * @param {string} token - Start token address
+   * @private
+   * @returns {bigint | null} Amount in the token's smallest unit, null if it cannot be priced
+   */
+  private getStartAmount(token: string): bigint | null {
+    const referenceValue = this.getReferenceValue();
+    if (referenceValue === null) return null;
+    const amount = this.priceOracle.fromEth(token, referenceValue);
+    return amount !== null && amount > 0n ? amount : null;
+  }
+
+  /**
+   * Returns the reference trade size in ETH. START_AMOUNT is converted from
+   * USD at the current ETH price when START_CURRENCY is "USD".
+   *
+   * @private
+   * @returns {number | null} Reference value in ETH, null if ETH cannot be priced in USD
+   */
+  private getReferenceValue(): number | null {
+    const amount = Number(START_AMOUNT);
+    if (START_CURRENCY === "ETH") return amount;
+
+    const ethUsd = this.priceOracle.getEthUsdPrice();
+    if (ethUsd === null) {
+      if (!this.missingUsdPriceReported) {
+        this.missingUsdPriceReported = true;
+        logger.warn("No ETH/USD price available, cannot convert START_AMOUNT", {
+          startAmount: START_AMOUNT,
+        });
+      }
+      return null;
+    }
+    this.missingUsdPriceReported = false;
+    return amount / ethUsd;
+  }
+
+  /**
+   * Returns the latest update of every route that has been evaluated,
+   * sorted by rate from best to worst.
+   *
+   * @param {number} [limit] - Maximum number of routes to return, all if omitted
+   * @returns {ArbitrageUpdate[]} Latest route updates
+   */
+  getLatestUpdates(limit?: number): ArbitrageUpdate[] {
+    const updates = Array.from(this.latestUpdates.values()).sort(
+      (a, b) => b.rate - a.rate,
+    );
+    return limit === undefined ? updates : updates.slice(0, limit);
+  }
+
+  /**
+   * Resolves the hops of a route against the current pool state.
+   *
+   * @param {string} pathId - Route identifier
+   * @returns {RouteHop[] | null} Hops in trade order, or null if the route is unknown or cannot be resolved
+   */
+  getRouteHops(pathId: string): RouteHop[] | null {
+    const routePath = this.dbManager.getRouteMap().get(pathId);
+    return routePath ? this.resolveRouteHops(routePath) : null;
+  }
+
+  /**
+   * Returns the latest update of a route.
+   *
+   * @param {string} pathId - Route identifier
+   * @returns {ArbitrageUpdate | undefined} Latest update, if the route has been evaluated
+   */
+  getLatestUpdate(pathId: string): ArbitrageUpdate | undefined {
+    return this.latestUpdates.get(pathId);
+  }
+
+  /**
+   * Resolves the hops of a route against the current pool state.
+   * Determines the trade direction, reserves, fee and token metadata of every hop.
+   * A route with a pool that is not tracked, or whose hops do not connect,
+   * cannot be quoted and is rejected as a whole.
+   *
+   * @param {RouteInfo} routePath - Route to resolve
+   * @private
+   * @returns {RouteHop[] | null} Hops of the route in trade order, null if the route cannot be resolved
+   */
+  private resolveRouteHops(routePath: RouteInfo): RouteHop[] | null {
+    const lpMap = this.dbManager.getLPMap();
+    const tokenMap = this.dbManager.getTokenMap();
+    const hops: RouteHop[] = [];
+
+    for (const pathItem of routePath.routeInfo) {
+      const lpPool = lpMap.get(pathItem.lp);
+      if (!lpPool) return null;
+
+      // Determine token order and reserves
+      const isToken1Target = pathItem.target === lpPool.token1_address;
+      const tokenIn = isToken1Target
+        ? lpPool.token2_address.toLowerCase()
+        : lpPool.token1_address.toLowerCase();
+      const tokenOut = isToken1Target
+        ? lpPool.token1_address.toLowerCase()
+        : lpPool.token2_address.toLowerCase();
+      if (hops.length > 0 && hops[hops.length - 1].tokenOut !== tokenIn) {
+        return null;
+      }
+
+      // V3 pools are described by their virtual reserves in the current range
+      const { reserve0, reserve1 } =
+        lpPool.pool_type === "v3" && lpPool.v3
+          ? getVirtualReserves(lpPool.v3)
+          : { reserve0: lpPool.reserve1, reserve1: lpPool.reserve2 };
+
+      // Get token information for logging
+      const tokenInfoIn = tokenMap.get(tokenIn);
+      const tokenInfoOut = tokenMap.get(tokenOut);
+
+      hops.push({
+        pool: lpPool,
+        isToken1Target,
+        fee: lpPool.fee ?? DEFAULT_POOL_FEE,
+        tokenIn,
+        tokenOut,
+        reserveIn: isToken1Target ? reserve1 : reserve0,
+        reserveOut: isToken1Target ? reserve0 : reserve1,
+        symbolIn: tokenInfoIn ? tokenInfoIn.symbol : "UNKNOWN",
+        symbolOut: tokenInfoOut ? tokenInfoOut.symbol : "UNKNOWN",
+        decimalsIn: tokenInfoIn ? tokenInfoIn.decimals : 0,
+        decimalsOut: tokenInfoOut ? tokenInfoOut.decimals : 0,
+      });
+    }
+    return hops.length > 0 ? hops : null;
+  }
+
+  /**
+   * Quotes a route for a given input amount.
+   *
+   * @param {RouteHop[]} hops - Resolved hops of the route
+   * @param {bigint} amountIn - Input amount of the first hop
+   * @private
+   * @returns {bigint[]} Amounts before the first hop and after every hop
+   */
+  private quoteRoute(hops: RouteHop[], amountIn: bigint): bigint[] {
+    const amounts = [amountIn];
+    let currentAmount = amountIn;
+
+    for (const hop of hops) {
+      if (hop.pool.pool_type === "v3") {
+        // Concentrated liquidity: simulate the swap across initialized ticks
+        currentAmount = this.getV3AmountOut(hop, currentAmount);
+      } else {
+        // Constant product formula, exactly as the V2 router quotes it
+        currentAmount = this.getV2AmountOut(hop, currentAmount);
+      }
+      amounts.push(currentAmount);
+    }
+    return amounts;
+  }
+
+  /**
+   * Calculates the output amount of a V2 hop. An empty pair or a zero input,
+   * which the router rejects, quote as zero.
+   *
+   * @param {RouteHop} hop - Resolved V2 hop
    * @param {bigint} amountIn - Input amount
-   * @param {bigint} reserveIn - Reserve of input token
-   * @param {bigint} reserveOut - Reserve of output token
-   * @param {number} feeMultiplier - Multiplier for fee calculation (1 - fee%)
-   * @param {number} decimalsIn - Decimals of input token
-   * @param {number} decimalsOut - Decimals of output token
    * @private
-   * @returns {bigint} Output amount after fee
+   * @returns {bigint} Output amount
    */
-  private getAmountOutWithFee(
-    amountIn: bigint,
-    reserveIn: bigint,
-    reserveOut: bigint,
-    feeMultiplier: number,
-    decimalsIn: number,
-    decimalsOut: number,
-  ): bigint {
-    // Return 0 if either reserve is empty
-    if (reserveIn === 0n || reserveOut === 0n) {
+  private getV2AmountOut(hop: RouteHop, amountIn: bigint): bigint {
+    if (amountIn <= 0n || hop.reserveIn === 0n || hop.reserveOut === 0n) {
       return 0n;
     }
+    return getAmountOut(amountIn, hop.reserveIn, hop.reserveOut, hop.fee);
+  }
+
+  /**
+   * Calculates the output amount of a V3 hop. Token1_address holds the pool's
+   * token0, so buying token1_address means swapping token1 for token0.
+   *
+   * @param {RouteHop} hop - Resolved V3 hop
+   * @param {bigint} amountIn - Input amount
+   * @private
+   * @returns {bigint} Output amount, 0 if the pool state is not loaded yet
+   */
+  private getV3AmountOut(hop: RouteHop, amountIn: bigint): bigint {
+    const { v3, tick_spacing } = hop.pool;
+    if (!v3 || tick_spacing === null) {
+      return 0n;
+    }
+    return swapExactInput(
+      v3,
+      !hop.isToken1Target,
+      amountIn,
+      hop.fee,
+      tick_spacing,
+    ).amountOut;
+  }
+
+  /**
+   * Expresses the hops of a route as constant-product hops so the optimal
+   * trade size can be computed in closed form. Routes containing a V3 pool
+   * have no closed form and return null.
+   *
+   * @param {RouteHop[]} hops - Resolved hops of the route
+   * @private
+   * @returns {ConstantProductHop[] | null} Hops with reserves and fee fraction
+   */
+  private toConstantProductHops(
+    hops: RouteHop[],
+  ): ConstantProductHop[] | null {
+    if (hops.some((hop) => hop.pool.pool_type === "v3")) {
+      return null;
+    }
+
+    const feeDenominator = BigInt(FEE_DENOMINATOR);
+    return hops.map((hop) => ({
+      reserveIn: hop.reserveIn,
+      reserveOut: hop.reserveOut,
+      feeNumerator: feeDenominator - BigInt(hop.fee),
+      feeDenominator,
+    }));
+  }
+
+  /**
+   * Builds the human-readable calculation steps of a route.
+   *
+   * @param {RouteHop[]} hops - Resolved hops of the route
+   * @param {bigint[]} amounts - Amounts returned by quoteRoute
+   * @private
+   * @returns {string} Description of every step of the route
+   */
+  private describeSteps(hops: RouteHop[], amounts: bigint[]): string {
+    let logDescription = `${ethers.formatUnits(amounts[0], hops[0].decimalsIn)} ${hops[0].symbolIn}`;
+
+    hops.forEach((hop, index) => {
+      // Convert amounts for logging
+      const adjustedAmountOut =
+        Number(amounts[index + 1]) / 10 ** hop.decimalsOut;
+
+      // Fee that applied on this hop, as a percentage
+      const feePercent = (hop.fee / FEE_DENOMINATOR) * 100;
+
+      // Add step to log description
+      logDescription += ` -> ${adjustedAmountOut.toFixed(hop.decimalsOut)} ${hop.symbolOut} (${hop.pool.address} - ${hop.isToken1Target} - fee ${feePercent}%)\r\n`;
+    });
+    return logDescription;
+  }
+
+  /**
+   * Returns a copy of a V3 pool with a Swap, Mint or Burn event applied.
+   *
+   * @param {LPInfo} poolInfo - Pool to update
+   * @param {V3PoolEvent} event - Decoded pool event
+   * @private
+   * @returns {LPInfo | null} Updated copy, or null if the pool state is not loaded
+   */
+  private applyV3Event(poolInfo: LPInfo, event: V3PoolEvent): LPInfo | null {
+    if (!poolInfo.v3) return null;
 
-    // Adjust amounts to same decimal precision
-    const adjustedAmountIn =
-      (amountIn * BigInt(10 ** decimalsOut)) / BigInt(10 ** decimalsIn);
-    const adjustedReserveIn =
-      (reserveIn * BigInt(10 ** decimalsOut)) / BigInt(10 ** decimalsIn);
-    const adjustedReserveOut = reserveOut;
+    if (event.type === "swap") {
+      return {
+        ...poolInfo,
+        v3: {
+          ...poolInfo.v3,
+          sqrtPriceX96: event.sqrtPriceX96,
+          liquidity: event.liquidity,
+          tick: event.tick,
+        },
+      };
+    }
 
-    // Apply fee to input amount
-    const amountInWithFee = BigInt(
-      Math.floor(Number(adjustedAmountIn) * feeMultiplier),
+    const v3 = { ...poolInfo.v3, ticks: new Map(poolInfo.v3.ticks) };
+    applyLiquidityDelta(
+      v3,
+      event.tickLower,
+      event.tickUpper,
+      event.type === "mint" ? event.amount : -event.amount,
     );
+    return { ...poolInfo, v3 };
+  }
 
-    // Calculate output amount using constant product formula:
-    // (x + Δx)(y - Δy) = xy
-    // where x = reserveIn, y = reserveOut, Δx = amountInWithFee
-    const numerator = amountInWithFee * adjustedReserveOut;
-    const denominator = adjustedReserveIn + amountInWithFee;
-    return numerator / denominator;
+  /**
+   * Returns a copy of a pool with a decoded event applied.
+   *
+   * @param {LPInfo} poolInfo - Pool to update
+   * @param {PoolUpdate} update - Decoded pool event
+   * @private
+   * @returns {LPInfo | null} Updated copy, or null if the event cannot be applied yet
+   */
+  private applyPoolUpdate(poolInfo: LPInfo, update: PoolUpdate): LPInfo | null {
+    if (update.type === "v3") {
+      return this.applyV3Event(poolInfo, update.event);
+    }
+    return {
+      ...poolInfo,
+      reserve1: update.reserve0,
+      reserve2: update.reserve1,
+    };
   }
 
   /**
-   * Updates pool reserves and recalculates arbitrage opportunities.
+   * Applies the pool updates of a block in log order, then recalculates
+   * every affected route once against the resulting state.
    * Uses mutex to ensure thread-safe updates.
+   * The replaced pool states are kept for REORG_HISTORY_DEPTH blocks so the
+   * block can be rolled back. Logs of a block that arrive after the block or
+   * later blocks were applied join the block's undo entry, and the pools they
+   * change are rebuilt as if the logs had arrived in order. Emits
+   * BLOCK_EVENT_NAME once the block has been processed.
    *
-   * @param {string} lpAddress - Address of the liquidity pool
-   * @param {ethers.BigNumberish} amount0 - New reserve amount for token0
-   * @param {ethers.BigNumberish} amount1 - New reserve amount for token1
+   * @param {PoolUpdate[]} updates - Decoded pool events, in log order
+   * @param {number} [blockNumber] - Block the updates belong to, if known
+   * @param {string | null} [blockHash] - Hash of the block, if known
    * @async
    * @returns {Promise<void>}
    */
-  async updateReservesAndCalculateArbitrage(
-    lpAddress: string,
-    amount0: ethers.BigNumberish,
-    amount1: ethers.BigNumberish,
+  async applyPoolUpdatesAndCalculateArbitrage(
+    updates: PoolUpdate[],
+    blockNumber?: number,
+    blockHash: string | null = null,
   ) {
     // Get pool information from database
     const lpMap = this.dbManager.getLPMap();
-    const poolInfo = lpMap.get(lpAddress);
+    const lp2routeMapping = this.dbManager.getLP2RouteMapping();
 
     // Acquire mutex to prevent concurrent updates
     const release = await this.mutex.acquire();
     try {
-      if (poolInfo) {
-        // Create a copy of pool info to avoid modifying the original
-        const tempPool = { ...poolInfo };
-        // Update reserves with new values
-        tempPool.reserve1 = BigInt(amount0.toString());
-        tempPool.reserve2 = BigInt(amount1.toString());
-        // Save updated pool info back to database
-        lpMap.set(lpAddress, tempPool);
-        // Recalculate arbitrage opportunities with new reserves
-        await this.calculateArbitrageOpportunities(tempPool);
+      const undo =
+        blockNumber !== undefined
+          ? this.getBlockUndo(blockNumber, blockHash)
+          : null;
+
+      // Updates of every tracked pool, in log order
+      const updatesByPool = new Map<string, PoolUpdate[]>();
+      updates
+        .filter((update) => lpMap.has(update.pool))
+        .forEach((update) => {
+          const poolUpdates = updatesByPool.get(update.pool) ?? [];
+          updatesByPool.set(update.pool, [...poolUpdates, update]);
+        });
+
+      // Save updated copies of the pools back to database
+      updatesByPool.forEach((poolUpdates, pool) => {
+        const poolInfo = lpMap.get(pool)!;
+        lpMap.set(
+          pool,
+          undo
+            ? this.applyBlockUpdates(pool, poolInfo, poolUpdates, undo)
+            : this.applyPoolUpdates(poolInfo, poolUpdates),
+        );
+      });
+
+      // Routes to recalculate, with the last update that touched each of them
+      const routeTriggers = new Map<string, PoolUpdate>();
+      updates.forEach((update) => {
+        lp2routeMapping.get(update.pool)?.forEach((pathId) => {
+          routeTriggers.set(pathId, update);
+        });
+      });
+
+      // Recalculate arbitrage opportunities with the state at the end of the block
+      metrics.routesEvaluated.observe(routeTriggers.size);
+      await this.calculateArbitrageOpportunities(routeTriggers);
+      if (blockNumber !== undefined) {
+        this.emit(BLOCK_EVENT_NAME, blockNumber);
       }
     } finally {
       // Always release the mutex, even if an error occurs
       release();
     }
   }
+
+  /**
+   * Returns a copy of a pool with updates applied in order. Updates that
+   * cannot be applied yet are skipped.
+   *
+   * @param {LPInfo} poolInfo - Pool to update
+   * @param {PoolUpdate[]} updates - Decoded pool events, in log order
+   * @private
+   * @returns {LPInfo} Updated copy, or the pool itself if nothing applied
+   */
+  private applyPoolUpdates(poolInfo: LPInfo, updates: PoolUpdate[]): LPInfo {
+    return updates.reduce(
+      (state, update) => this.applyPoolUpdate(state, update) ?? state,
+      poolInfo,
+    );
+  }
+
+  /**
+   * Applies updates of a block to a pool and records them in the block's
+   * undo entry. The pool is rebuilt from its state before the block: every
+   * update of the block, including those applied before, is applied in log
+   * order, followed by those of the later blocks already applied, whose undo
+   * entries get the states they now start from. Late logs thus lead to the
+   * same state as logs received in order, although Swap events report the
+   * active liquidity outright and Mint and Burn events change it.
+   *
+   * @param {string} pool - Pool address
+   * @param {LPInfo} poolInfo - Current state of the pool
+   * @param {PoolUpdate[]} updates - New updates of the pool, in log order
+   * @param {BlockUndo} undo - Undo entry of the updates' block
+   * @private
+   * @returns {LPInfo} New current state of the pool
+   */
+  private applyBlockUpdates(
+    pool: string,
+    poolInfo: LPInfo,
+    updates: PoolUpdate[],
+    undo: BlockUndo,
+  ): LPInfo {
+    const changedLater = this.blockHistory.filter(
+      (entry) =>
+        entry.blockNumber > undo.blockNumber && entry.previousPools.has(pool),
+    );
+    const startOfBlock =
+      undo.previousPools.get(pool) ??
+      changedLater[0]?.previousPools.get(pool) ??
+      poolInfo;
+    const blockUpdates = [...(undo.updates.get(pool) ?? []), ...updates].sort(
+      (a, b) => (a.context?.logIndex ?? 0) - (b.context?.logIndex ?? 0),
+    );
+    undo.previousPools.set(pool, startOfBlock);
+    undo.updates.set(pool, blockUpdates);
+
+    let state = this.applyPoolUpdates(startOfBlock, blockUpdates);
+    changedLater.forEach((entry) => {
+      entry.previousPools.set(pool, state);
+      state = this.applyPoolUpdates(state, entry.updates.get(pool) ?? []);
+    });
+    return state;
+  }
+
+  /**
+   * Returns the undo entry of a block, creating it if the block was not
+   * applied yet. Entries are kept in block order so that logs arriving after
+   * later blocks join their own block. Drops entries older than
+   * REORG_HISTORY_DEPTH blocks.
+   *
+   * @param {number} blockNumber - Block being applied
+   * @param {string | null} blockHash - Hash of the block, if known
+   * @private
+   * @returns {BlockUndo} Undo entry to record replaced pool states in
+   */
+  private getBlockUndo(blockNumber: number, blockHash: string | null) {
+    const applied = this.blockHistory.find(
+      (entry) =>
+        entry.blockNumber === blockNumber && entry.blockHash === blockHash,
+    );
+    if (applied) return applied;
+
+    const undo: BlockUndo = {
+      blockNumber,
+      blockHash,
+      previousPools: new Map(),
+      updates: new Map(),
+    };
+    const laterIndex = this.blockHistory.findIndex(
+      (entry) => entry.blockNumber > blockNumber,
+    );
+    this.blockHistory.splice(
+      laterIndex >= 0 ? laterIndex : this.blockHistory.length,
+      0,
+      undo,
+    );
+
+    const oldestKept =
+      Math.max(...this.blockHistory.map((entry) => entry.blockNumber)) -
+      REORG_HISTORY_DEPTH;
+    this.blockHistory = this.blockHistory.filter(
+      (entry) => entry.blockNumber > oldestKept,
+    );
+    return undo;
+  }
+
+  /**
+   * Returns the hash of a block whose changes are in the undo history.
+   *
+   * @param {number} blockNumber - Block number
+   * @returns {string | null | undefined} Hash of the applied block (null if unknown), or undefined if not applied
+   */
+  getAppliedBlockHash(blockNumber: number): string | null | undefined {
+    for (let i = this.blockHistory.length - 1; i >= 0; i--) {
+      if (this.blockHistory[i].blockNumber === blockNumber) {
+        return this.blockHistory[i].blockHash;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Rolls back every applied block from `fromBlock` onwards after a chain
+   * reorganization. Pool states are restored latest block first,
+   * REORG_EVENT_NAME is emitted with the invalidated routes, and the routes
+   * using restored pools are recalculated.
+   * Uses mutex to ensure thread-safe updates.
+   *
+   * @param {number} fromBlock - First orphaned block
+   * @async
+   * @returns {Promise<ReorgNotice | null>} Notice sent to listeners, or null if nothing was rolled back
+   */
+  async rollbackBlocks(fromBlock: number): Promise<ReorgNotice | null> {
+    const lpMap = this.dbManager.getLPMap();
+    const lp2routeMapping = this.dbManager.getLP2RouteMapping();
+
+    const release = await this.mutex.acquire();
+    try {
+      const orphaned = this.blockHistory.filter(
+        (entry) => entry.blockNumber >= fromBlock,
+      );
+      if (orphaned.length === 0) return null;
+
+      if (this.blockHistory[0].blockNumber >= fromBlock) {
+        logger.warn(
+          "Reorganization is deeper than the undo history, pool state may be stale until the pools update again",
+          { fromBlock },
+        );
+      }
+
+      // Restore pool states, latest block first
+      const routeTriggers = new Map<string, Pick<PoolUpdate, "pool">>();
+      orphaned.reverse().forEach((entry) => {
+        entry.previousPools.forEach((poolInfo, address) => {
+          lpMap.set(address, poolInfo);
+          lp2routeMapping.get(address)?.forEach((pathId) => {
+            routeTriggers.set(pathId, { pool: address });
+          });
+        });
+      });
+      this.blockHistory = this.blockHistory.filter(
+        (entry) => entry.blockNumber < fromBlock,
+      );
+
+      const notice: ReorgNotice = {
+        fromBlock,
+        orphanedBlocks: orphaned.map(({ blockNumber, blockHash }) => ({
+          blockNumber,
+          blockHash,
+        })),
+        invalidatedPathIds: Array.from(this.latestUpdates.values())
+          .filter(
+            (update) =>
+              update.blockNumber !== undefined &&
+              update.blockNumber >= fromBlock,
+          )
+          .map((update) => update.pathId),
+      };
+      logger.info("Chain reorganization, blocks rolled back", {
+        fromBlock,
+        blocks: orphaned.length,
+      });
+      this.emit(REORG_EVENT_NAME, notice);
+
+      // Recalculate with the restored state
+      await this.calculateArbitrageOpportunities(routeTriggers);
+      return notice;
+    } finally {
+      release();
+    }
+  }
 }
@@ -1,69 +1,154 @@
 import { ethers } from "ethers";
+import WebSocket from "ws";
 import { LRUCache } from "lru-cache";
 import {
   UNISWAP_V2_POOL_ABI,
-  INFURA_API_KEY,
+  UNISWAP_V3_POOL_ABI,
   BATCH_SIZE,
   UNISWAP_VIEWER_ADDRESS,
   UNISWAP_VIEWER_ABI,
+  MULTICALL3_ADDRESS,
+  MULTICALL3_ABI,
+  V3_TICK_BITMAP_WORD_RANGE,
+  BLOCK_COALESCE_DELAY,
 } from "../config/constants";
 import { DatabaseManager } from "../database/dbManager";
 import { ArbitrageCalculator } from "./arbitrageCalculator";
+import { WebSocketPool } from "./webSocketPool";
 import PQueue from "p-queue";
+import { EventContext, PoolUpdate, V3PoolState } from "../types/interfaces";
+import { MAX_TICK, MIN_TICK } from "../utils/uniswapV3";
+import { metrics } from "./metrics";
+import { getLogger } from "../../../shared/logging/logger";
 
-const RECONNECT_INTERVAL = 5000;
+const MIN_RECONNECT_DELAY = 500;
+
+/** Logger of subscriptions and pool events */
+const logger = getLogger("subscriber");
+
+/**
+ * Fields of a pool event log used by the handlers. Satisfied by live
+ * `ethers.Log` objects as well as recorded logs replayed from a file,
+ * which carry no block hash or removal flag.
+ */
+export type PoolLog = Pick<
+  ethers.Log,
+  "address" | "data" | "topics" | "transactionHash" | "blockNumber" | "index"
+> &
+  Partial<Pick<ethers.Log, "blockHash" | "removed">>;
+
+/** Interface used to decode Sync events of V2 pairs */
+const v2Interface = new ethers.Interface(UNISWAP_V2_POOL_ABI);
+
+/** Interface used to read and decode Uniswap V3 pools */
+const v3Interface = new ethers.Interface(UNISWAP_V3_POOL_ABI);
+
+/** Metric label of every subscribed event, by topic */
+const EVENT_NAMES = new Map<string, string>([
+  [v2Interface.getEvent("Sync")!.topicHash, "sync"],
+  [v3Interface.getEvent("Swap")!.topicHash, "swap"],
+  [v3Interface.getEvent("Mint")!.topicHash, "mint"],
+  [v3Interface.getEvent("Burn")!.topicHash, "burn"],
+]);
 
 /**
- * Manages event subscriptions for Uniswap V2 pools.
+ * Manages event subscriptions for Uniswap V2 and V3 pools.
  * Handles real-time monitoring of pool reserves and updates arbitrage calculations.
  */
 export class EventSubscriber {
   private dbManager: DatabaseManager;
   private arbitrageCalculator: ArbitrageCalculator;
-  private activeProviders: ethers.WebSocketProvider[] = [];
+  private webSocketPool: WebSocketPool | null;
+  private activeProviders: {
+    provider: ethers.WebSocketProvider;
+    endpoint: string;
+  }[] = [];
+  private reconnectTimers = new Set<NodeJS.Timeout>();
+  private shuttingDown = false;
   private eventCache = new LRUCache<string, boolean>({
     max: 100_000,
     ttl: 300_000,
   });
-  private eventQueue = new PQueue({ concurrency: 5 });
+  // Blocks are processed one at a time, in the order they complete
+  private eventQueue = new PQueue({ concurrency: 1 });
+  private pendingBlocks = new Map<
+    number,
+    { blockHash: string | null; logs: PoolLog[] }
+  >();
+  private blockTimers = new Map<number, NodeJS.Timeout>();
+  // Time of the last event, or of the subscription, of every batch
+  private lastEventAt = new Map<number, number>();
 
   /**
    * Creates a new EventSubscriber instance.
    *
    * @param {DatabaseManager} dbManager - Database manager instance for accessing pool data
    * @param {ArbitrageCalculator} arbitrageCalculator - Calculator instance for processing arbitrage opportunities
+   * @param {WebSocketPool | null} [webSocketPool] - RPC connection pool, null when only replaying logs
    */
   constructor(
     dbManager: DatabaseManager,
     arbitrageCalculator: ArbitrageCalculator,
+    webSocketPool: WebSocketPool | null = null,
   ) {
     this.dbManager = dbManager;
     this.arbitrageCalculator = arbitrageCalculator;
+    this.webSocketPool = webSocketPool;
+
+    metrics.eventQueueDepth.setCollector(() => [
+      { labels: {}, value: this.eventQueue.size + this.eventQueue.pending },
+    ]);
+    metrics.secondsSinceLastEvent.setCollector(() =>
+      Array.from(this.lastEventAt, ([batch, time]) => ({
+        labels: { batch: String(batch) },
+        value: (Date.now() - time) / 1000,
+      })),
+    );
+  }
+
+  /**
+   * Returns the RPC connection pool.
+   *
+   * @private
+   * @returns {WebSocketPool} Connection pool
+   * @throws {Error} If the subscriber was created without one
+   */
+  private getPool(): WebSocketPool {
+    if (!this.webSocketPool) {
+      throw new Error("EventSubscriber has no RPC connection pool");
+    }
+    return this.webSocketPool;
   }
 
   /**
    * Fetches initial pool reserves for all tracked pools.
    * Uses batched requests to efficiently fetch data from the blockchain.
+   * V2 reserves come from the viewer contract, V3 state through Multicall3.
+   * Every batch fails over to the next healthy HTTP endpoint on error.
    *
    * @async
    * @returns {Promise<void>}
    */
   async fetchInitialPoolReserves() {
     const lpMap = this.dbManager.getLPMap();
-    const poolAddresses = Array.from(lpMap.keys());
-    const provider = new ethers.JsonRpcProvider(
-      `https://mainnet.infura.io/v3/${INFURA_API_KEY}`,
+    const poolAddresses = Array.from(lpMap.keys()).filter(
+      (address) => lpMap.get(address)!.pool_type !== "v3",
     );
-    const viewContract = new ethers.Contract(
-      UNISWAP_VIEWER_ADDRESS,
-      UNISWAP_VIEWER_ABI,
-      provider,
+    const v3PoolAddresses = Array.from(lpMap.keys()).filter(
+      (address) => lpMap.get(address)!.pool_type === "v3",
     );
+    const pool = this.getPool();
 
     for (let i = 0; i < poolAddresses.length; i += BATCH_SIZE) {
       const batch = poolAddresses.slice(i, i + BATCH_SIZE);
       try {
-        const reservesArray = await viewContract.viewPair(batch);
+        const reservesArray = await pool.call((provider) =>
+          new ethers.Contract(
+            UNISWAP_VIEWER_ADDRESS,
+            UNISWAP_VIEWER_ABI,
+            provider,
+          ).viewPair(batch),
+        );
 
         for (let j = 0; j < batch.length; j++) {
           const address = batch[j];
@@ -76,16 +161,185 @@ export class EventSubscriber {
           }
         }
       } catch (error) {
-        console.error(
-          `Error fetching reserves for batch starting at index ${i}:`,
-          error,
-        );
+        logger.error("Error fetching reserves", { batchStart: i, error });
+      }
+    }
+
+    for (let i = 0; i < v3PoolAddresses.length; i += BATCH_SIZE) {
+      const batch = v3PoolAddresses.slice(i, i + BATCH_SIZE);
+      try {
+        await pool.call((provider) => this.fetchV3PoolStates(provider, batch));
+      } catch (error) {
+        logger.error("Error fetching V3 state", { batchStart: i, error });
       }
     }
   }
 
   /**
-   * Subscribes to Sync events for all tracked pools in batches.
+   * Loads price, active liquidity and the initialized ticks around the
+   * current price for a batch of V3 pools.
+   * Ticks are discovered from the tick bitmap words within
+   * V3_TICK_BITMAP_WORD_RANGE of the current tick.
+   *
+   * @param {ethers.Provider} provider - JSON-RPC provider
+   * @param {string[]} addresses - Addresses of V3 pools
+   * @private
+   * @async
+   * @returns {Promise<void>}
+   */
+  private async fetchV3PoolStates(
+    provider: ethers.Provider,
+    addresses: string[],
+  ) {
+    const lpMap = this.dbManager.getLPMap();
+
+    // Step 1: price, tick and active liquidity
+    const stateResults = await this.aggregate(
+      provider,
+      addresses.flatMap((address) => [
+        { target: address, callData: v3Interface.encodeFunctionData("slot0") },
+        {
+          target: address,
+          callData: v3Interface.encodeFunctionData("liquidity"),
+        },
+      ]),
+    );
+    const states = new Map<string, V3PoolState>();
+    addresses.forEach((address, index) => {
+      const slot0 = stateResults[index * 2];
+      const liquidity = stateResults[index * 2 + 1];
+      if (!slot0 || !liquidity) return;
+
+      const [sqrtPriceX96, tick] = v3Interface.decodeFunctionResult(
+        "slot0",
+        slot0,
+      );
+      states.set(address, {
+        sqrtPriceX96: BigInt(sqrtPriceX96),
+        tick: Number(tick),
+        liquidity: BigInt(
+          v3Interface.decodeFunctionResult("liquidity", liquidity)[0],
+        ),
+        ticks: new Map(),
+        tickIndices: [],
+        minTick: MIN_TICK,
+        maxTick: MAX_TICK,
+      });
+    });
+
+    // Step 2: tick bitmap words around the current tick
+    const wordCalls: { address: string; wordPosition: number }[] = [];
+    states.forEach((state, address) => {
+      const tickSpacing = lpMap.get(address)!.tick_spacing ?? 1;
+      const wordPosition = (tick: number) =>
+        Math.floor(Math.floor(tick / tickSpacing) / 256);
+      const current = wordPosition(state.tick);
+      const first = Math.max(
+        current - V3_TICK_BITMAP_WORD_RANGE,
+        wordPosition(MIN_TICK),
+      );
+      const last = Math.min(
+        current + V3_TICK_BITMAP_WORD_RANGE,
+        wordPosition(MAX_TICK),
+      );
+      for (let word = first; word <= last; word++) {
+        wordCalls.push({ address, wordPosition: word });
+      }
+      // Mints, burns and swaps beyond these words cannot be simulated
+      state.minTick = Math.max(first * 256 * tickSpacing, MIN_TICK);
+      state.maxTick = Math.min((last * 256 + 255) * tickSpacing, MAX_TICK);
+    });
+    const wordResults = await this.aggregate(
+      provider,
+      wordCalls.map(({ address, wordPosition }) => ({
+        target: address,
+        callData: v3Interface.encodeFunctionData("tickBitmap", [wordPosition]),
+      })),
+    );
+
+    // Step 3: liquidity of every initialized tick found in the bitmap
+    const tickCalls: { address: string; tick: number }[] = [];
+    wordCalls.forEach(({ address, wordPosition }, index) => {
+      const result = wordResults[index];
+      if (!result) return;
+      const bitmap = BigInt(
+        v3Interface.decodeFunctionResult("tickBitmap", result)[0],
+      );
+      const tickSpacing = lpMap.get(address)!.tick_spacing ?? 1;
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bitmap >> BigInt(bit)) & 1n) {
+          tickCalls.push({
+            address,
+            tick: (wordPosition * 256 + bit) * tickSpacing,
+          });
+        }
+      }
+    });
+    const tickResults = await this.aggregate(
+      provider,
+      tickCalls.map(({ address, tick }) => ({
+        target: address,
+        callData: v3Interface.encodeFunctionData("ticks", [tick]),
+      })),
+    );
+    tickCalls.forEach(({ address, tick }, index) => {
+      const result = tickResults[index];
+      if (!result) return;
+      const [liquidityGross, liquidityNet] = v3Interface.decodeFunctionResult(
+        "ticks",
+        result,
+      );
+      states.get(address)!.ticks.set(tick, {
+        liquidityGross: BigInt(liquidityGross),
+        liquidityNet: BigInt(liquidityNet),
+      });
+    });
+
+    states.forEach((state, address) => {
+      state.tickIndices = Array.from(state.ticks.keys()).sort((a, b) => a - b);
+      const lpInfo = lpMap.get(address);
+      if (lpInfo) {
+        lpInfo.v3 = state;
+      }
+    });
+  }
+
+  /**
+   * Executes read calls through Multicall3 in chunks of BATCH_SIZE.
+   * Failed calls are returned as null instead of failing the whole batch.
+   *
+   * @param {ethers.Provider} provider - JSON-RPC provider
+   * @param {{ target: string; callData: string }[]} calls - Calls to execute
+   * @private
+   * @async
+   * @returns {Promise<(string | null)[]>} Raw return data per call
+   */
+  private async aggregate(
+    provider: ethers.Provider,
+    calls: { target: string; callData: string }[],
+  ): Promise<(string | null)[]> {
+    const multicall = new ethers.Contract(
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ABI,
+      provider,
+    );
+    const results: (string | null)[] = [];
+
+    for (let i = 0; i < calls.length; i += BATCH_SIZE) {
+      const batch = calls
+        .slice(i, i + BATCH_SIZE)
+        .map((call) => ({ ...call, allowFailure: true }));
+      const response = await multicall.aggregate3.staticCall(batch);
+      response.forEach(
+        ([success, returnData]: [boolean, string]) =>
+          results.push(success && returnData !== "0x" ? returnData : null),
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Subscribes to Sync (V2) and Swap/Mint/Burn (V3) events for all tracked pools in batches.
    * Creates WebSocket connections and sets up event listeners.
    *
    * @async
@@ -97,103 +351,352 @@ export class EventSubscriber {
 
     // Clear existing connections
     this.cleanupProviders();
+    this.lastEventAt.clear();
 
     // Process in batched subscriptions
     for (let i = 0; i < addresses.length; i += BATCH_SIZE) {
       const batch = addresses.slice(i, i + BATCH_SIZE);
-      await this.createBatchSubscription(batch);
+      await this.createBatchSubscription(batch, i / BATCH_SIZE);
       await new Promise((resolve) => setTimeout(resolve, 100)); // Add delay between batches
     }
   }
 
   /**
    * Creates a WebSocket subscription for a batch of pool addresses.
-   * Sets up event listeners and error handling.
+   * Opens the provider on the healthiest WebSocket endpoint and, when the
+   * connection fails, puts that endpoint in backoff and resubscribes on the
+   * next one.
    *
    * @param {string[]} addresses - Array of pool addresses to subscribe to
+   * @param {number} batchIndex - Index of the batch, used as metric label
    * @private
    * @async
    * @returns {Promise<void>}
    */
-  private async createBatchSubscription(addresses: string[]) {
-    const provider = new ethers.WebSocketProvider(
-      `wss://mainnet.infura.io/ws/v3/${INFURA_API_KEY}`,
-    );
+  private async createBatchSubscription(
+    addresses: string[],
+    batchIndex: number,
+  ) {
+    const pool = this.getPool();
+    let connection: { provider: ethers.WebSocketProvider; endpoint: string };
+    try {
+      connection = pool.getConnection();
+    } catch (error) {
+      logger.error("Failed to create subscription", { batchIndex, error });
+      this.scheduleReconnection(addresses, batchIndex);
+      return;
+    }
+    const { provider, endpoint } = connection;
+    this.activeProviders.push(connection);
 
-    this.activeProviders.push(provider);
+    // Close and error can both fire for the same failure, fail over once,
+    // and not at all for providers closed on purpose
+    let failed = false;
+    const failover = (reason: string) => {
+      const active = this.activeProviders.some(
+        (item) => item.provider === provider,
+      );
+      if (failed || !active || this.shuttingDown) return;
+      failed = true;
+      const backoff = pool.reportFailure(endpoint);
+      logger.warn("Connection lost, reconnecting", {
+        endpoint,
+        reason,
+        backoffMs: backoff,
+        batchIndex,
+      });
+      this.activeProviders = this.activeProviders.filter(
+        (item) => item.provider !== provider,
+      );
+      pool.releaseConnection(provider, endpoint);
+      this.scheduleReconnection(addresses, batchIndex);
+    };
 
     try {
-      const contractInterface = new ethers.Interface(UNISWAP_V2_POOL_ABI);
-
-      // Create batch filter for Sync events
-      const syncEvent = contractInterface.getEvent("Sync");
+      // Create batch filter for V2 Sync and V3 Swap/Mint/Burn events
       const filter = {
         address: addresses,
-        topics: [syncEvent ? syncEvent.topicHash : null],
+        topics: [
+          [
+            v2Interface.getEvent("Sync")!.topicHash,
+            v3Interface.getEvent("Swap")!.topicHash,
+            v3Interface.getEvent("Mint")!.topicHash,
+            v3Interface.getEvent("Burn")!.topicHash,
+          ],
+        ],
       };
 
-      // Event listener with proper error handling
-      provider.on(filter, async (log: ethers.Log) => {
-        this.eventQueue.add(() => this.handleSyncEvent(log));
+      // ethers does not report closed sockets, listen on the ws socket itself
+      const socket = provider.websocket as unknown as WebSocket;
+      socket.on("close", (code: number, reason: Buffer) => {
+        failover(`closed with code ${code}: ${reason.toString()}`);
       });
-
-      provider.websocket.close = (code?: number, reason?: any) => {
-        console.log(`Connection closed (${code}): ${reason}, reconnecting...`);
-        this.scheduleReconnection(addresses);
-      };
-
       provider.websocket.onerror = (error: Error) => {
-        console.error("WebSocket error:", error);
-        this.scheduleReconnection(addresses);
+        logger.error("WebSocket error", { endpoint, error });
+        failover("socket error");
       };
+
+      // Event listener with proper error handling
+      this.lastEventAt.set(batchIndex, Date.now());
+      await provider.on(filter, (log: ethers.Log) => {
+        this.lastEventAt.set(batchIndex, Date.now());
+        this.handlePoolEvent(log);
+      });
+
+      // Score the endpoint by the latency of a first round trip
+      const startedAt = Date.now();
+      await provider.getBlockNumber();
+      pool.reportSuccess(endpoint, Date.now() - startedAt);
     } catch (error) {
-      console.error("Failed to create subscription:", error);
+      logger.error("Failed to create subscription", { endpoint, error });
+      failover("subscription failed");
+    }
+  }
+
+  /**
+   * Buffers a pool event until its block is complete.
+   * Events are identified by block, block hash and log index, so several
+   * logs of the same transaction are all kept. A block is processed once a
+   * log from a later block arrives or BLOCK_COALESCE_DELAY ms after its first
+   * log. Logs that arrive after their block was processed, e.g. from a
+   * slower subscription, are processed the same way and join the block's
+   * undo entry. Logs flagged `removed` by a chain reorganization undo their
+   * block.
+   *
+   * @param {PoolLog} log - The event log from the blockchain
+   */
+  handlePoolEvent(log: PoolLog) {
+    if (log.removed) {
+      this.handleRemovedLog(log);
+      return;
+    }
+
+    const eventId = this.getEventId(log);
+    metrics.poolEventsReceived.inc({
+      event: EVENT_NAMES.get(log.topics[0]) ?? "unknown",
+    });
+
+    // Check cache first
+    if (this.eventCache.get(eventId)) {
+      metrics.poolEventsDeduped.inc();
+      return;
+    }
+    this.eventCache.set(eventId, true);
+
+    const pending = this.pendingBlocks.get(log.blockNumber);
+    if (pending && pending.blockHash === (log.blockHash ?? null)) {
+      pending.logs.push(log);
+    } else {
+      // A different hash at the same height replaces the buffered block
+      clearTimeout(this.blockTimers.get(log.blockNumber));
+      this.pendingBlocks.set(log.blockNumber, {
+        blockHash: log.blockHash ?? null,
+        logs: [log],
+      });
+      this.blockTimers.set(
+        log.blockNumber,
+        setTimeout(
+          () => this.flushBlock(log.blockNumber),
+          BLOCK_COALESCE_DELAY,
+        ),
+      );
+    }
+
+    // A log from a later block means the earlier blocks are complete
+    Array.from(this.pendingBlocks.keys())
+      .filter((blockNumber) => blockNumber < log.blockNumber)
+      .sort((a, b) => a - b)
+      .forEach((blockNumber) => this.flushBlock(blockNumber));
+  }
+
+  /**
+   * Handles a log that was removed from the canonical chain. Buffered logs
+   * are simply dropped; if its block was already applied, the block and
+   * every later one are rolled back.
+   *
+   * @param {PoolLog} log - Removed event log
+   * @private
+   */
+  private handleRemovedLog(log: PoolLog) {
+    this.eventCache.delete(this.getEventId(log));
+
+    const pending = this.pendingBlocks.get(log.blockNumber);
+    if (pending && pending.blockHash === (log.blockHash ?? null)) {
+      pending.logs = pending.logs.filter((item) => item.index !== log.index);
+    }
+
+    this.enqueue(async () => {
+      const appliedHash = this.arbitrageCalculator.getAppliedBlockHash(
+        log.blockNumber,
+      );
+      if (appliedHash !== undefined && appliedHash === (log.blockHash ?? null)) {
+        await this.arbitrageCalculator.rollbackBlocks(log.blockNumber);
+      }
+    });
+  }
+
+  /**
+   * Queues the buffered logs of a block for processing.
+   *
+   * @param {number} blockNumber - Block to flush
+   * @private
+   */
+  private flushBlock(blockNumber: number) {
+    const pending = this.pendingBlocks.get(blockNumber);
+    clearTimeout(this.blockTimers.get(blockNumber));
+    this.pendingBlocks.delete(blockNumber);
+    this.blockTimers.delete(blockNumber);
+    if (pending && pending.logs.length > 0) {
+      this.enqueue(() => this.handleBlock(pending.logs));
     }
   }
 
   /**
-   * Handles Sync events from pools.
-   * Updates pool reserves and triggers arbitrage calculations.
+   * Adds a task to the event queue, recording how long it waited.
    *
-   * @param {ethers.Log} log - The event log from the blockchain
+   * @param {() => Promise<void>} task - Task to run once earlier tasks are done
    * @private
+   */
+  private enqueue(task: () => Promise<void>) {
+    const queuedAt = performance.now();
+    this.eventQueue.add(() => {
+      metrics.eventQueueWait.observeSince(queuedAt);
+      return task();
+    });
+  }
+
+  /**
+   * Applies the logs of one block in log order and recalculates every
+   * affected route once. If a block with a different hash was already
+   * applied at the same height, it is rolled back first.
+   * Resolves once the recalculation triggered by the block has finished.
+   *
+   * @param {PoolLog[]} logs - Logs of a single block, in any order
    * @async
    * @returns {Promise<void>}
    */
-  private async handleSyncEvent(log: ethers.Log) {
-    const eventId = `${log.transactionHash}`;
+  async handleBlock(logs: PoolLog[]) {
+    if (logs.length === 0) return;
+    const { blockNumber, blockHash } = logs[0];
 
-    // Check cache first
-    if (this.eventCache.get(eventId)) return;
-    this.eventCache.set(eventId, true);
+    const appliedHash =
+      this.arbitrageCalculator.getAppliedBlockHash(blockNumber);
+    if (blockHash && appliedHash && appliedHash !== blockHash) {
+      await this.arbitrageCalculator.rollbackBlocks(blockNumber);
+    }
+
+    const updates = [...logs]
+      .sort((a, b) => a.index - b.index)
+      .map((log) => this.decodePoolEvent(log))
+      .filter((update): update is PoolUpdate => update !== null);
+    await this.arbitrageCalculator.applyPoolUpdatesAndCalculateArbitrage(
+      updates,
+      blockNumber,
+      blockHash ?? null,
+    );
+  }
 
-    const uniswapInterface = new ethers.Interface(UNISWAP_V2_POOL_ABI);
+  /**
+   * Builds the deduplication key of a log.
+   *
+   * @param {PoolLog} log - The event log
+   * @private
+   * @returns {string} Identifier unique to the log within the chain
+   */
+  private getEventId(log: PoolLog): string {
+    return `${log.blockNumber}:${log.blockHash ?? ""}:${log.index}`;
+  }
 
-    // Parse event data
-    const parsedLog = uniswapInterface.parseLog(log);
+  /**
+   * Decodes a V2 Sync or V3 Swap, Mint or Burn log into a pool update.
+   *
+   * @param {PoolLog} log - The event log from the blockchain or a recording
+   * @private
+   * @returns {PoolUpdate | null} Decoded update, or null if the log cannot be parsed
+   */
+  private decodePoolEvent(log: PoolLog): PoolUpdate | null {
+    const pool = log.address.toLocaleLowerCase();
+    const context = this.getEventContext(log);
+
+    if (log.topics[0] === v2Interface.getEvent("Sync")!.topicHash) {
+      const parsedLog = v2Interface.parseLog(log);
+      if (!parsedLog) {
+        logger.warn("Could not parse log", { log });
+        return null;
+      }
+      return {
+        type: "reserves",
+        pool,
+        reserve0: BigInt(parsedLog.args.reserve0),
+        reserve1: BigInt(parsedLog.args.reserve1),
+        context,
+      };
+    }
+
+    const parsedLog = v3Interface.parseLog(log);
     if (!parsedLog) {
-      console.warn("Could not parse log:", log);
-      return;
+      logger.warn("Could not parse log", { log });
+      return null;
     }
-    const reserve0 = parsedLog.args.reserve0;
-    const reserve1 = parsedLog.args.reserve1;
-    this.arbitrageCalculator.updateReservesAndCalculateArbitrage(
-      log.address.toLocaleLowerCase(),
-      reserve0,
-      reserve1,
-    );
+    if (parsedLog.name === "Swap") {
+      return {
+        type: "v3",
+        pool,
+        event: {
+          type: "swap",
+          sqrtPriceX96: BigInt(parsedLog.args.sqrtPriceX96),
+          liquidity: BigInt(parsedLog.args.liquidity),
+          tick: Number(parsedLog.args.tick),
+        },
+        context,
+      };
+    }
+    return {
+      type: "v3",
+      pool,
+      event: {
+        type: parsedLog.name === "Mint" ? "mint" : "burn",
+        tickLower: Number(parsedLog.args.tickLower),
+        tickUpper: Number(parsedLog.args.tickUpper),
+        amount: BigInt(parsedLog.args.amount),
+      },
+      context,
+    };
+  }
+
+  /**
+   * Extracts the on-chain origin of a log for downstream reporting.
+   *
+   * @param {PoolLog} log - The event log
+   * @private
+   * @returns {EventContext} Block, transaction and log index of the log
+   */
+  private getEventContext(log: PoolLog): EventContext {
+    return {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
   }
 
   /**
    * Schedules reconnection for a batch of pool addresses.
+   * Reconnects as soon as a WebSocket endpoint is out of backoff.
    *
    * @param {string[]} addresses - Array of pool addresses to reconnect
+   * @param {number} batchIndex - Index of the batch
    * @private
    */
-  private scheduleReconnection(addresses: string[]) {
-    setTimeout(async () => {
-      await this.createBatchSubscription(addresses);
-    }, RECONNECT_INTERVAL);
+  private scheduleReconnection(addresses: string[], batchIndex: number) {
+    if (this.shuttingDown) return;
+    metrics.providerReconnects.inc();
+
+    const delay = Math.max(this.getPool().getRetryDelay(), MIN_RECONNECT_DELAY);
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(timer);
+      await this.createBatchSubscription(addresses, batchIndex);
+    }, delay);
+    this.reconnectTimers.add(timer);
   }
 
   /**
@@ -203,21 +706,28 @@ export class EventSubscriber {
    * @private
    */
   private cleanupProviders() {
-    this.activeProviders.forEach((provider) => {
-      provider.removeAllListeners();
-      provider.destroy();
-    });
+    const providers = this.activeProviders;
     this.activeProviders = [];
+    providers.forEach(({ provider, endpoint }) => {
+      this.getPool().releaseConnection(provider, endpoint);
+    });
   }
 
   /**
    * Shuts down the event subscriber.
-   * Cleans up all active connections.
+   * Cleans up all active connections, pending reconnections and blocks
+   * still being buffered.
    *
    * @async
    * @returns {Promise<void>}
    */
   async shutdown() {
+    this.shuttingDown = true;
+    this.reconnectTimers.forEach((timer) => clearTimeout(timer));
+    this.reconnectTimers.clear();
     this.cleanupProviders();
+    this.blockTimers.forEach((timer) => clearTimeout(timer));
+    this.blockTimers.clear();
+    this.pendingBlocks.clear();
   }
 }
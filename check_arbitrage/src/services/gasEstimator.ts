@@ -0,0 +1,133 @@
+/**
+ * Gas cost estimation for arbitrage routes.
+ * Estimates the gas used by a route from its hop count and pool types and
+ * prices it with the current base fee plus a priority fee, or with a static
+ * gas price when no RPC connection is available.
+ * Base fee lookups fail over between the configured HTTP endpoints.
+ *
+ * Features:
+ * - Per-route gas estimate by pool type
+ * - Base fee tracking from the latest block
+ * - Static gas price fallback
+ *
+ * @class GasEstimator
+ */
+
+import { ethers } from "ethers";
+import {
+  GAS_BASE_COST,
+  GAS_PER_V2_HOP,
+  GAS_PER_V3_HOP,
+  GAS_PRICE_MODE,
+  GAS_PRICE_REFRESH_INTERVAL,
+  PRIORITY_FEE_GWEI,
+  STATIC_GAS_PRICE_GWEI,
+} from "../config/constants";
+import { GasEstimate, RouteHop } from "../types/interfaces";
+import { WebSocketPool } from "./webSocketPool";
+import { getLogger } from "../../../shared/logging/logger";
+
+/** Logger of base fee refreshes */
+const logger = getLogger("gas");
+
+export class GasEstimator {
+  /** Connection pool used to read the latest base fee, null for static pricing */
+  private webSocketPool: WebSocketPool | null;
+
+  /** Base fee of the latest block seen, null until the first refresh */
+  private baseFee: bigint | null = null;
+
+  /** Timer refreshing the base fee */
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new GasEstimator instance.
+   *
+   * @param {WebSocketPool | null} webSocketPool - Connection pool for base fee lookups, or null for static pricing
+   */
+  constructor(webSocketPool: WebSocketPool | null) {
+    this.webSocketPool = webSocketPool;
+  }
+
+  /**
+   * Starts tracking the base fee of the latest block.
+   * Does nothing in static mode or without a connection pool.
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async start() {
+    if (GAS_PRICE_MODE !== "dynamic" || !this.webSocketPool) return;
+
+    await this.refresh();
+    this.refreshTimer = setInterval(
+      () => this.refresh(),
+      GAS_PRICE_REFRESH_INTERVAL,
+    );
+  }
+
+  /**
+   * Reads the base fee of the latest block.
+   * Keeps the previous value if the request fails.
+   *
+   * @async
+   * @returns {Promise<void>}
+   */
+  async refresh() {
+    if (!this.webSocketPool) return;
+
+    try {
+      const block = await this.webSocketPool.call((provider) =>
+        provider.getBlock("latest"),
+      );
+      if (block?.baseFeePerGas != null) {
+        this.baseFee = block.baseFeePerGas;
+      }
+    } catch (error) {
+      logger.error("Error fetching latest base fee", { error });
+    }
+  }
+
+  /**
+   * Returns the gas price used to cost routes: base fee plus priority fee in
+   * dynamic mode, the static gas price otherwise or before the first refresh.
+   *
+   * @returns {bigint} Gas price in wei
+   */
+  getGasPrice(): bigint {
+    if (GAS_PRICE_MODE === "dynamic" && this.baseFee !== null) {
+      return this.baseFee + ethers.parseUnits(PRIORITY_FEE_GWEI, "gwei");
+    }
+    return ethers.parseUnits(STATIC_GAS_PRICE_GWEI, "gwei");
+  }
+
+  /**
+   * Estimates the gas used and its cost for executing a route.
+   *
+   * @param {RouteHop[]} hops - Resolved hops of the route
+   * @returns {GasEstimate} Gas units, gas price and total cost in wei
+   */
+  estimate(hops: RouteHop[]): GasEstimate {
+    const gasUnits = hops.reduce(
+      (total, hop) =>
+        total + (hop.pool.pool_type === "v3" ? GAS_PER_V3_HOP : GAS_PER_V2_HOP),
+      GAS_BASE_COST,
+    );
+    const gasPrice = this.getGasPrice();
+    return {
+      gasUnits,
+      gasPrice,
+      gasCost: BigInt(gasUnits) * gasPrice,
+    };
+  }
+
+  /**
+   * Stops tracking the base fee.
+   */
+  stop() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * Prometheus metrics of the detector.
+ * A minimal registry of counters, gauges and histograms rendered in the
+ * Prometheus text exposition format, and the metrics every component
+ * reports to. Served by the HTTP server on /metrics.
+ *
+ * Rates such as events per second are derived by Prometheus from the
+ * counters, e.g. `rate(detector_pool_events_received_total[1m])`.
+ *
+ * @module metrics
+ */
+
+/**
+ * Label names and values of a sample.
+ *
+ * @typedef {Record<string, string>} Labels
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * A sample of a metric.
+ *
+ * @interface Sample
+ */
+export interface Sample {
+  /** Labels identifying the series */
+  labels: Labels;
+
+  /** Current value */
+  value: number;
+}
+
+/**
+ * Formats labels as a Prometheus label set.
+ *
+ * @param {Labels} labels - Labels to format
+ * @returns {string} Label set including braces, empty without labels
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const escaped = entries.map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return `{${escaped.join(",")}}`;
+}
+
+/**
+ * Formats a sample value, including the special values Prometheus accepts.
+ *
+ * @param {number} value - Value to format
+ * @returns {string} Value as written in the exposition format
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Base class of the metric types.
+ *
+ * @class Metric
+ */
+abstract class Metric {
+  /**
+   * Creates a metric.
+   *
+   * @param {string} name - Metric name
+   * @param {string} help - Description shown by Prometheus
+   * @param {"counter" | "gauge" | "histogram"} type - Metric type
+   */
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram",
+  ) {}
+
+  /**
+   * Returns the sample lines of the metric.
+   *
+   * @returns {string[]} Lines in the exposition format
+   */
+  abstract renderSamples(): string[];
+
+  /**
+   * Renders the metric with its HELP and TYPE lines.
+   *
+   * @returns {string} Metric in the exposition format
+   */
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples(),
+    ].join("\n");
+  }
+}
+
+/**
+ * Monotonically increasing count, optionally split by labels.
+ *
+ * @class Counter
+ */
+export class Counter extends Metric {
+  /** Samples keyed by their formatted labels */
+  private samples = new Map<string, number>();
+
+  /**
+   * Creates a counter.
+   *
+   * @param {string} name - Metric name, ending in _total
+   * @param {string} help - Description shown by Prometheus
+   */
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  /**
+   * Increments the counter.
+   *
+   * @param {Labels} [labels] - Labels of the series
+   * @param {number} [value] - Amount to add
+   */
+  inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(labels);
+    this.samples.set(key, (this.samples.get(key) ?? 0) + value);
+  }
+
+  renderSamples(): string[] {
+    if (this.samples.size === 0) return [`${this.name} 0`];
+    return Array.from(this.samples).map(
+      ([labels, value]) => `${this.name}${labels} ${formatValue(value)}`,
+    );
+  }
+}
+
+/**
+ * Value that can go up and down. Either set directly or read from a
+ * collector when the metrics are scraped.
+ *
+ * @class Gauge
+ */
+export class Gauge extends Metric {
+  /** Value set directly */
+  private value = 0;
+
+  /** Function returning the samples at scrape time, if any */
+  private collector: (() => Sample[]) | null = null;
+
+  /**
+   * Creates a gauge.
+   *
+   * @param {string} name - Metric name
+   * @param {string} help - Description shown by Prometheus
+   */
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  /**
+   * Sets the value of the gauge.
+   *
+   * @param {number} value - New value
+   */
+  set(value: number) {
+    this.value = value;
+  }
+
+  /**
+   * Reads the samples from a function at scrape time, replacing any value
+   * set directly.
+   *
+   * @param {() => Sample[]} collector - Function returning the current samples
+   */
+  setCollector(collector: () => Sample[]) {
+    this.collector = collector;
+  }
+
+  renderSamples(): string[] {
+    const samples = this.collector
+      ? this.collector()
+      : [{ labels: {}, value: this.value }];
+    return samples.map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+    );
+  }
+}
+
+/**
+ * Distribution of observed values over cumulative buckets.
+ *
+ * @class Histogram
+ */
+export class Histogram extends Metric {
+  /** Observations per bucket, not cumulative */
+  private counts: number[];
+
+  /** Sum of all observed values */
+  private sum = 0;
+
+  /** Number of observations */
+  private count = 0;
+
+  /**
+   * Creates a histogram.
+   *
+   * @param {string} name - Metric name
+   * @param {string} help - Description shown by Prometheus
+   * @param {number[]} buckets - Upper bounds of the buckets, ascending
+   */
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[],
+  ) {
+    super(name, help, "histogram");
+    this.counts = buckets.map(() => 0);
+  }
+
+  /**
+   * Records an observation.
+   *
+   * @param {number} value - Observed value
+   */
+  observe(value: number) {
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) this.counts[index]++;
+    this.sum += value;
+    this.count++;
+  }
+
+  /**
+   * Records the time elapsed since a start time, in seconds.
+   *
+   * @param {number} startedAt - Start time from performance.now()
+   */
+  observeSince(startedAt: number) {
+    this.observe((performance.now() - startedAt) / 1000);
+  }
+
+  renderSamples(): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((bound, i) => {
+      cumulative += this.counts[i];
+      return `${this.name}_bucket{le="${formatValue(bound)}"} ${cumulative}`;
+    });
+    return [
+      ...lines,
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${formatValue(this.sum)}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+/**
+ * Collection of metrics rendered together.
+ *
+ * @class MetricsRegistry
+ */
+export class MetricsRegistry {
+  /** Registered metrics in registration order */
+  private metrics: Metric[] = [];
+
+  /**
+   * Adds a metric to the registry.
+   *
+   * @param {T} metric - Metric to add
+   * @returns {T} The metric
+   * @throws {Error} If a metric with the same name is registered
+   */
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((m) => m.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format.
+   *
+   * @returns {string} Exposition text
+   */
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join("\n") + "\n";
+  }
+}
+
+/** Buckets of latencies, in seconds */
+const LATENCY_BUCKETS = [
+  0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/** Buckets of route counts */
+const ROUTE_COUNT_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+
+/** Registry served on /metrics */
+export const registry = new MetricsRegistry();
+
+/** Detector metrics, updated by the components that observe them */
+export const metrics = {
+  poolEventsReceived: registry.register(
+    new Counter(
+      "detector_pool_events_received_total",
+      "Pool events (Sync, Swap, Mint, Burn) received from subscriptions",
+    ),
+  ),
+  poolEventsDeduped: registry.register(
+    new Counter(
+      "detector_pool_events_deduped_total",
+      "Pool events dropped because they were already received",
+    ),
+  ),
+  eventQueueDepth: registry.register(
+    new Gauge(
+      "detector_event_queue_depth",
+      "Blocks of events waiting in or being processed by the event queue",
+    ),
+  ),
+  eventQueueWait: registry.register(
+    new Histogram(
+      "detector_event_queue_wait_seconds",
+      "Time a block of events waited in the event queue before processing",
+      LATENCY_BUCKETS,
+    ),
+  ),
+  routeRecalculation: registry.register(
+    new Histogram(
+      "detector_route_recalculation_seconds",
+      "Time to recalculate every route affected by a block or rollback",
+      LATENCY_BUCKETS,
+    ),
+  ),
+  routeEvaluation: registry.register(
+    new Histogram(
+      "detector_route_evaluation_seconds",
+      "Time to evaluate a single route",
+      LATENCY_BUCKETS,
+    ),
+  ),
+  routesEvaluated: registry.register(
+    new Histogram(
+      "detector_routes_evaluated",
+      "Routes recalculated per processed block of pool events",
+      ROUTE_COUNT_BUCKETS,
+    ),
+  ),
+  opportunitiesFound: registry.register(
+    new Counter(
+      "detector_opportunities_found_total",
+      "Routes found profitable after gas",
+    ),
+  ),
+  alertsSent: registry.register(
+    new Counter(
+      "detector_alerts_sent_total",
+      "Opportunity alerts delivered, by sink",
+    ),
+  ),
+  alertsFailed: registry.register(
+    new Counter(
+      "detector_alerts_failed_total",
+      "Opportunity alerts that could not be delivered, by sink",
+    ),
+  ),
+  webSocketClients: registry.register(
+    new Gauge(
+      "detector_websocket_clients",
+      "Clients connected to the WebSocket server",
+    ),
+  ),
+  providerReconnects: registry.register(
+    new Counter(
+      "detector_provider_reconnects_total",
+      "Reconnections of event subscriptions scheduled after a provider failure",
+    ),
+  ),
+  secondsSinceLastEvent: registry.register(
+    new Gauge(
+      "detector_subscription_seconds_since_last_event",
+      "Seconds since a subscription batch last received an event, or since it was subscribed",
+    ),
+  ),
+};
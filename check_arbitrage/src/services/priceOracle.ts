@@ -0,0 +1,215 @@
+/**
+ * Token price oracle derived from pool reserves.
+ * Prices every token in ETH and USD from the live state of the pools the
+ * application already tracks, so that profits of routes starting from
+ * different tokens can be compared.
+ *
+ * Features:
+ * - ETH price of a token from its deepest WETH pool
+ * - USD price of ETH from its deepest pool with a USD stablecoin
+ * - Tokens without a WETH pool are priced through a stablecoin pool
+ * - Conversion of raw token amounts to ETH and back
+ *
+ * @class PriceOracle
+ */
+
+import { USD_STABLECOINS, WETH_ADDRESS } from "../config/constants";
+import { DatabaseManager } from "../database/dbManager";
+import { LPInfo } from "../types/interfaces";
+import { getVirtualReserves } from "../utils/uniswapV3";
+
+export class PriceOracle {
+  /** Database manager holding the live pool state */
+  private dbManager: DatabaseManager;
+
+  /** Pool addresses by token pair key, built on first use */
+  private pairPools: Map<string, string[]> | null = null;
+
+  /**
+   * Creates a new PriceOracle instance.
+   *
+   * @param {DatabaseManager} dbManager - Database manager instance
+   */
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Returns the key of a token pair, independent of token order.
+   *
+   * @param {string} tokenA - Token address
+   * @param {string} tokenB - Token address
+   * @private
+   * @returns {string} Pair key
+   */
+  private getPairKey(tokenA: string, tokenB: string): string {
+    const a = tokenA.toLowerCase();
+    const b = tokenB.toLowerCase();
+    return a < b ? `${a}:${b}` : `${b}:${a}`;
+  }
+
+  /**
+   * Returns the pools trading a token pair. The index is built from the
+   * pool list once; pool states are always read from the live map.
+   *
+   * @param {string} tokenA - Token address
+   * @param {string} tokenB - Token address
+   * @private
+   * @returns {string[]} Pool addresses
+   */
+  private getPairPools(tokenA: string, tokenB: string): string[] {
+    if (!this.pairPools) {
+      this.pairPools = new Map();
+      this.dbManager.getLPMap().forEach((pool, address) => {
+        const key = this.getPairKey(pool.token1_address, pool.token2_address);
+        if (!this.pairPools!.has(key)) {
+          this.pairPools!.set(key, []);
+        }
+        this.pairPools!.get(key)!.push(address);
+      });
+    }
+    return this.pairPools.get(this.getPairKey(tokenA, tokenB)) ?? [];
+  }
+
+  /**
+   * Returns the current reserves of a pool in token1_address /
+   * token2_address order. V3 pools use their virtual reserves.
+   *
+   * @param {LPInfo} pool - Pool to read
+   * @private
+   * @returns {{ reserve0: bigint; reserve1: bigint }} Reserves
+   */
+  private getReserves(pool: LPInfo): { reserve0: bigint; reserve1: bigint } {
+    return pool.pool_type === "v3" && pool.v3
+      ? getVirtualReserves(pool.v3)
+      : { reserve0: pool.reserve1, reserve1: pool.reserve2 };
+  }
+
+  /**
+   * Returns the price of a token in units of a quote token, from the pool of
+   * the pair holding the most quote tokens.
+   *
+   * @param {string} token - Lowercase address of the token to price
+   * @param {string} quote - Lowercase address of the token the price is expressed in
+   * @private
+   * @returns {{ price: number; depth: number } | null} Quote tokens per whole token and quote reserve of the pool used, null if no pool has reserves
+   */
+  private getPairPrice(
+    token: string,
+    quote: string,
+  ): { price: number; depth: number } | null {
+    const tokenMap = this.dbManager.getTokenMap();
+    const lpMap = this.dbManager.getLPMap();
+    const tokenInfo = tokenMap.get(token);
+    const quoteInfo = tokenMap.get(quote);
+    if (!tokenInfo || !quoteInfo) return null;
+
+    let deepestQuoteReserve = 0n;
+    let best: { price: number; depth: number } | null = null;
+    for (const address of this.getPairPools(token, quote)) {
+      const pool = lpMap.get(address);
+      if (!pool) continue;
+
+      const { reserve0, reserve1 } = this.getReserves(pool);
+      const tokenIsFirst = pool.token1_address.toLowerCase() === token;
+      const tokenReserve = tokenIsFirst ? reserve0 : reserve1;
+      const quoteReserve = tokenIsFirst ? reserve1 : reserve0;
+      if (tokenReserve === 0n || quoteReserve <= deepestQuoteReserve) continue;
+
+      deepestQuoteReserve = quoteReserve;
+      const depth = Number(quoteReserve) / 10 ** quoteInfo.decimals;
+      best = {
+        price: depth / (Number(tokenReserve) / 10 ** tokenInfo.decimals),
+        depth,
+      };
+    }
+    return best;
+  }
+
+  /**
+   * Returns the price of ETH in USD from the deepest pool between WETH and
+   * one of the USD_STABLECOINS, each valued at one dollar.
+   *
+   * @returns {number | null} USD per ETH, null if no stablecoin pool has reserves
+   */
+  getEthUsdPrice(): number | null {
+    let deepest: { price: number; depth: number } | null = null;
+    for (const stablecoin of USD_STABLECOINS) {
+      const quote = this.getPairPrice(WETH_ADDRESS, stablecoin);
+      if (quote && (!deepest || quote.depth > deepest.depth)) {
+        deepest = quote;
+      }
+    }
+    return deepest ? deepest.price : null;
+  }
+
+  /**
+   * Returns the price of a token in ETH. WETH is worth one ETH; other tokens
+   * are priced from their deepest WETH pool, or through their deepest
+   * stablecoin pool and the ETH/USD price if they have no WETH pool.
+   *
+   * @param {string} token - Token address
+   * @returns {number | null} ETH per whole token, null if the token cannot be priced
+   */
+  getEthPrice(token: string): number | null {
+    const address = token.toLowerCase();
+    if (address === WETH_ADDRESS) return 1;
+
+    const direct = this.getPairPrice(address, WETH_ADDRESS);
+    if (direct) return direct.price;
+
+    const ethUsd = this.getEthUsdPrice();
+    if (ethUsd === null) return null;
+    if (USD_STABLECOINS.includes(address)) return 1 / ethUsd;
+
+    let deepest: { price: number; depth: number } | null = null;
+    for (const stablecoin of USD_STABLECOINS) {
+      const quote = this.getPairPrice(address, stablecoin);
+      if (quote && (!deepest || quote.depth > deepest.depth)) {
+        deepest = quote;
+      }
+    }
+    return deepest ? deepest.price / ethUsd : null;
+  }
+
+  /**
+   * Converts a raw token amount to ETH.
+   *
+   * @param {string} token - Token address
+   * @param {bigint} amount - Amount in the token's smallest unit
+   * @returns {number | null} Value in ETH, null if the token cannot be priced
+   */
+  toEth(token: string, amount: bigint): number | null {
+    const price = this.getEthPrice(token);
+    const tokenInfo = this.dbManager.getTokenMap().get(token.toLowerCase());
+    if (price === null || !tokenInfo) return null;
+    return (Number(amount) / 10 ** tokenInfo.decimals) * price;
+  }
+
+  /**
+   * Converts an ETH value to a raw token amount.
+   *
+   * @param {string} token - Token address
+   * @param {number} value - Value in ETH
+   * @returns {bigint | null} Amount in the token's smallest unit, null if the token cannot be priced
+   */
+  fromEth(token: string, value: number): bigint | null {
+    const price = this.getEthPrice(token);
+    const tokenInfo = this.dbManager.getTokenMap().get(token.toLowerCase());
+    if (price === null || price === 0 || !tokenInfo) return null;
+    // A dust price makes the amount overflow to Infinity
+    const amount = (value / price) * 10 ** tokenInfo.decimals;
+    return Number.isFinite(amount) ? BigInt(Math.round(amount)) : null;
+  }
+
+  /**
+   * Converts an ETH value to USD.
+   *
+   * @param {number} value - Value in ETH
+   * @returns {number | null} Value in USD, null if ETH cannot be priced
+   */
+  ethToUsd(value: number): number | null {
+    const ethUsd = this.getEthUsdPrice();
+    return ethUsd === null ? null : value * ethUsd;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Historical replay of recorded Sync logs.
+ * Feeds a recorded log file through the same EventSubscriber and
+ * ArbitrageCalculator pipeline used live, without any RPC connection,
+ * and reports the opportunities detected in every block.
+ *
+ * Features:
+ * - Initial reserve snapshot loading
+ * - Streaming, strictly ordered log replay
+ * - Deterministic per-block opportunity reports
+ *
+ * @class ReplayRunner
+ */
+
+import fs from "fs";
+import readline from "readline";
+import { ethers } from "ethers";
+import { DatabaseManager } from "../database/dbManager";
+import { ArbitrageCalculator } from "./arbitrageCalculator";
+import { EventSubscriber, PoolLog } from "./eventSubscriber";
+import { EVENT_NAME, UNISWAP_V2_POOL_ABI } from "../config/constants";
+import {
+  ArbitrageUpdate,
+  BlockOpportunities,
+  RecordedSyncLog,
+  ReserveSnapshot,
+} from "../types/interfaces";
+
+/** Topic of the V2 Sync event, recorded logs carry only its data */
+const SYNC_TOPIC = new ethers.Interface(UNISWAP_V2_POOL_ABI).getEvent("Sync")!
+  .topicHash;
+
+export class ReplayRunner {
+  /** Database manager holding pools and routes */
+  private dbManager: DatabaseManager;
+
+  /** Calculator the replayed logs are evaluated with */
+  private arbitrageCalculator: ArbitrageCalculator;
+
+  /** Subscriber whose event handlers process the replayed logs */
+  private eventSubscriber: EventSubscriber;
+
+  /**
+   * Creates a new ReplayRunner instance.
+   *
+   * @param {DatabaseManager} dbManager - Database manager instance
+   * @param {ArbitrageCalculator} arbitrageCalculator - Calculator instance
+   * @param {EventSubscriber} eventSubscriber - Subscriber whose handlers are replayed through
+   */
+  constructor(
+    dbManager: DatabaseManager,
+    arbitrageCalculator: ArbitrageCalculator,
+    eventSubscriber: EventSubscriber,
+  ) {
+    this.dbManager = dbManager;
+    this.arbitrageCalculator = arbitrageCalculator;
+    this.eventSubscriber = eventSubscriber;
+  }
+
+  /**
+   * Loads initial pool reserves from a JSON snapshot file.
+   * Pools that are not tracked in the database are ignored.
+   *
+   * @param {string} filePath - Path of the snapshot file
+   * @returns {number} Number of pools whose reserves were set
+   */
+  loadReserveSnapshot(filePath: string): number {
+    const snapshot = JSON.parse(
+      fs.readFileSync(filePath, "utf-8"),
+    ) as ReserveSnapshot;
+    const lpMap = this.dbManager.getLPMap();
+    let loaded = 0;
+
+    Object.entries(snapshot).forEach(([address, { reserve0, reserve1 }]) => {
+      const lpInfo = lpMap.get(address.toLowerCase());
+      if (lpInfo) {
+        lpInfo.reserve1 = BigInt(reserve0);
+        lpInfo.reserve2 = BigInt(reserve1);
+        loaded++;
+      }
+    });
+    return loaded;
+  }
+
+  /**
+   * Replays a JSONL file of recorded Sync logs.
+   * Logs must be ordered by block number and log index. The logs of each
+   * block are applied together, exactly like live blocks, and every block is
+   * fully processed before the next one so results do not depend on timing.
+   *
+   * @param {string} filePath - Path of the recorded log file
+   * @param {(result: BlockOpportunities) => void} onBlock - Called once per replayed block
+   * @async
+   * @returns {Promise<number>} Number of logs replayed
+   * @throws {Error} If a line is malformed or out of order
+   */
+  async run(
+    filePath: string,
+    onBlock: (result: BlockOpportunities) => void,
+  ): Promise<number> {
+    let current: BlockOpportunities | null = null;
+    let blockLogs: PoolLog[] = [];
+    let lastPosition: [number, number] | null = null;
+    let logCount = 0;
+
+    // Collect updates profitable after gas for the block being replayed
+    const listener = (update: ArbitrageUpdate) => {
+      if (current && update.maxProfit > 0 && update.netProfit > 0) {
+        current.opportunities.push(update);
+      }
+    };
+    this.arbitrageCalculator.on(EVENT_NAME, listener);
+
+    // Apply a complete block at once, as the live subscriber does
+    const replayBlock = async () => {
+      if (!current) return;
+      await this.eventSubscriber.handleBlock(blockLogs);
+      logCount += blockLogs.length;
+      onBlock(current);
+      current = null;
+      blockLogs = [];
+    };
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(filePath),
+      crlfDelay: Infinity,
+    });
+
+    try {
+      let lineNumber = 0;
+      for await (const line of lines) {
+        lineNumber++;
+        if (!line.trim()) continue;
+
+        const recorded = this.parseRecordedLog(line, lineNumber);
+        const position: [number, number] = [
+          recorded.blockNumber,
+          recorded.logIndex,
+        ];
+        if (
+          lastPosition &&
+          (position[0] < lastPosition[0] ||
+            (position[0] === lastPosition[0] && position[1] <= lastPosition[1]))
+        ) {
+          throw new Error(
+            `Line ${lineNumber}: log ${position.join(":")} is not after ${lastPosition.join(":")}`,
+          );
+        }
+        lastPosition = position;
+
+        // Replay the previous block once a new one starts
+        if (current && current.blockNumber !== recorded.blockNumber) {
+          await replayBlock();
+        }
+        if (!current) {
+          current = {
+            blockNumber: recorded.blockNumber,
+            logCount: 0,
+            opportunities: [],
+          };
+        }
+
+        current.logCount++;
+        blockLogs.push(this.toPoolLog(recorded));
+      }
+
+      await replayBlock();
+    } finally {
+      this.arbitrageCalculator.off(EVENT_NAME, listener);
+      lines.close();
+    }
+    return logCount;
+  }
+
+  /**
+   * Parses and validates one line of a recorded log file.
+   *
+   * @param {string} line - Raw JSON line
+   * @param {number} lineNumber - Line number for error messages
+   * @private
+   * @returns {RecordedSyncLog} Parsed log
+   * @throws {Error} If the line is not a valid recorded log
+   */
+  private parseRecordedLog(line: string, lineNumber: number): RecordedSyncLog {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${lineNumber}: invalid JSON`);
+    }
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error(`Line ${lineNumber}: expected a JSON object`);
+    }
+
+    const value = parsed as Partial<Record<keyof RecordedSyncLog, unknown>>;
+    if (
+      !Number.isInteger(value.blockNumber) ||
+      !Number.isInteger(value.logIndex) ||
+      typeof value.transactionHash !== "string" ||
+      !ethers.isAddress(value.address) ||
+      !ethers.isHexString(value.data)
+    ) {
+      throw new Error(
+        `Line ${lineNumber}: expected blockNumber, logIndex, transactionHash, address and data`,
+      );
+    }
+    return value as RecordedSyncLog;
+  }
+
+  /**
+   * Converts a recorded log into the log shape the event handlers expect.
+   *
+   * @param {RecordedSyncLog} recorded - Recorded log
+   * @private
+   * @returns {PoolLog} Log with the Sync topic restored
+   */
+  private toPoolLog(recorded: RecordedSyncLog): PoolLog {
+    return {
+      address: recorded.address,
+      data: recorded.data,
+      topics: [SYNC_TOPIC],
+      transactionHash: recorded.transactionHash,
+      blockNumber: recorded.blockNumber,
+      index: recorded.logIndex,
+    };
+  }
+}
@@ -1,127 +1,166 @@
-import WebSocket from "ws";
+import { ethers } from "ethers";
+import {
+  EndpointPool,
+  EndpointStatus,
+} from "../../../shared/rpc/endpointPool";
 
 /**
  * Configuration options for WebSocketPool.
  */
 interface WebSocketPoolOptions {
-  /** Maximum number of connections allowed per endpoint */
+  /** Maximum number of connections allowed per WebSocket endpoint */
   maxConnections: number;
-  /** Array of WebSocket endpoints to connect to */
+  /** Array of HTTP and WebSocket RPC endpoints to connect to */
   endpoints: string[];
 }
 
 /**
- * Manages a pool of WebSocket connections across multiple endpoints.
- * Implements connection pooling and load balancing across endpoints.
+ * Manages RPC connections across multiple endpoints.
+ * WebSocket providers are opened on the healthiest endpoint with spare
+ * capacity; HTTP requests fail over between endpoints. Endpoint health,
+ * latency and backoff are tracked by the shared EndpointPool.
  */
 class WebSocketPool {
-  private pool: Map<string, WebSocket[]> = new Map();
+  private endpointPool: EndpointPool;
   private maxConnections: number;
-  private endpoints: string[];
-  private endpointIndex: number = 0;
+  private connections: Map<string, Set<ethers.WebSocketProvider>> = new Map();
+  private httpProviders: Map<string, ethers.JsonRpcProvider> = new Map();
 
   /**
    * Creates a new WebSocketPool instance.
    *
    * @param {WebSocketPoolOptions} options - Configuration options for the pool
+   * @throws {Error} If no endpoint is given or a URL is not supported
    */
   constructor(options: WebSocketPoolOptions) {
     this.maxConnections = options.maxConnections;
-    this.endpoints = options.endpoints;
-
-    // Initialize a pool for each endpoint
-    this.endpoints.forEach((endpoint) => {
-      this.pool.set(endpoint, []);
-    });
+    this.endpointPool = new EndpointPool({ endpoints: options.endpoints });
   }
 
   /**
-   * Gets the next endpoint in a round-robin fashion.
+   * Opens a WebSocket provider on the best endpoint with spare capacity.
    *
-   * @private
-   * @returns {string} The next endpoint to use
+   * @returns {{ provider: ethers.WebSocketProvider; endpoint: string }} The provider and its endpoint
+   * @throws {Error} If every WebSocket endpoint is at capacity
    */
-  private getNextEndpoint(): string {
-    const endpoint = this.endpoints[this.endpointIndex];
-    this.endpointIndex = (this.endpointIndex + 1) % this.endpoints.length;
-    return endpoint;
+  public getConnection(): {
+    provider: ethers.WebSocketProvider;
+    endpoint: string;
+  } {
+    const endpoint = this.endpointPool
+      .getCandidates("ws")
+      .find(
+        (url) => (this.connections.get(url)?.size ?? 0) < this.maxConnections,
+      );
+    if (!endpoint) {
+      throw new Error("WebSocket pool exhausted for all endpoints");
+    }
+
+    const provider = new ethers.WebSocketProvider(endpoint, "mainnet");
+    if (!this.connections.has(endpoint)) {
+      this.connections.set(endpoint, new Set());
+    }
+    this.connections.get(endpoint)!.add(provider);
+    return { provider, endpoint };
   }
 
   /**
-   * Creates a new WebSocket connection to the specified endpoint.
-   * Sets up event handlers for connection lifecycle events.
+   * Closes a WebSocket provider and frees its slot.
    *
-   * @param {string} endpoint - The WebSocket endpoint to connect to
-   * @private
-   * @returns {WebSocket} The newly created WebSocket connection
+   * @param {ethers.WebSocketProvider} provider - The provider to release
+   * @param {string} endpoint - The endpoint the provider belongs to
    */
-  private createConnection(endpoint: string): WebSocket {
-    const ws = new WebSocket(endpoint);
-
-    ws.on("open", () => {
-      console.log(`WebSocket connection established to ${endpoint}`);
-    });
-
-    ws.on("close", () => {
-      console.log(`WebSocket connection closed for ${endpoint}`);
-    });
-
-    ws.on("error", (err) => {
-      console.error(`WebSocket error for ${endpoint}:`, err);
-    });
+  public releaseConnection(
+    provider: ethers.WebSocketProvider,
+    endpoint: string,
+  ): void {
+    this.connections.get(endpoint)?.delete(provider);
+    provider.removeAllListeners();
+    provider.destroy();
+  }
 
-    return ws;
+  /**
+   * Records a successful round trip to an endpoint.
+   *
+   * @param {string} endpoint - Endpoint URL
+   * @param {number} latencyMs - Round trip time in milliseconds
+   */
+  public reportSuccess(endpoint: string, latencyMs: number): void {
+    this.endpointPool.reportSuccess(endpoint, latencyMs);
   }
 
   /**
-   * Gets a WebSocket connection from the pool.
-   * Creates a new connection if none are available and pool isn't full.
+   * Records a failed connection and puts the endpoint in backoff.
    *
-   * @returns {WebSocket} A WebSocket connection
-   * @throws {Error} If the pool is exhausted for the selected endpoint
+   * @param {string} endpoint - Endpoint URL
+   * @returns {number} Backoff in milliseconds before the endpoint is used again
    */
-  public getConnection(): WebSocket {
-    const endpoint = this.getNextEndpoint();
-    const pool = this.pool.get(endpoint) || [];
+  public reportFailure(endpoint: string): number {
+    return this.endpointPool.reportFailure(endpoint);
+  }
 
-    if (pool.length > 0) {
-      return pool.pop()!;
-    }
+  /**
+   * Tells whether any WebSocket endpoint is configured.
+   *
+   * @returns {boolean} True if subscriptions can be opened
+   */
+  public hasWebSocketEndpoints(): boolean {
+    return this.endpointPool.getCandidates("ws").length > 0;
+  }
 
-    if (pool.length < this.maxConnections) {
-      const ws = this.createConnection(endpoint);
-      return ws;
-    }
+  /**
+   * Returns the time until a WebSocket endpoint can be used again.
+   *
+   * @returns {number} Delay in milliseconds, 0 if an endpoint is available
+   */
+  public getRetryDelay(): number {
+    return this.endpointPool.getRetryDelay("ws");
+  }
 
-    throw new Error(`WebSocket pool exhausted for endpoint: ${endpoint}`);
+  /**
+   * Runs a request with an HTTP provider, failing over to the next healthy
+   * endpoint if it throws.
+   *
+   * @param {(provider: ethers.JsonRpcProvider) => Promise<T>} request - Request to run
+   * @returns {Promise<T>} Result of the first successful attempt
+   * @throws {Error} The last error if every HTTP endpoint failed
+   */
+  public call<T>(
+    request: (provider: ethers.JsonRpcProvider) => Promise<T>,
+  ): Promise<T> {
+    return this.endpointPool.execute("http", (url) => {
+      if (!this.httpProviders.has(url)) {
+        this.httpProviders.set(
+          url,
+          new ethers.JsonRpcProvider(url, "mainnet", { staticNetwork: true }),
+        );
+      }
+      return request(this.httpProviders.get(url)!);
+    });
   }
 
   /**
-   * Returns a WebSocket connection to the pool.
-   * Closes the connection if the pool is full.
+   * Returns the health of every endpoint.
    *
-   * @param {WebSocket} ws - The WebSocket connection to release
-   * @param {string} endpoint - The endpoint the connection belongs to
+   * @returns {EndpointStatus[]} Endpoint statuses
    */
-  public releaseConnection(ws: WebSocket, endpoint: string): void {
-    const pool = this.pool.get(endpoint) || [];
-    if (pool.length < this.maxConnections) {
-      pool.push(ws);
-      this.pool.set(endpoint, pool);
-    } else {
-      ws.close();
-    }
+  public getStatus(): EndpointStatus[] {
+    return this.endpointPool.getStatus();
   }
 
   /**
-   * Closes all WebSocket connections in the pool.
+   * Closes all WebSocket and HTTP providers in the pool.
    * Clears the pool after closing connections.
    */
   public closeAll(): void {
-    this.pool.forEach((pool, endpoint) => {
-      pool.forEach((ws) => ws.close());
+    this.connections.forEach((providers, endpoint) => {
+      providers.forEach((provider) =>
+        this.releaseConnection(provider, endpoint),
+      );
     });
-    this.pool.clear();
+    this.connections.clear();
+    this.httpProviders.forEach((provider) => provider.destroy());
+    this.httpProviders.clear();
   }
 }
 
@@ -6,49 +6,120 @@
  * @module interfaces
  */
 
+import { LPInfoRow, PoolType, TokenInfoRow } from "../../../shared/db/schema";
+
+export type { PoolType } from "../../../shared/db/schema";
+
 /**
  * Represents information about a token in the system.
- * Used for storing and retrieving token metadata.
- * 
- * @interface TokenInfo
+ * Used for storing and retrieving token metadata. Rows of the TokenInfo
+ * table of the shared schema.
+ *
+ * @typedef {TokenInfoRow} TokenInfo
  */
-export interface TokenInfo {
-  /** Blockchain address of the token */
-  address: string;
-  
-  /** Token symbol (e.g., "ETH", "USDC") */
-  symbol: string;
-  
-  /** Full name of the token */
-  name: string;
-  
-  /** Number of decimal places the token supports */
-  decimals: number;
+export type TokenInfo = TokenInfoRow;
+
+/**
+ * Liquidity referenced by an initialized tick of a V3 pool.
+ *
+ * @interface V3TickInfo
+ */
+export interface V3TickInfo {
+  /** Total liquidity of all positions using the tick as a boundary */
+  liquidityGross: bigint;
+
+  /** Liquidity added to the active range when the tick is crossed left to right */
+  liquidityNet: bigint;
+}
+
+/**
+ * Live state of a Uniswap V3 pool, kept up to date from Swap, Mint and Burn events.
+ *
+ * @interface V3PoolState
+ */
+export interface V3PoolState {
+  /** Current Q64.96 square root price */
+  sqrtPriceX96: bigint;
+
+  /** Current tick */
+  tick: number;
+
+  /** Liquidity active in the current tick range */
+  liquidity: bigint;
+
+  /** Initialized ticks that are known, keyed by tick index */
+  ticks: Map<number, V3TickInfo>;
+
+  /** Keys of `ticks` in ascending order, for fast next-tick lookups */
+  tickIndices: number[];
+
+  /** Lowest tick covered by the loaded tick bitmap words; ticks below are unknown */
+  minTick: number;
+
+  /** Highest tick covered by the loaded tick bitmap words; ticks above are unknown */
+  maxTick: number;
 }
 
 /**
  * Represents information about a liquidity pool.
- * Contains pool address, token pairs, and current reserves.
+ * Extends the LPInfo row of the shared schema with the current reserves.
  * 
  * @interface LPInfo
  */
-export interface LPInfo {
-  /** Blockchain address of the liquidity pool */
-  address: string;
-  
-  /** Address of the first token in the pool */
-  token1_address: string;
-  
-  /** Address of the second token in the pool */
-  token2_address: string;
-  
+export interface LPInfo extends LPInfoRow {
   /** Current reserve amount of the first token */
   reserve1: bigint;
   
   /** Current reserve amount of the second token */
   reserve2: bigint;
+
+  /** Concentrated-liquidity state, present for V3 pools once loaded */
+  v3?: V3PoolState;
 }
 
+/**
+ * State change of a V3 pool decoded from a Swap, Mint or Burn event.
+ *
+ * @typedef {Object} V3PoolEvent
+ */
+export type V3PoolEvent =
+  | {
+      /** Swap: price, tick and active liquidity are reported directly */
+      type: "swap";
+      sqrtPriceX96: bigint;
+      liquidity: bigint;
+      tick: number;
+    }
+  | {
+      /** Mint or Burn: liquidity added to or removed from a tick range */
+      type: "mint" | "burn";
+      tickLower: number;
+      tickUpper: number;
+      amount: bigint;
+    };
+
+/**
+ * A decoded pool event, ready to be applied to the pool state.
+ *
+ * @typedef {Object} PoolUpdate
+ */
+export type PoolUpdate =
+  | {
+      /** V2 Sync: new reserves of token0 and token1 */
+      type: "reserves";
+      pool: string;
+      reserve0: bigint;
+      reserve1: bigint;
+      context?: EventContext;
+    }
+  | {
+      /** V3 Swap, Mint or Burn */
+      type: "v3";
+      pool: string;
+      event: V3PoolEvent;
+      context?: EventContext;
+    };
+
 /**
  * Represents a single step in a trading route.
  * Defines the target token and the liquidity pool to use.
@@ -84,3 +155,576 @@ export interface RouteInfo {
  * @typedef {string[]} PathIdArray
  */
 export type PathIdArray = string[];
+
+/**
+ * A single hop of a route resolved against the current pool state.
+ * Oriented in the direction of the trade.
+ *
+ * @interface RouteHop
+ */
+export interface RouteHop {
+  /** Liquidity pool used for this hop */
+  pool: LPInfo;
+
+  /** Whether the hop buys the pool's first token (token1_address) */
+  isToken1Target: boolean;
+
+  /** Swap fee applied by the pool, in hundredths of a bip */
+  fee: number;
+
+  /** Address of the token sold into the pool */
+  tokenIn: string;
+
+  /** Address of the token bought from the pool */
+  tokenOut: string;
+
+  /** Pool reserve of the token sold (virtual reserve for V3 pools) */
+  reserveIn: bigint;
+
+  /** Pool reserve of the token bought (virtual reserve for V3 pools) */
+  reserveOut: bigint;
+
+  /** Symbol of the token sold ("UNKNOWN" if not in the token table) */
+  symbolIn: string;
+
+  /** Symbol of the token bought ("UNKNOWN" if not in the token table) */
+  symbolOut: string;
+
+  /** Decimals of the token sold */
+  decimalsIn: number;
+
+  /** Decimals of the token bought */
+  decimalsOut: number;
+}
+
+/**
+ * On-chain origin of a pool update: the log that triggered a recalculation.
+ *
+ * @interface EventContext
+ */
+export interface EventContext {
+  /** Block the log was included in */
+  blockNumber: number;
+
+  /** Hash of the transaction that emitted the log */
+  transactionHash: string;
+
+  /** Position of the log within the block */
+  logIndex: number;
+}
+
+/**
+ * Estimated gas cost of executing a route.
+ *
+ * @interface GasEstimate
+ */
+export interface GasEstimate {
+  /** Estimated gas units used by the route */
+  gasUnits: number;
+
+  /** Gas price in wei */
+  gasPrice: bigint;
+
+  /** Total cost in wei (gasUnits * gasPrice) */
+  gasCost: bigint;
+}
+
+/**
+ * Payload of the arbitrage rate update event broadcast for every
+ * recalculated route.
+ *
+ * @interface ArbitrageUpdate
+ */
+export interface ArbitrageUpdate {
+  /** Unique identifier for the arbitrage path */
+  pathId: string;
+
+  /** Human-readable path description (e.g. "WETH -> USDC -> WETH") */
+  pathDescription: string;
+
+  /** Address of the token the route starts and ends with */
+  baseToken: string;
+
+  /** Symbol of the start token */
+  baseSymbol: string;
+
+  /** Profit in ETH when trading the reference START_AMOUNT */
+  rate: number;
+
+  /** Input amount in start tokens that maximises profit (0 if never profitable) */
+  optimalAmountIn: number;
+
+  /** Profit in start tokens at the optimal input amount */
+  maxProfitBase: number;
+
+  /** Profit in ETH at the optimal input amount */
+  maxProfit: number;
+
+  /** Estimated gas cost in ETH of executing the route */
+  gasCost: number;
+
+  /** Profit in ETH at the optimal input amount after gas costs */
+  netProfit: number;
+
+  /** Net profit in USD, null if ETH cannot be priced in USD */
+  netProfitUsd: number | null;
+
+  /** Block of the pool update that triggered the recalculation, if known */
+  blockNumber?: number;
+
+  /** Transaction of the pool update that triggered the recalculation, if known */
+  transactionHash?: string;
+
+  /** Pool whose update triggered the recalculation */
+  triggerPool?: string;
+
+  /** Token addresses along the route, starting and ending with the start token */
+  tokens: string[];
+
+  /** Pool addresses used by the route, in trade order */
+  pools: string[];
+}
+
+/**
+ * Alert raised when a route becomes profitable, as delivered to the alert
+ * sinks: the route update that triggered it and the time it was raised.
+ *
+ * @interface Alert
+ */
+export interface Alert extends ArbitrageUpdate {
+  /** Time the alert was raised, in milliseconds since the Unix epoch */
+  alertedAt: number;
+}
+
+/**
+ * Notification that blocks were rolled back after a chain reorganization.
+ * Updates and opportunities reported for these blocks are no longer valid.
+ *
+ * @interface ReorgNotice
+ */
+export interface ReorgNotice {
+  /** First block that was rolled back */
+  fromBlock: number;
+
+  /** Rolled back blocks, most recently applied first */
+  orphanedBlocks: { blockNumber: number; blockHash: string | null }[];
+
+  /** Routes whose latest update came from a rolled back block */
+  invalidatedPathIds: string[];
+}
+
+/**
+ * A recorded Sync log, one per line of a replay file.
+ *
+ * @interface RecordedSyncLog
+ */
+export interface RecordedSyncLog {
+  /** Block the log was included in */
+  blockNumber: number;
+
+  /** Position of the log within the block */
+  logIndex: number;
+
+  /** Hash of the transaction that emitted the log */
+  transactionHash: string;
+
+  /** Address of the pool that emitted the log */
+  address: string;
+
+  /** ABI-encoded Sync event data (reserve0, reserve1) */
+  data: string;
+}
+
+/**
+ * Initial pool reserves for a replay, keyed by pool address.
+ * Reserves are decimal strings so they survive JSON round trips.
+ *
+ * @typedef {Object} ReserveSnapshot
+ */
+export type ReserveSnapshot = Record<
+  string,
+  { reserve0: string; reserve1: string }
+>;
+
+/**
+ * Opportunities detected while replaying a single block.
+ *
+ * @interface BlockOpportunities
+ */
+export interface BlockOpportunities {
+  /** Replayed block */
+  blockNumber: number;
+
+  /** Number of Sync logs replayed in the block */
+  logCount: number;
+
+  /** Profitable route updates, in detection order */
+  opportunities: ArbitrageUpdate[];
+}
+
+/**
+ * Call of a Uniswap V2 pair's `swap(amount0Out, amount1Out, to, data)` in an
+ * execution plan. Amounts are decimal strings in the smallest unit of each
+ * token.
+ *
+ * @interface PlannedSwap
+ */
+export interface PlannedSwap {
+  /** Pair called */
+  pair: string;
+
+  /** Token sent to the pair before the call */
+  tokenIn: string;
+
+  /** Token the pair sends out */
+  tokenOut: string;
+
+  /** Amount of tokenIn the pair received */
+  amountIn: string;
+
+  /** Amount of the pair's token0 sent out */
+  amount0Out: string;
+
+  /** Amount of the pair's token1 sent out */
+  amount1Out: string;
+
+  /** Recipient of the output: the next pair, or the executor after the last hop */
+  to: string;
+
+  /** Callback data, empty so the pair does not call back */
+  data: string;
+
+  /** Encoded call of swap */
+  calldata: string;
+}
+
+/**
+ * Call performed by the executor contract.
+ *
+ * @interface ExecutorCall
+ */
+export interface ExecutorCall {
+  /** Contract called */
+  target: string;
+
+  /** Encoded call */
+  data: string;
+}
+
+/**
+ * Executable plan of a route: the executor transfers the input amount to
+ * the first pair, then every pair swaps with the exact amount out of its
+ * hop and sends it on to the next pair. Amounts are decimal strings in the
+ * smallest unit of each token.
+ *
+ * @interface ExecutionPlan
+ */
+export interface ExecutionPlan {
+  /** Executor contract the calldata is encoded for */
+  executor: string;
+
+  /** Token the route starts and ends with, in which profit is measured */
+  profitToken: string;
+
+  /** Amount sent to the first pair */
+  amountIn: string;
+
+  /** Amount the last pair sends to the executor */
+  amountOut: string;
+
+  /** Expected growth of the executor's profitToken balance */
+  profit: string;
+
+  /** Growth below which the execution reverts */
+  minProfit: string;
+
+  /** Swaps in trade order */
+  swaps: PlannedSwap[];
+
+  /** Calls of the executor: the transfer to the first pair, then every swap */
+  calls: ExecutorCall[];
+
+  /** Encoded call of the executor's execute function */
+  calldata: string;
+}
+
+/**
+ * Amounts traded through one hop of a detected opportunity.
+ * Amounts are decimal strings in the smallest unit of each token.
+ *
+ * @interface OpportunityHop
+ */
+export interface OpportunityHop {
+  /** Pool used for the hop */
+  pool: string;
+
+  /** Address of the token sold into the pool */
+  tokenIn: string;
+
+  /** Address of the token bought from the pool */
+  tokenOut: string;
+
+  /** Amount sold into the pool */
+  amountIn: string;
+
+  /** Amount bought from the pool */
+  amountOut: string;
+}
+
+/**
+ * A profitable route detected at its optimal input amount, as persisted
+ * in the Opportunity table.
+ *
+ * @interface Opportunity
+ */
+export interface Opportunity {
+  /** Row identifier, set once stored */
+  id?: number;
+
+  /** Identifier of the route */
+  pathId: string;
+
+  /** Human-readable path description */
+  pathDescription: string;
+
+  /** Block of the pool update that triggered the detection, if known */
+  blockNumber: number | null;
+
+  /** Transaction of the pool update that triggered the detection, if known */
+  transactionHash: string | null;
+
+  /** Pool whose update triggered the detection */
+  triggerPool: string;
+
+  /** Amounts traded through every hop, in trade order */
+  hops: OpportunityHop[];
+
+  /** Address of the token the route starts and ends with */
+  baseToken: string;
+
+  /** Gross profit in the start token's smallest unit at the optimal input amount */
+  grossProfit: string;
+
+  /** Gross profit in ETH */
+  grossProfitEth: number;
+
+  /** Profit in ETH after the estimated gas cost */
+  netProfitEth: number;
+
+  /** Profit in USD after the estimated gas cost, null if ETH cannot be priced in USD */
+  netProfitUsd: number | null;
+
+  /** Detection time in milliseconds since the Unix epoch */
+  timestamp: number;
+
+  /** Execution plan at the optimal input, null if no executor is configured or the route has V3 hops */
+  plan: ExecutionPlan | null;
+
+  /** Whether the triggering block was rolled back by a chain reorganization */
+  invalidated?: boolean;
+}
+
+/**
+ * Criteria for reading stored opportunities back.
+ *
+ * @interface OpportunityQuery
+ */
+export interface OpportunityQuery {
+  /** Earliest detection time in milliseconds, inclusive */
+  from?: number;
+
+  /** Latest detection time in milliseconds, inclusive */
+  to?: number;
+
+  /** Only return opportunities on this route */
+  pathId?: string;
+
+  /** Minimum gross profit in ETH */
+  minProfit?: number;
+
+  /** Also return opportunities from rolled back blocks */
+  includeInvalidated?: boolean;
+
+  /** Maximum number of rows to return */
+  limit?: number;
+
+  /** Number of matching rows to skip */
+  offset?: number;
+}
+
+/**
+ * Liquidity of one hop of a route in a depth analysis. Reserves are decimal
+ * strings in the smallest unit of each token.
+ *
+ * @interface HopDepth
+ */
+export interface HopDepth {
+  /** Pool of the hop */
+  pool: string;
+
+  /** Pool type, decides which swap math applies */
+  poolType: PoolType;
+
+  /** Swap fee in hundredths of a bip */
+  fee: number;
+
+  /** Symbol of the token sold */
+  symbolIn: string;
+
+  /** Symbol of the token bought */
+  symbolOut: string;
+
+  /** Reserve of the token sold (virtual reserve for V3 pools) */
+  reserveIn: string;
+
+  /** Reserve of the token bought (virtual reserve for V3 pools) */
+  reserveOut: string;
+
+  /** Price impact of the hop at the reference input, null if the pool has no price */
+  priceImpact: number | null;
+}
+
+/**
+ * Quote of a route at one input size of a depth analysis. Amounts are
+ * decimal strings in the smallest unit of the start token.
+ *
+ * @interface DepthPoint
+ */
+export interface DepthPoint {
+  /** Input size as a multiple of the reference input */
+  multiplier: number;
+
+  /** Input amount */
+  amountIn: string;
+
+  /** Output amount of the last hop */
+  amountOut: string;
+
+  /** Output minus input, negative for a loss */
+  profit: string;
+
+  /** Profit in ETH, null if the start token cannot be priced */
+  profitEth: number | null;
+
+  /** Profit in ETH after the estimated gas cost, null if the start token cannot be priced */
+  netProfitEth: number | null;
+
+  /** Price impact of every hop, null where the pool has no price */
+  priceImpacts: (number | null)[];
+
+  /** Index of the hop with the highest price impact, null if none has a price */
+  limitingHop: number | null;
+}
+
+/**
+ * Profit of a route as a function of its input size, with the price impact
+ * of every hop and the hop that limits the trade.
+ *
+ * @interface DepthAnalysis
+ */
+export interface DepthAnalysis {
+  /** Route identifier */
+  pathId: string;
+
+  /** Human-readable route, e.g. "WETH -> USDC -> WETH" */
+  pathDescription: string;
+
+  /** Token the route starts and ends with */
+  baseToken: string;
+
+  /** Symbol of the start token */
+  baseSymbol: string;
+
+  /** Decimals of the start token */
+  baseDecimals: number;
+
+  /** Input the ladder multipliers scale: the optimal input, or the reference amount if no size is profitable */
+  referenceAmountIn: string;
+
+  /** Whether the route is profitable at some size, i.e. the reference input is the optimal one */
+  profitable: boolean;
+
+  /** Estimated gas cost of the route in ETH */
+  gasCostEth: number;
+
+  /** Liquidity and price impact of every hop at the reference input */
+  hops: HopDepth[];
+
+  /** Index of the hop with the highest price impact at the reference input, null if none has a price */
+  limitingHop: number | null;
+
+  /** Quotes at every size of the ladder, smallest first */
+  ladder: DepthPoint[];
+
+  /** Time of the analysis in milliseconds since the Unix epoch */
+  timestamp: number;
+}
+
+/**
+ * Route to record Uniswap V2 router quotes for, as listed in a cases file.
+ *
+ * @interface FixtureCase
+ */
+export interface FixtureCase {
+  /** Token addresses along the route */
+  path: string[];
+
+  /** Input amount quoted with getAmountsOut */
+  amountIn: string;
+
+  /** Output amount quoted with getAmountsIn, if any */
+  amountOut?: string;
+}
+
+/**
+ * Recorded router quotes of a route and the reserves they were computed from.
+ *
+ * @interface RecordedCase
+ */
+export interface RecordedCase extends FixtureCase {
+  /** Pairs of the route, with reserves oriented in trade direction */
+  pairs: {
+    address: string;
+    reserveIn: string;
+    reserveOut: string;
+    fee: number;
+  }[];
+
+  /** Router result of getAmountsOut(amountIn, path) */
+  amountsOut: string[];
+
+  /** Router result of getAmountsIn(amountOut, path), if amountOut is set */
+  amountsIn?: string[];
+}
+
+/**
+ * Contents of a Uniswap V2 quote fixture file.
+ *
+ * @interface FixtureFile
+ */
+export interface FixtureFile {
+  /** Where the quotes come from, for reference fixtures not read from a chain */
+  description?: string;
+
+  /** Router the quotes were read from, or whose math they reproduce */
+  router: string;
+
+  /** Block all quotes and reserves were read at, absent for reference fixtures */
+  blockNumber?: number;
+
+  /** Recorded routes */
+  cases: RecordedCase[];
+}
+
+/**
+ * Result of replaying a fixture file through the local quoting math.
+ *
+ * @interface FixtureReport
+ */
+export interface FixtureReport {
+  /** Number of quotes compared */
+  quotes: number;
+
+  /** Description of every quote that differs from the router's */
+  mismatches: string[];
+}
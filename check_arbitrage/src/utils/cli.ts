@@ -0,0 +1,17 @@
+/**
+ * Command line helpers shared by the standalone entry points (replay,
+ * fixture recording and plan verification).
+ *
+ * @module cli
+ */
+
+/**
+ * Reads the value following a command line flag.
+ *
+ * @param {string} name - Flag name without dashes
+ * @returns {string | undefined} Flag value, if given
+ */
+export function getArgument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
@@ -0,0 +1,137 @@
+/**
+ * Execution plans of detected routes.
+ * Turns a cyclic route of Uniswap V2 pairs and an input amount into the
+ * calls a generic multi-hop executor contract performs to trade it: an
+ * ERC-20 transfer of the input to the first pair, then one
+ * `swap(amount0Out, amount1Out, to, "0x")` per pair, each sending its output
+ * straight to the next pair and the last one back to the executor.
+ *
+ * Output amounts are quoted with the router math, so the plan only succeeds
+ * on-chain if the reserves are unchanged and no token takes a fee on
+ * transfer. V3 pools are not supported: they pay out through a callback the
+ * executor would have to implement.
+ *
+ * @module executionPlan
+ */
+
+import { ethers } from "ethers";
+import {
+  ERC20_TRANSFER_ABI,
+  EXECUTOR_ABI,
+  UNISWAP_V2_PAIR_ABI,
+} from "../config/constants";
+import { ExecutionPlan, PlannedSwap, RouteHop } from "../types/interfaces";
+import { getAmountsOut } from "./uniswapV2";
+
+/** Encoder of pair calls */
+const pairInterface = new ethers.Interface(UNISWAP_V2_PAIR_ABI);
+
+/** Encoder of token transfers */
+const erc20Interface = new ethers.Interface(ERC20_TRANSFER_ABI);
+
+/** Encoder of executor calls */
+const executorInterface = new ethers.Interface(EXECUTOR_ABI);
+
+/**
+ * Returns why a route cannot be executed, if it cannot.
+ *
+ * @param {RouteHop[]} hops - Hops of the route in trade order
+ * @returns {string | null} Reason, null if the route is executable
+ */
+export function getUnsupportedReason(hops: RouteHop[]): string | null {
+  if (hops.length === 0) return "Route has no hops";
+  const v3Hop = hops.find((hop) => hop.pool.pool_type === "v3");
+  if (v3Hop) {
+    return `Pool ${v3Hop.pool.address} is a V3 pool, only V2 pairs can be executed`;
+  }
+  if (hops[hops.length - 1].tokenOut !== hops[0].tokenIn) {
+    return "Route does not end with the token it starts with";
+  }
+  return null;
+}
+
+/**
+ * Builds the execution plan of a route at the current reserves of its
+ * pools.
+ *
+ * @param {RouteHop[]} hops - Hops of the route in trade order
+ * @param {bigint} amountIn - Amount of the first token sent to the first pair
+ * @param {string} executor - Executor contract performing the calls
+ * @param {bigint} [minProfit] - Growth below which the execution reverts, defaults to the expected profit
+ * @returns {ExecutionPlan} Swaps, executor calls and calldata
+ * @throws {Error} If the route cannot be executed or the input is not positive
+ */
+export function buildExecutionPlan(
+  hops: RouteHop[],
+  amountIn: bigint,
+  executor: string,
+  minProfit?: bigint,
+): ExecutionPlan {
+  const unsupported = getUnsupportedReason(hops);
+  if (unsupported) throw new Error(unsupported);
+
+  const amounts = getAmountsOut(
+    amountIn,
+    hops.map(({ reserveIn, reserveOut, fee }) => ({
+      reserveIn,
+      reserveOut,
+      fee,
+    })),
+  );
+  const amountOut = amounts[amounts.length - 1];
+  const profit = amountOut - amountIn;
+  // A loss-making plan still needs a non-negative threshold to be encodable
+  const threshold = minProfit ?? (profit > 0n ? profit : 0n);
+  if (threshold < 0n) throw new Error("Minimum profit cannot be negative");
+
+  const swaps: PlannedSwap[] = hops.map((hop, i) => {
+    const out = amounts[i + 1];
+    // token1_address is the pair's token0
+    const amount0Out = hop.isToken1Target ? out : 0n;
+    const amount1Out = hop.isToken1Target ? 0n : out;
+    const to = i + 1 < hops.length ? hops[i + 1].pool.address : executor;
+    return {
+      pair: hop.pool.address,
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+      amountIn: amounts[i].toString(),
+      amount0Out: amount0Out.toString(),
+      amount1Out: amount1Out.toString(),
+      to,
+      data: "0x",
+      calldata: pairInterface.encodeFunctionData("swap", [
+        amount0Out,
+        amount1Out,
+        to,
+        "0x",
+      ]),
+    };
+  });
+
+  const calls = [
+    {
+      target: hops[0].tokenIn,
+      data: erc20Interface.encodeFunctionData("transfer", [
+        hops[0].pool.address,
+        amountIn,
+      ]),
+    },
+    ...swaps.map((swap) => ({ target: swap.pair, data: swap.calldata })),
+  ];
+
+  return {
+    executor,
+    profitToken: hops[0].tokenIn,
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    profit: profit.toString(),
+    minProfit: threshold.toString(),
+    swaps,
+    calls,
+    calldata: executorInterface.encodeFunctionData("execute", [
+      hops[0].tokenIn,
+      threshold,
+      calls.map(({ target, data }) => [target, data]),
+    ]),
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Price impact of swaps.
+ * Compares the output of a swap with what the same input would buy at the
+ * pool's current price after the fee, so the impact measures only the
+ * price movement caused by the trade's size. For V3 pools the virtual
+ * reserves give the current price.
+ *
+ * @module priceImpact
+ */
+
+/** Fee denominator: fees are expressed in hundredths of a bip */
+const FEE_DENOMINATOR = 1_000_000n;
+
+/** Precision of the impact ratio computed on bigints */
+const IMPACT_SCALE = 10n ** 12n;
+
+/**
+ * Returns the price impact of a swap as a fraction of the output at the
+ * current price: 0 for an infinitesimal trade, approaching 1 as the trade
+ * drains the pool.
+ *
+ * @param {bigint} amountIn - Input amount
+ * @param {bigint} amountOut - Output amount of the swap
+ * @param {bigint} reserveIn - Reserve of the input token (virtual for V3 pools)
+ * @param {bigint} reserveOut - Reserve of the output token (virtual for V3 pools)
+ * @param {number} fee - Swap fee in hundredths of a bip
+ * @returns {number | null} Impact in [0, 1], null if the pool has no price or the input is zero
+ */
+export function getPriceImpact(
+  amountIn: bigint,
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: number,
+): number | null {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return null;
+  // Output at the current price: amountIn * (1 - fee) * reserveOut / reserveIn
+  const spotOut = amountIn * (FEE_DENOMINATOR - BigInt(fee)) * reserveOut;
+  const ratio =
+    (amountOut * reserveIn * FEE_DENOMINATOR * IMPACT_SCALE) / spotOut;
+  const impact = 1 - Number(ratio) / Number(IMPACT_SCALE);
+  return Math.min(Math.max(impact, 0), 1);
+}
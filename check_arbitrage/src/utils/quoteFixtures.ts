@@ -0,0 +1,91 @@
+/**
+ * Verification of Uniswap V2 quote fixtures.
+ * Replays the recorded router quotes of a fixture file through
+ * `utils/uniswapV2` and describes every quote that differs from the
+ * router's, so quoting drift is caught by `npm test` as well as by the
+ * `v2-fixtures verify` command.
+ *
+ * @module quoteFixtures
+ */
+
+import fs from "fs";
+import { FixtureFile, FixtureReport } from "../types/interfaces";
+import { getAmountsIn, getAmountsOut } from "./uniswapV2";
+
+/**
+ * Reads a fixture file.
+ *
+ * @param {string} file - Path of the fixture file
+ * @returns {FixtureFile} Parsed fixture
+ */
+export function readFixtureFile(file: string): FixtureFile {
+  return JSON.parse(fs.readFileSync(file, "utf8")) as FixtureFile;
+}
+
+/**
+ * Compares two amount lists and describes the first difference.
+ *
+ * @param {string[]} expected - Amounts returned by the router
+ * @param {bigint[]} actual - Amounts computed locally
+ * @returns {string | null} Description of the mismatch, null if the lists are equal
+ */
+export function compareAmounts(
+  expected: string[],
+  actual: bigint[],
+): string | null {
+  if (expected.length !== actual.length) {
+    return `expected ${expected.length} amounts, got ${actual.length}`;
+  }
+  const index = expected.findIndex((amount, i) => BigInt(amount) !== actual[i]);
+  return index >= 0
+    ? `amount ${index}: router ${expected[index]}, local ${actual[index]}`
+    : null;
+}
+
+/**
+ * Quotes every case of a fixture locally and compares with the router.
+ *
+ * @param {FixtureFile} fixture - Recorded quotes
+ * @returns {FixtureReport} Number of quotes and the mismatching ones
+ */
+export function verifyFixture(fixture: FixtureFile): FixtureReport {
+  let quotes = 0;
+  const mismatches: string[] = [];
+
+  fixture.cases.forEach((fixtureCase, index) => {
+    const pairs = fixtureCase.pairs.map((pair) => ({
+      reserveIn: BigInt(pair.reserveIn),
+      reserveOut: BigInt(pair.reserveOut),
+      fee: pair.fee,
+    }));
+    const route = fixtureCase.path.join(" -> ");
+    const checks: [string, string[] | undefined, () => bigint[]][] = [
+      [
+        "getAmountsOut",
+        fixtureCase.amountsOut,
+        () => getAmountsOut(BigInt(fixtureCase.amountIn), pairs),
+      ],
+      [
+        "getAmountsIn",
+        fixtureCase.amountsIn,
+        () => getAmountsIn(BigInt(fixtureCase.amountOut!), pairs),
+      ],
+    ];
+
+    for (const [name, expected, quote] of checks) {
+      if (!expected) continue;
+      quotes++;
+      let mismatch: string | null;
+      try {
+        mismatch = compareAmounts(expected, quote());
+      } catch (error) {
+        mismatch = (error as Error).message;
+      }
+      if (mismatch) {
+        mismatches.push(`Case ${index} ${name} (${route}): ${mismatch}`);
+      }
+    }
+  });
+
+  return { quotes, mismatches };
+}
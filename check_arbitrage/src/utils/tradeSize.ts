@@ -0,0 +1,198 @@
+/**
+ * Trade-size optimisation for arbitrage routes.
+ * Finds the input amount that maximises the profit of a cyclic route, either
+ * in closed form for chains of constant-product (Uniswap V2 style) pools or by
+ * numeric search over an arbitrary quote function.
+ *
+ * @module tradeSize
+ */
+
+import { OPTIMIZER_MAX_ITERATIONS } from "../config/constants";
+
+/**
+ * Reserves and fee of a single constant-product hop, oriented in the
+ * direction of the trade.
+ *
+ * @interface ConstantProductHop
+ */
+export interface ConstantProductHop {
+  /** Reserve of the token sold into the pool */
+  reserveIn: bigint;
+
+  /** Reserve of the token bought from the pool */
+  reserveOut: bigint;
+
+  /** Fraction of the input kept after fees, as numerator / denominator */
+  feeNumerator: bigint;
+
+  /** Denominator of the fee fraction */
+  feeDenominator: bigint;
+}
+
+/**
+ * Result of a trade-size optimisation.
+ *
+ * @interface TradeSizeResult
+ */
+export interface TradeSizeResult {
+  /** Input amount that maximises profit (0 if no size is profitable) */
+  amountIn: bigint;
+
+  /** Output amount of the route for `amountIn` */
+  amountOut: bigint;
+
+  /** Profit at `amountIn` (amountOut - amountIn) */
+  profit: bigint;
+
+  /** How the amount was found */
+  method: "closed-form" | "search";
+}
+
+/**
+ * Integer square root (floor) of a non-negative bigint using Newton's method.
+ *
+ * @param {bigint} value - Value to take the square root of
+ * @returns {bigint} floor(sqrt(value))
+ */
+export function bigintSqrt(value: bigint): bigint {
+  if (value < 0n) {
+    throw new Error("Square root of negative numbers is not supported");
+  }
+  if (value < 2n) {
+    return value;
+  }
+
+  // Start above the root so the iteration decreases monotonically
+  let x0 = 1n << BigInt((value.toString(2).length >> 1) + 1);
+  let x1 = (x0 + value / x0) >> 1n;
+  while (x1 < x0) {
+    x0 = x1;
+    x1 = (x1 + value / x1) >> 1n;
+  }
+  return x0;
+}
+
+/**
+ * Computes the profit-maximising input for a chain of constant-product hops.
+ *
+ * Each hop maps x to g·x·Rout / (d·Rin + g·x), so the whole chain collapses to
+ * f(x) = a·x / (b + c·x). Setting f'(x) = 1 gives x* = (sqrt(a·b) - b) / c,
+ * which is positive only when the chain is profitable at the margin (a > b).
+ *
+ * @param {ConstantProductHop[]} hops - Hops of the route in trade order
+ * @returns {bigint} Optimal input amount, or 0 if the route is never profitable
+ */
+export function optimalConstantProductAmountIn(
+  hops: ConstantProductHop[],
+): bigint {
+  if (hops.length === 0) {
+    return 0n;
+  }
+
+  let a = 1n;
+  let b = 1n;
+  let c = 0n;
+  for (const hop of hops) {
+    if (hop.reserveIn === 0n || hop.reserveOut === 0n) {
+      return 0n;
+    }
+    const scaledReserveIn = hop.feeDenominator * hop.reserveIn;
+    c = scaledReserveIn * c + hop.feeNumerator * a;
+    b = scaledReserveIn * b;
+    a = hop.feeNumerator * hop.reserveOut * a;
+  }
+
+  if (a <= b) {
+    return 0n;
+  }
+  return (bigintSqrt(a * b) - b) / c;
+}
+
+/**
+ * Searches for the profit-maximising input of an arbitrary quote function.
+ * The bracket is grown by doubling from `initialAmount` while profit keeps
+ * increasing, then narrowed by ternary search. Assumes profit is unimodal in
+ * the input amount, which holds for constant-product and concentrated
+ * liquidity pools.
+ *
+ * @param {(amountIn: bigint) => bigint} quote - Route output for a given input
+ * @param {bigint} initialAmount - Starting point for the bracket search
+ * @returns {bigint} Input amount with the highest profit found
+ */
+export function searchOptimalAmountIn(
+  quote: (amountIn: bigint) => bigint,
+  initialAmount: bigint,
+): bigint {
+  const profitAt = (amountIn: bigint) => quote(amountIn) - amountIn;
+
+  // Grow the upper bound until profit starts to fall
+  let high = initialAmount > 0n ? initialAmount : 1n;
+  let highProfit = profitAt(high);
+  for (let i = 0; i < OPTIMIZER_MAX_ITERATIONS; i++) {
+    const next = high * 2n;
+    const nextProfit = profitAt(next);
+    if (nextProfit <= highProfit) {
+      high = next;
+      break;
+    }
+    high = next;
+    highProfit = nextProfit;
+  }
+
+  // Narrow the bracket [low, high] by ternary search
+  let low = 0n;
+  for (let i = 0; i < OPTIMIZER_MAX_ITERATIONS * 2 && high - low > 2n; i++) {
+    const third = (high - low) / 3n;
+    const m1 = low + third;
+    const m2 = high - third;
+    if (profitAt(m1) < profitAt(m2)) {
+      low = m1;
+    } else {
+      high = m2;
+    }
+  }
+
+  let best = low;
+  let bestProfit = profitAt(low);
+  for (let amount = low + 1n; amount <= high; amount++) {
+    const profit = profitAt(amount);
+    if (profit > bestProfit) {
+      best = amount;
+      bestProfit = profit;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the optimal trade size for a route. Uses the closed form when every
+ * hop is a constant-product pool and falls back to numeric search otherwise.
+ * The returned profit is always re-evaluated with `quote`, so it reflects the
+ * exact integer maths of the route rather than the continuous approximation.
+ *
+ * @param {(amountIn: bigint) => bigint} quote - Route output for a given input
+ * @param {bigint} initialAmount - Reference amount used to seed the search
+ * @param {ConstantProductHop[] | null} constantProductHops - Hops for the closed form, or null
+ * @returns {TradeSizeResult} Optimal amount and the resulting profit
+ */
+export function findOptimalTradeSize(
+  quote: (amountIn: bigint) => bigint,
+  initialAmount: bigint,
+  constantProductHops: ConstantProductHop[] | null,
+): TradeSizeResult {
+  const method = constantProductHops ? "closed-form" : "search";
+  const amountIn = constantProductHops
+    ? optimalConstantProductAmountIn(constantProductHops)
+    : searchOptimalAmountIn(quote, initialAmount);
+
+  if (amountIn <= 0n) {
+    return { amountIn: 0n, amountOut: 0n, profit: 0n, method };
+  }
+
+  const amountOut = quote(amountIn);
+  const profit = amountOut - amountIn;
+  if (profit <= 0n) {
+    return { amountIn: 0n, amountOut: 0n, profit: 0n, method };
+  }
+  return { amountIn, amountOut, profit, method };
+}
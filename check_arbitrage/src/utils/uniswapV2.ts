@@ -0,0 +1,157 @@
+/**
+ * Uniswap V2 constant-product quoting math.
+ * A bigint port of `UniswapV2Library.getAmountOut`, `getAmountIn`,
+ * `getAmountsOut` and `getAmountsIn`, returning exactly what
+ * `UniswapV2Router02` returns for the same reserves. Fees are expressed in
+ * hundredths of a bip so forks with other fees (e.g. 0.25%) are quoted with
+ * the same functions; scaling the router's 997/1000 to 997000/1000000 leaves
+ * every floor division unchanged.
+ *
+ * @module uniswapV2
+ */
+
+/** Fee denominator: fees are expressed in hundredths of a bip */
+const FEE_DENOMINATOR = 1_000_000n;
+
+/** Fee of Uniswap V2 pairs (0.3%) in hundredths of a bip */
+export const UNISWAP_V2_FEE = 3000;
+
+/**
+ * Reserves and fee of a pair, oriented in the direction of the trade.
+ *
+ * @interface V2Pair
+ */
+export interface V2Pair {
+  /** Reserve of the token sold into the pair */
+  reserveIn: bigint;
+
+  /** Reserve of the token bought from the pair */
+  reserveOut: bigint;
+
+  /** Swap fee in hundredths of a bip (3000 = 0.3%) */
+  fee: number;
+}
+
+/**
+ * Returns the fraction of the input kept after the fee, scaled by the fee
+ * denominator.
+ *
+ * @param {number} fee - Swap fee in hundredths of a bip
+ * @returns {bigint} FEE_DENOMINATOR - fee
+ * @throws {Error} If the fee is not an integer in [0, FEE_DENOMINATOR)
+ */
+function getFeeMultiplier(fee: number): bigint {
+  if (!Number.isInteger(fee) || fee < 0 || BigInt(fee) >= FEE_DENOMINATOR) {
+    throw new Error(`Invalid pool fee: ${fee}`);
+  }
+  return FEE_DENOMINATOR - BigInt(fee);
+}
+
+/**
+ * Given an input amount and pair reserves, returns the maximum output amount
+ * of the other token.
+ *
+ * @param {bigint} amountIn - Input amount
+ * @param {bigint} reserveIn - Reserve of the input token
+ * @param {bigint} reserveOut - Reserve of the output token
+ * @param {number} [fee] - Swap fee in hundredths of a bip
+ * @returns {bigint} Output amount
+ * @throws {Error} If the input amount or a reserve is zero, as the router reverts
+ */
+export function getAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: number = UNISWAP_V2_FEE,
+): bigint {
+  if (amountIn <= 0n) {
+    throw new Error("UniswapV2Library: INSUFFICIENT_INPUT_AMOUNT");
+  }
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("UniswapV2Library: INSUFFICIENT_LIQUIDITY");
+  }
+  const amountInWithFee = amountIn * getFeeMultiplier(fee);
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * FEE_DENOMINATOR + amountInWithFee;
+  return numerator / denominator;
+}
+
+/**
+ * Given an output amount and pair reserves, returns the required input
+ * amount of the other token.
+ *
+ * @param {bigint} amountOut - Output amount
+ * @param {bigint} reserveIn - Reserve of the input token
+ * @param {bigint} reserveOut - Reserve of the output token
+ * @param {number} [fee] - Swap fee in hundredths of a bip
+ * @returns {bigint} Input amount
+ * @throws {Error} If the output amount or a reserve is zero, or the output is not below the output reserve
+ */
+export function getAmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: number = UNISWAP_V2_FEE,
+): bigint {
+  if (amountOut <= 0n) {
+    throw new Error("UniswapV2Library: INSUFFICIENT_OUTPUT_AMOUNT");
+  }
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("UniswapV2Library: INSUFFICIENT_LIQUIDITY");
+  }
+  if (amountOut >= reserveOut) {
+    // The router's SafeMath subtraction reverts
+    throw new Error("ds-math-sub-underflow");
+  }
+  const numerator = reserveIn * amountOut * FEE_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * getFeeMultiplier(fee);
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Performs chained getAmountOut calculations along a route.
+ *
+ * @param {bigint} amountIn - Input amount of the first pair
+ * @param {V2Pair[]} pairs - Pairs of the route in trade order
+ * @returns {bigint[]} Input amount followed by the output of every pair
+ * @throws {Error} If the route is empty or a pair cannot be quoted
+ */
+export function getAmountsOut(amountIn: bigint, pairs: V2Pair[]): bigint[] {
+  if (pairs.length === 0) {
+    throw new Error("UniswapV2Library: INVALID_PATH");
+  }
+  const amounts = [amountIn];
+  for (const pair of pairs) {
+    amounts.push(
+      getAmountOut(
+        amounts[amounts.length - 1],
+        pair.reserveIn,
+        pair.reserveOut,
+        pair.fee,
+      ),
+    );
+  }
+  return amounts;
+}
+
+/**
+ * Performs chained getAmountIn calculations along a route, from the last
+ * pair back to the first.
+ *
+ * @param {bigint} amountOut - Output amount of the last pair
+ * @param {V2Pair[]} pairs - Pairs of the route in trade order
+ * @returns {bigint[]} Input amount of every pair followed by the output amount
+ * @throws {Error} If the route is empty or a pair cannot be quoted
+ */
+export function getAmountsIn(amountOut: bigint, pairs: V2Pair[]): bigint[] {
+  if (pairs.length === 0) {
+    throw new Error("UniswapV2Library: INVALID_PATH");
+  }
+  const amounts = [amountOut];
+  for (let i = pairs.length - 1; i >= 0; i--) {
+    amounts.unshift(
+      getAmountIn(amounts[0], pairs[i].reserveIn, pairs[i].reserveOut, pairs[i].fee),
+    );
+  }
+  return amounts;
+}
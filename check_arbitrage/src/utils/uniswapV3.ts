@@ -0,0 +1,542 @@
+/**
+ * Uniswap V3 concentrated-liquidity swap math.
+ * A bigint port of TickMath, SqrtPriceMath and SwapMath from the Uniswap V3
+ * core contracts, plus an exact-input swap simulation that crosses
+ * initialized ticks the same way `UniswapV3Pool.swap` does.
+ *
+ * @module uniswapV3
+ */
+
+import { V3PoolState } from "../types/interfaces";
+
+/** Lowest tick representable by TickMath */
+export const MIN_TICK = -887272;
+
+/** Highest tick representable by TickMath */
+export const MAX_TICK = 887272;
+
+/** sqrt(1.0001^MIN_TICK) as a Q64.96 */
+export const MIN_SQRT_RATIO = 4295128739n;
+
+/** sqrt(1.0001^MAX_TICK) as a Q64.96 */
+export const MAX_SQRT_RATIO =
+  1461446703485210103287273052203988822378723970342n;
+
+/** 2^96, the fixed-point scale of sqrtPriceX96 */
+export const Q96 = 1n << 96n;
+
+/** Fee denominator: fees are expressed in hundredths of a bip */
+const FEE_DENOMINATOR = 1_000_000n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+
+/**
+ * Result of an exact-input swap simulation.
+ *
+ * @interface V3SwapResult
+ */
+export interface V3SwapResult {
+  /** Amount of the input token consumed, fees included */
+  amountIn: bigint;
+
+  /** Amount of the output token received */
+  amountOut: bigint;
+
+  /** Pool price after the swap */
+  sqrtPriceX96: bigint;
+
+  /** Current tick after the swap */
+  tick: number;
+
+  /** Active liquidity after the swap */
+  liquidity: bigint;
+}
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator === 0n ? result : result + 1n;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b === 0n ? 0n : 1n);
+}
+
+/**
+ * Calculates sqrt(1.0001^tick) * 2^96 exactly as TickMath.getSqrtRatioAtTick.
+ *
+ * @param {number} tick - Tick to convert
+ * @returns {bigint} Q64.96 square root price at the tick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick out of range: ${tick}`);
+  }
+
+  const absTick = BigInt(Math.abs(tick));
+  let ratio =
+    (absTick & 0x1n) !== 0n
+      ? 0xfffcb933bd6fad37aa2d162d1a594001n
+      : 0x100000000000000000000000000000000n;
+  const factors: [bigint, bigint][] = [
+    [0x2n, 0xfff97272373d413259a46990580e213an],
+    [0x4n, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+    [0x8n, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+    [0x10n, 0xffcb9843d60f6159c9db58835c926644n],
+    [0x20n, 0xff973b41fa98c081472e6896dfb254c0n],
+    [0x40n, 0xff2ea16466c96a3843ec78b326b52861n],
+    [0x80n, 0xfe5dee046a99a2a811c461f1969c3053n],
+    [0x100n, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+    [0x200n, 0xf987a7253ac413176f2b074cf7815e54n],
+    [0x400n, 0xf3392b0822b70005940c7a398e4b70f3n],
+    [0x800n, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+    [0x1000n, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+    [0x2000n, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+    [0x4000n, 0x70d869a156d2a1b890bb3df62baf32f7n],
+    [0x8000n, 0x31be135f97d08fd981231505542fcfa6n],
+    [0x10000n, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+    [0x20000n, 0x5d6af8dedb81196699c329225ee604n],
+    [0x40000n, 0x2216e584f5fa1ea926041bedfe98n],
+    [0x80000n, 0x48a170391f7dc42444e8fa2n],
+  ];
+  for (const [mask, factor] of factors) {
+    if ((absTick & mask) !== 0n) {
+      ratio = (ratio * factor) >> 128n;
+    }
+  }
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+
+  // Round up to a Q64.96 so getTickAtSqrtRatio stays consistent
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Calculates the greatest tick whose sqrt ratio is <= the given price,
+ * matching TickMath.getTickAtSqrtRatio.
+ *
+ * @param {bigint} sqrtPriceX96 - Q64.96 square root price
+ * @returns {number} Tick of the price
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`Sqrt price out of range: ${sqrtPriceX96}`);
+  }
+
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Amount of token0 between two prices for a given liquidity
+ * (SqrtPriceMath.getAmount0Delta).
+ */
+export function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+
+  return roundUp
+    ? divRoundingUp(
+        mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96),
+        sqrtRatioAX96,
+      )
+    : mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96;
+}
+
+/**
+ * Amount of token1 between two prices for a given liquidity
+ * (SqrtPriceMath.getAmount1Delta).
+ */
+export function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean,
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) {
+    [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+  }
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+    : mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96);
+}
+
+/**
+ * Next price after adding token0 to the pool, rounded up
+ * (SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp with add = true).
+ */
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+): bigint {
+  if (amount === 0n) return sqrtPX96;
+  const numerator1 = liquidity << 96n;
+
+  // The contract only takes the precise path when amount * price fits in 256 bits
+  const product = amount * sqrtPX96;
+  if (product <= MAX_UINT256) {
+    const denominator = numerator1 + product;
+    if (denominator <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+    }
+  }
+  return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+}
+
+/**
+ * Next price after adding token1 to the pool, rounded down
+ * (SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown with add = true).
+ */
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+): bigint {
+  const quotient =
+    amount <= MAX_UINT160
+      ? (amount << 96n) / liquidity
+      : mulDiv(amount, Q96, liquidity);
+  return sqrtPX96 + quotient;
+}
+
+/**
+ * Computes the result of swapping within a single price range
+ * (SwapMath.computeSwapStep for exact input).
+ */
+function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint,
+): {
+  sqrtRatioNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+} {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const amountRemainingLessFee = mulDiv(
+    amountRemaining,
+    FEE_DENOMINATOR - feePips,
+    FEE_DENOMINATOR,
+  );
+
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+
+  let sqrtRatioNextX96: bigint;
+  if (amountRemainingLessFee >= amountIn) {
+    sqrtRatioNextX96 = sqrtRatioTargetX96;
+  } else {
+    sqrtRatioNextX96 = zeroForOne
+      ? getNextSqrtPriceFromAmount0RoundingUp(
+          sqrtRatioCurrentX96,
+          liquidity,
+          amountRemainingLessFee,
+        )
+      : getNextSqrtPriceFromAmount1RoundingDown(
+          sqrtRatioCurrentX96,
+          liquidity,
+          amountRemainingLessFee,
+        );
+  }
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+  let amountOut: bigint;
+  if (zeroForOne) {
+    if (!max) {
+      amountIn = getAmount0Delta(
+        sqrtRatioNextX96,
+        sqrtRatioCurrentX96,
+        liquidity,
+        true,
+      );
+    }
+    amountOut = getAmount1Delta(
+      sqrtRatioNextX96,
+      sqrtRatioCurrentX96,
+      liquidity,
+      false,
+    );
+  } else {
+    if (!max) {
+      amountIn = getAmount1Delta(
+        sqrtRatioCurrentX96,
+        sqrtRatioNextX96,
+        liquidity,
+        true,
+      );
+    }
+    amountOut = getAmount0Delta(
+      sqrtRatioCurrentX96,
+      sqrtRatioNextX96,
+      liquidity,
+      false,
+    );
+  }
+
+  const feeAmount = !max
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * Finds the next tick to stop at when moving from `tick`, emulating
+ * TickBitmap.nextInitializedTickWithinOneWord: the search never leaves the
+ * 256-tick bitmap word, so uninitialized word boundaries are returned as
+ * intermediate stops just like on-chain.
+ */
+function nextInitializedTickWithinOneWord(
+  tickIndices: number[],
+  tick: number,
+  tickSpacing: number,
+  lte: boolean,
+): { tickNext: number; initialized: boolean } {
+  let compressed = Math.trunc(tick / tickSpacing);
+  if (tick < 0 && tick % tickSpacing !== 0) compressed--;
+
+  if (lte) {
+    const wordStart = Math.floor(compressed / 256) * 256;
+    // Largest initialized tick <= compressed * tickSpacing
+    const candidate = findLastAtOrBelow(tickIndices, compressed * tickSpacing);
+    if (candidate !== null && candidate >= wordStart * tickSpacing) {
+      return { tickNext: candidate, initialized: true };
+    }
+    return { tickNext: wordStart * tickSpacing, initialized: false };
+  }
+
+  const start = compressed + 1;
+  const wordEnd = Math.floor(start / 256) * 256 + 255;
+  // Smallest initialized tick >= (compressed + 1) * tickSpacing
+  const candidate = findFirstAtOrAbove(tickIndices, start * tickSpacing);
+  if (candidate !== null && candidate <= wordEnd * tickSpacing) {
+    return { tickNext: candidate, initialized: true };
+  }
+  return { tickNext: wordEnd * tickSpacing, initialized: false };
+}
+
+function findLastAtOrBelow(sorted: number[], value: number): number | null {
+  let low = 0;
+  let high = sorted.length - 1;
+  let result: number | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= value) {
+      result = sorted[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+}
+
+function findFirstAtOrAbove(sorted: number[], value: number): number | null {
+  let low = 0;
+  let high = sorted.length - 1;
+  let result: number | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] >= value) {
+      result = sorted[mid];
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return result;
+}
+
+/**
+ * Simulates an exact-input swap against a pool, crossing initialized ticks
+ * and updating active liquidity the same way UniswapV3Pool.swap does.
+ * Only ticks inside the loaded tick window are known, so the swap stops at
+ * the edge of the window and the rest of the input is left unswapped.
+ *
+ * @param {V3PoolState} state - Current pool state
+ * @param {boolean} zeroForOne - True when selling token0 for token1
+ * @param {bigint} amountIn - Exact input amount, fees included
+ * @param {number} fee - Pool fee in hundredths of a bip
+ * @param {number} tickSpacing - Pool tick spacing
+ * @returns {V3SwapResult} Amounts swapped and the resulting pool state
+ */
+export function swapExactInput(
+  state: V3PoolState,
+  zeroForOne: boolean,
+  amountIn: bigint,
+  fee: number,
+  tickSpacing: number,
+): V3SwapResult {
+  const feePips = BigInt(fee);
+  const sqrtPriceLimitX96 = zeroForOne
+    ? MIN_SQRT_RATIO + 1n
+    : MAX_SQRT_RATIO - 1n;
+
+  let amountRemaining = amountIn;
+  let amountOut = 0n;
+  let sqrtPriceX96 = state.sqrtPriceX96;
+  let tick = state.tick;
+  let liquidity = state.liquidity;
+
+  if (amountIn <= 0n || sqrtPriceX96 === 0n) {
+    return { amountIn: 0n, amountOut: 0n, sqrtPriceX96, tick, liquidity };
+  }
+
+  while (amountRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    // Liquidity beyond the loaded tick window is unknown
+    if (zeroForOne ? tick < state.minTick : tick >= state.maxTick) break;
+
+    // Without active liquidity and no initialized tick ahead nothing more can be bought
+    if (liquidity === 0n) {
+      const ahead = zeroForOne
+        ? findLastAtOrBelow(state.tickIndices, tick)
+        : findFirstAtOrAbove(state.tickIndices, tick + 1);
+      if (ahead === null) break;
+    }
+
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    let { tickNext, initialized } = nextInitializedTickWithinOneWord(
+      state.tickIndices,
+      tick,
+      tickSpacing,
+      zeroForOne,
+    );
+    // The window lies within [MIN_TICK, MAX_TICK]
+    tickNext = Math.min(Math.max(tickNext, state.minTick), state.maxTick);
+
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+    const sqrtRatioTargetX96 = (
+      zeroForOne
+        ? sqrtPriceNextX96 < sqrtPriceLimitX96
+        : sqrtPriceNextX96 > sqrtPriceLimitX96
+    )
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96;
+
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      sqrtRatioTargetX96,
+      liquidity,
+      amountRemaining,
+      feePips,
+    );
+    sqrtPriceX96 = step.sqrtRatioNextX96;
+    amountRemaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      // Crossed into the next range: apply the tick's net liquidity
+      if (initialized) {
+        const liquidityNet = state.ticks.get(tickNext)?.liquidityNet ?? 0n;
+        liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  return {
+    amountIn: amountIn - amountRemaining,
+    amountOut,
+    sqrtPriceX96,
+    tick,
+    liquidity,
+  };
+}
+
+/**
+ * Virtual reserves of a pool within its current tick range:
+ * x = L / sqrtP and y = L * sqrtP. Useful as a constant-product
+ * approximation for spot prices.
+ *
+ * @param {V3PoolState} state - Current pool state
+ * @returns {{ reserve0: bigint; reserve1: bigint }} Virtual reserves
+ */
+export function getVirtualReserves(state: V3PoolState): {
+  reserve0: bigint;
+  reserve1: bigint;
+} {
+  if (state.sqrtPriceX96 === 0n) {
+    return { reserve0: 0n, reserve1: 0n };
+  }
+  return {
+    reserve0: (state.liquidity << 96n) / state.sqrtPriceX96,
+    reserve1: (state.liquidity * state.sqrtPriceX96) >> 96n,
+  };
+}
+
+/**
+ * Applies a Mint (positive delta) or Burn (negative delta) to the pool's
+ * tick table and active liquidity. Ticks outside the loaded tick window are
+ * left alone: their liquidity before the event is unknown, and swaps never
+ * cross them.
+ *
+ * @param {V3PoolState} state - Pool state to update in place
+ * @param {number} tickLower - Lower tick of the position
+ * @param {number} tickUpper - Upper tick of the position
+ * @param {bigint} liquidityDelta - Liquidity added (positive) or removed (negative)
+ */
+export function applyLiquidityDelta(
+  state: V3PoolState,
+  tickLower: number,
+  tickUpper: number,
+  liquidityDelta: bigint,
+) {
+  updateTick(state, tickLower, liquidityDelta, false);
+  updateTick(state, tickUpper, liquidityDelta, true);
+
+  if (state.tick >= tickLower && state.tick < tickUpper) {
+    state.liquidity += liquidityDelta;
+  }
+}
+
+function updateTick(
+  state: V3PoolState,
+  tick: number,
+  liquidityDelta: bigint,
+  upper: boolean,
+) {
+  if (tick < state.minTick || tick > state.maxTick) return;
+  const info = state.ticks.get(tick) ?? { liquidityGross: 0n, liquidityNet: 0n };
+  const liquidityGross = info.liquidityGross + liquidityDelta;
+  const liquidityNet = upper
+    ? info.liquidityNet - liquidityDelta
+    : info.liquidityNet + liquidityDelta;
+
+  // A tick stays initialized while any position references it
+  if (liquidityGross <= 0n) {
+    state.ticks.delete(tick);
+  } else {
+    state.ticks.set(tick, { liquidityGross, liquidityNet });
+  }
+  state.tickIndices = Array.from(state.ticks.keys()).sort((a, b) => a - b);
+}
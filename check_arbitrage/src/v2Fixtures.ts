@@ -0,0 +1,179 @@
+/**
+ * Entry point for recording and verifying Uniswap V2 quoting fixtures.
+ * `record` asks the on-chain Uniswap V2 router for `getAmountsOut` and
+ * `getAmountsIn` along the given paths, together with the reserves of every
+ * pair at the same block. `verify` replays the recorded quotes through
+ * `utils/uniswapV2` and fails unless every amount matches the router exactly.
+ *
+ * Usage:
+ *   ts-node src/v2Fixtures.ts record --cases <cases.json> [--out <file>] [--block <number>]
+ *   ts-node src/v2Fixtures.ts verify [--fixtures <file>]
+ *
+ * @module v2Fixtures
+ */
+
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import {
+  MAX_CONNECTIONS_PER_ENDPOINT,
+  MISSING_RPC_ENDPOINTS,
+  RPC_ENDPOINTS,
+  UNISWAP_V2_FACTORY_ADDRESS,
+  UNISWAP_V2_FIXTURE_ABI,
+  UNISWAP_V2_ROUTER_ADDRESS,
+  V2_FIXTURE_FILE,
+} from "./config/constants";
+import { WebSocketPool } from "./services/webSocketPool";
+import { FixtureCase, FixtureFile, RecordedCase } from "./types/interfaces";
+import { getArgument } from "./utils/cli";
+import { readFixtureFile, verifyFixture } from "./utils/quoteFixtures";
+import { UNISWAP_V2_FEE } from "./utils/uniswapV2";
+
+/**
+ * Records router quotes and pair reserves for every case at one block.
+ *
+ * @param {string} casesFile - JSON file with the routes to record
+ * @param {string} outputFile - Fixture file to write
+ * @param {number | undefined} block - Block to read at, latest if omitted
+ * @async
+ * @returns {Promise<void>}
+ * @throws {Error} If no RPC endpoint is configured
+ */
+async function record(
+  casesFile: string,
+  outputFile: string,
+  block: number | undefined,
+) {
+  const cases = JSON.parse(fs.readFileSync(casesFile, "utf8")) as FixtureCase[];
+  if (RPC_ENDPOINTS.length === 0) {
+    throw new Error(MISSING_RPC_ENDPOINTS);
+  }
+  const pool = new WebSocketPool({
+    endpoints: RPC_ENDPOINTS,
+    maxConnections: MAX_CONNECTIONS_PER_ENDPOINT,
+  });
+
+  try {
+    const blockTag = block ?? (await pool.call((p) => p.getBlockNumber()));
+    const recorded: RecordedCase[] = [];
+
+    for (const fixtureCase of cases) {
+      const recordedCase = await pool.call(async (provider) => {
+        const contract = (address: string) =>
+          new ethers.Contract(address, UNISWAP_V2_FIXTURE_ABI, provider);
+        const factory = contract(UNISWAP_V2_FACTORY_ADDRESS);
+        const router = contract(UNISWAP_V2_ROUTER_ADDRESS);
+
+        // Reserves of every pair, oriented from path[i] to path[i + 1]
+        const pairs = [];
+        for (let i = 0; i < fixtureCase.path.length - 1; i++) {
+          const tokenIn = fixtureCase.path[i].toLowerCase();
+          const tokenOut = fixtureCase.path[i + 1].toLowerCase();
+          const address: string = await factory.getPair(tokenIn, tokenOut, {
+            blockTag,
+          });
+          const [reserve0, reserve1]: bigint[] = await contract(
+            address,
+          ).getReserves({ blockTag });
+          const tokenInIsToken0 = tokenIn < tokenOut;
+          pairs.push({
+            address: address.toLowerCase(),
+            reserveIn: (tokenInIsToken0 ? reserve0 : reserve1).toString(),
+            reserveOut: (tokenInIsToken0 ? reserve1 : reserve0).toString(),
+            fee: UNISWAP_V2_FEE,
+          });
+        }
+
+        const amountsOut: bigint[] = await router.getAmountsOut(
+          fixtureCase.amountIn,
+          fixtureCase.path,
+          { blockTag },
+        );
+        const amountsIn: bigint[] | undefined = fixtureCase.amountOut
+          ? await router.getAmountsIn(fixtureCase.amountOut, fixtureCase.path, {
+              blockTag,
+            })
+          : undefined;
+
+        return {
+          ...fixtureCase,
+          pairs,
+          amountsOut: amountsOut.map(String),
+          amountsIn: amountsIn?.map(String),
+        };
+      });
+      recorded.push(recordedCase);
+    }
+
+    const fixture: FixtureFile = {
+      router: UNISWAP_V2_ROUTER_ADDRESS,
+      blockNumber: blockTag,
+      cases: recorded,
+    };
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, JSON.stringify(fixture, null, 2) + "\n");
+    console.log(
+      `Recorded ${recorded.length} routes at block ${blockTag} to ${outputFile}`,
+    );
+  } finally {
+    pool.closeAll();
+  }
+}
+
+/**
+ * Quotes every recorded case locally and compares with the router.
+ *
+ * @param {string} fixtureFile - Fixture file to verify
+ * @returns {number} Number of mismatching quotes
+ */
+function verify(fixtureFile: string): number {
+  const fixture = readFixtureFile(fixtureFile);
+  const { quotes, mismatches } = verifyFixture(fixture);
+  mismatches.forEach((mismatch) => console.error(mismatch));
+
+  const origin =
+    fixture.blockNumber === undefined
+      ? "reference fixture"
+      : `block ${fixture.blockNumber}`;
+  console.log(
+    `Verified ${quotes} quotes from ${origin}: ${quotes - mismatches.length} match, ${mismatches.length} differ`,
+  );
+  return mismatches.length;
+}
+
+/**
+ * Runs the requested command.
+ *
+ * @function main
+ * @async
+ * @throws {Error} If the command or its inputs are missing
+ */
+async function main() {
+  const command = process.argv[2];
+  if (command === "record") {
+    const casesFile = getArgument("cases");
+    const block = getArgument("block");
+    if (!casesFile) {
+      throw new Error(
+        "Usage: v2-fixtures record --cases <cases.json> [--out <file>] [--block <number>]",
+      );
+    }
+    await record(
+      casesFile,
+      getArgument("out") || V2_FIXTURE_FILE,
+      block === undefined ? undefined : Number(block),
+    );
+  } else if (command === "verify") {
+    if (verify(getArgument("fixtures") || V2_FIXTURE_FILE) > 0) {
+      process.exit(1);
+    }
+  } else {
+    throw new Error("Usage: v2-fixtures <record|verify> [options]");
+  }
+}
+
+main().catch((error) => {
+  console.error("V2 fixtures failed:", error);
+  process.exit(1);
+});
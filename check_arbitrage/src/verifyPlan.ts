@@ -0,0 +1,143 @@
+/**
+ * Entry point for verifying execution plans against a forked node.
+ * Loads a route from the database, reads the reserves of its pairs from the
+ * fork at the given block, builds the execution plan from them and simulates
+ * the executor call with `eth_call`. Fails unless the call succeeds and the
+ * executor reports exactly the profit the plan expects.
+ *
+ * The executor must be deployed on the fork and hold the input amount of
+ * the route, e.g. funded with `anvil_setStorageAt` or a transfer from an
+ * impersonated holder.
+ *
+ * Usage:
+ *   ts-node src/verifyPlan.ts --route <id> [--amount <raw>] [--executor <address>] [--from <address>] [--rpc <url>] [--block <number>]
+ *
+ * @module verifyPlan
+ */
+
+import { ethers } from "ethers";
+import {
+  EXECUTOR_ABI,
+  EXECUTOR_ADDRESS,
+  FORK_RPC_URL,
+  UNISWAP_V2_PAIR_ABI,
+} from "./config/constants";
+import { DatabaseManager } from "./database/dbManager";
+import { ArbitrageCalculator } from "./services/arbitrageCalculator";
+import { getArgument } from "./utils/cli";
+
+/**
+ * Replaces the reserves of the route's pairs with those on the fork.
+ *
+ * @param {DatabaseManager} dbManager - Database manager holding the pools
+ * @param {string[]} pools - Pair addresses of the route
+ * @param {ethers.Provider} provider - Provider of the forked node
+ * @param {number} blockTag - Block to read at
+ * @async
+ * @returns {Promise<void>}
+ * @throws {Error} If a pool of the route is missing from the database
+ */
+async function loadReserves(
+  dbManager: DatabaseManager,
+  pools: string[],
+  provider: ethers.Provider,
+  blockTag: number,
+) {
+  const lpMap = dbManager.getLPMap();
+  for (const address of pools) {
+    const pool = lpMap.get(address);
+    if (!pool) {
+      throw new Error(`Pool ${address} of the route is not in the database`);
+    }
+    if (pool.pool_type === "v3") continue;
+    const pair = new ethers.Contract(address, UNISWAP_V2_PAIR_ABI, provider);
+    const [reserve0, reserve1]: bigint[] = await pair.getReserves({
+      blockTag,
+    });
+    pool.reserve1 = reserve0;
+    pool.reserve2 = reserve1;
+  }
+}
+
+/**
+ * Builds the plan of a route at the fork's reserves and simulates it.
+ *
+ * @function main
+ * @async
+ * @returns {Promise<boolean>} True if the executor returned the expected profit
+ * @throws {Error} If the inputs are missing or the route cannot be planned
+ */
+async function main(): Promise<boolean> {
+  const routeId = getArgument("route");
+  const amount = getArgument("amount");
+  const executor = getArgument("executor") || EXECUTOR_ADDRESS;
+  const block = getArgument("block");
+  if (!routeId || !executor) {
+    throw new Error(
+      "Usage: verify-plan --route <id> [--amount <raw>] [--executor <address>] [--from <address>] [--rpc <url>] [--block <number>]",
+    );
+  }
+
+  const dbManager = new DatabaseManager();
+  await dbManager.initialize();
+  const calculator = new ArbitrageCalculator(dbManager);
+  const hops = calculator.getRouteHops(routeId);
+  if (!hops) throw new Error(`Unknown or unresolvable route: ${routeId}`);
+
+  const provider = new ethers.JsonRpcProvider(
+    getArgument("rpc") || FORK_RPC_URL,
+  );
+  try {
+    const blockTag =
+      block === undefined ? await provider.getBlockNumber() : Number(block);
+    await loadReserves(
+      dbManager,
+      hops.map((hop) => hop.pool.address),
+      provider,
+      blockTag,
+    );
+
+    const plan = calculator.getExecutionPlan(
+      routeId,
+      amount === undefined ? undefined : BigInt(amount),
+      executor,
+    )!;
+    console.log(
+      `Route ${routeId} at block ${blockTag}: ${plan.amountIn} in, ${plan.amountOut} out, expected profit ${plan.profit}`,
+    );
+
+    let result: string;
+    try {
+      result = await provider.call({
+        to: plan.executor,
+        from: getArgument("from"),
+        data: plan.calldata,
+        blockTag,
+      });
+    } catch (error) {
+      const reason =
+        (error as ethers.CallExceptionError).reason ?? (error as Error).message;
+      console.error(`Execution reverted: ${reason}`);
+      return false;
+    }
+
+    const [profit]: bigint[] = new ethers.Interface(
+      EXECUTOR_ABI,
+    ).decodeFunctionResult("execute", result);
+    if (profit !== BigInt(plan.profit)) {
+      console.error(`Profit differs: executor ${profit}, plan ${plan.profit}`);
+      return false;
+    }
+    console.log(`Executor returned the expected profit of ${profit}`);
+    return true;
+  } finally {
+    provider.destroy();
+  }
+}
+
+main()
+  .then((matches) => process.exit(matches ? 0 : 1))
+  .catch((error) => {
+    console.error("Plan verification failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs";
+import path from "path";
+import { readFixtureFile, verifyFixture } from "../src/utils/quoteFixtures";
+
+/** Directory of the recorded and reference quote fixtures */
+const FIXTURES_DIR = path.join(__dirname, "..", "fixtures");
+
+/** Fixture files with quotes; `*.cases.json` files only list routes to record */
+const FIXTURE_FILES = fs
+  .readdirSync(FIXTURES_DIR)
+  .filter((name) => /^uniswapV2.*\.json$/.test(name))
+  .filter((name) => !name.endsWith(".cases.json"));
+
+describe("Uniswap V2 quote fixtures", () => {
+  it("has fixtures to verify", () => {
+    assert.ok(FIXTURE_FILES.length > 0);
+  });
+
+  for (const name of FIXTURE_FILES) {
+    it(`quotes every case of ${name} like the router`, () => {
+      const { quotes, mismatches } = verifyFixture(
+        readFixtureFile(path.join(FIXTURES_DIR, name)),
+      );
+      assert.ok(quotes > 0);
+      assert.deepEqual(mismatches, []);
+    });
+  }
+
+  it("reports a quote that differs from the router", () => {
+    const fixture = readFixtureFile(path.join(FIXTURES_DIR, FIXTURE_FILES[0]));
+    const [first] = fixture.cases;
+    const amountsOut = [...first.amountsOut];
+    amountsOut[1] = (BigInt(amountsOut[1]) + 1n).toString();
+
+    const { mismatches } = verifyFixture({
+      ...fixture,
+      cases: [{ ...first, amountsOut }],
+    });
+    assert.equal(mismatches.length, 1);
+    assert.match(mismatches[0], /getAmountsOut/);
+  });
+});
@@ -0,0 +1,265 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { once } from "events";
+import { ethers } from "ethers";
+import {
+  LOGGING,
+  REORG_EVENT_NAME,
+  UNISWAP_V2_POOL_ABI,
+  UNISWAP_V3_POOL_ABI,
+} from "../src/config/constants";
+import { DatabaseManager } from "../src/database/dbManager";
+import { ArbitrageCalculator } from "../src/services/arbitrageCalculator";
+import { EventSubscriber, PoolLog } from "../src/services/eventSubscriber";
+import { LPInfo, ReorgNotice } from "../src/types/interfaces";
+import { MAX_TICK, MIN_TICK } from "../src/utils/uniswapV3";
+import { configureLogging } from "../../shared/logging/logger";
+
+/** V2 pair updated by Sync events */
+const PAIR = "0x00000000000000000000000000000000000000a1";
+
+/** V3 pool updated by Swap, Mint and Burn events */
+const POOL = "0x00000000000000000000000000000000000000b1";
+
+const OWNER = "0x00000000000000000000000000000000000000c1";
+
+const v2Interface = new ethers.Interface(UNISWAP_V2_POOL_ABI);
+const v3Interface = new ethers.Interface(UNISWAP_V3_POOL_ABI);
+
+/**
+ * Builds a log of a pool event.
+ *
+ * @param {string} address - Pool that emitted the event
+ * @param {ethers.Interface} iface - Interface of the pool
+ * @param {string} event - Event name
+ * @param {unknown[]} values - Event arguments
+ * @returns {(block: number, hash: string, index: number) => PoolLog} Log at a position of a block
+ */
+function eventLog(
+  address: string,
+  iface: ethers.Interface,
+  event: string,
+  values: unknown[],
+) {
+  return (block: number, hash: string, index: number): PoolLog => ({
+    address,
+    ...iface.encodeEventLog(event, values),
+    transactionHash: ethers.id(`${hash}:${index}`),
+    blockNumber: block,
+    blockHash: hash,
+    index,
+  });
+}
+
+const sync = (reserve0: bigint, reserve1: bigint) =>
+  eventLog(PAIR, v2Interface, "Sync", [reserve0, reserve1]);
+
+const swap = (sqrtPriceX96: bigint, liquidity: bigint, tick: number) =>
+  eventLog(POOL, v3Interface, "Swap", [
+    OWNER,
+    OWNER,
+    1n,
+    -1n,
+    sqrtPriceX96,
+    liquidity,
+    tick,
+  ]);
+
+const mint = (tickLower: number, tickUpper: number, amount: bigint) =>
+  eventLog(POOL, v3Interface, "Mint", [
+    OWNER,
+    OWNER,
+    tickLower,
+    tickUpper,
+    amount,
+    1n,
+    1n,
+  ]);
+
+const burn = (tickLower: number, tickUpper: number, amount: bigint) =>
+  eventLog(POOL, v3Interface, "Burn", [
+    OWNER,
+    tickLower,
+    tickUpper,
+    amount,
+    1n,
+    1n,
+  ]);
+
+/**
+ * Creates the tracked pools in their state before the first block: a V2
+ * pair and a V3 pool at tick 0 with one position around the price.
+ *
+ * @returns {Map<string, LPInfo>} Pools by address
+ */
+function createPools(): Map<string, LPInfo> {
+  const liquidity = 10n ** 18n;
+  return new Map<string, LPInfo>([
+    [
+      PAIR,
+      {
+        address: PAIR,
+        token1_address: "0x01",
+        token2_address: "0x02",
+        pool_type: "v2",
+        factory: null,
+        fee: 3000,
+        tick_spacing: null,
+        reserve1: 10n ** 21n,
+        reserve2: 2n * 10n ** 24n,
+      },
+    ],
+    [
+      POOL,
+      {
+        address: POOL,
+        token1_address: "0x01",
+        token2_address: "0x02",
+        pool_type: "v3",
+        factory: null,
+        fee: 3000,
+        tick_spacing: 60,
+        reserve1: 0n,
+        reserve2: 0n,
+        v3: {
+          sqrtPriceX96: 2n ** 96n,
+          tick: 0,
+          liquidity,
+          ticks: new Map([
+            [-600, { liquidityGross: liquidity, liquidityNet: liquidity }],
+            [600, { liquidityGross: liquidity, liquidityNet: -liquidity }],
+          ]),
+          tickIndices: [-600, 600],
+          minTick: MIN_TICK,
+          maxTick: MAX_TICK,
+        },
+      },
+    ],
+  ]);
+}
+
+/**
+ * Creates a subscriber and calculator tracking fresh pools, without routes
+ * or an RPC connection.
+ *
+ * @returns {{ pools: Map<string, LPInfo>; calculator: ArbitrageCalculator; subscriber: EventSubscriber }} Tracked pools and services
+ */
+function createSubscriber() {
+  const pools = createPools();
+  const dbManager = {
+    getLPMap: () => pools,
+    getLP2RouteMapping: () => new Map(),
+    getRouteMap: () => new Map(),
+    getTokenMap: () => new Map(),
+  } as unknown as DatabaseManager;
+  const calculator = new ArbitrageCalculator(dbManager);
+  const subscriber = new EventSubscriber(dbManager, calculator);
+  return { pools, calculator, subscriber };
+}
+
+/**
+ * Applies blocks to fresh pools, each complete and in order.
+ *
+ * @param {PoolLog[][]} blocks - Logs of every block
+ * @async
+ * @returns {Promise<Map<string, LPInfo>>} Resulting pool states
+ */
+async function applyInOrder(blocks: PoolLog[][]) {
+  const { pools, subscriber } = createSubscriber();
+  for (const logs of blocks) {
+    await subscriber.handleBlock(logs);
+  }
+  return pools;
+}
+
+describe("Reorg undo history", () => {
+  before(() => {
+    configureLogging({ ...LOGGING, level: "error" });
+  });
+
+  const block10 = [
+    sync(11n * 10n ** 20n, 19n * 10n ** 23n)(10, "0x10a", 0),
+    mint(-120, 120, 5n * 10n ** 17n)(10, "0x10a", 1),
+  ];
+  const block11 = [
+    swap((2n ** 96n * 1001n) / 1000n, 15n * 10n ** 17n, 19)(11, "0x11a", 0),
+    sync(12n * 10n ** 20n, 18n * 10n ** 23n)(11, "0x11a", 1),
+  ];
+
+  it("rolls back blocks replaced under a new hash", async () => {
+    const { pools, calculator, subscriber } = createSubscriber();
+    const notices: ReorgNotice[] = [];
+    calculator.on(REORG_EVENT_NAME, (notice) => notices.push(notice));
+    await subscriber.handleBlock(block10);
+    await subscriber.handleBlock(block11);
+
+    const replacement10 = [
+      burn(-600, 600, 4n * 10n ** 17n)(10, "0x10b", 0),
+      sync(9n * 10n ** 20n, 21n * 10n ** 23n)(10, "0x10b", 1),
+    ];
+    await subscriber.handleBlock(replacement10);
+    assert.deepEqual(
+      notices.map((notice) => notice.orphanedBlocks),
+      [
+        [
+          { blockNumber: 11, blockHash: "0x11a" },
+          { blockNumber: 10, blockHash: "0x10a" },
+        ],
+      ],
+    );
+    assert.deepEqual(pools, await applyInOrder([replacement10]));
+
+    const replacement11 = [mint(-60, 60, 3n * 10n ** 17n)(11, "0x11b", 0)];
+    await subscriber.handleBlock(replacement11);
+    assert.deepEqual(pools, await applyInOrder([replacement10, replacement11]));
+  });
+
+  it("rolls back the block of a removed log", async () => {
+    const { pools, calculator, subscriber } = createSubscriber();
+    await subscriber.handleBlock(block10);
+    await subscriber.handleBlock(block11);
+
+    const reorg = once(calculator, REORG_EVENT_NAME);
+    subscriber.handlePoolEvent({ ...block10[1], removed: true });
+    const [notice] = (await reorg) as [ReorgNotice];
+    assert.equal(notice.fromBlock, 10);
+    assert.deepEqual(pools, await applyInOrder([]));
+
+    // The transaction was mined again without the removed log
+    const remined10 = [
+      sync(11n * 10n ** 20n, 19n * 10n ** 23n)(10, "0x10b", 0),
+    ];
+    await subscriber.handleBlock(remined10);
+    assert.deepEqual(pools, await applyInOrder([remined10]));
+  });
+
+  it("merges a late log into its already applied block", async () => {
+    const { pools, calculator, subscriber } = createSubscriber();
+    await subscriber.handleBlock([block10[0]]);
+    await subscriber.handleBlock(block11);
+    // The Mint of block 10 arrives after block 11, whose Swap reports the
+    // liquidity including it
+    await subscriber.handleBlock([block10[1]]);
+    assert.deepEqual(pools, await applyInOrder([block10, block11]));
+
+    // The undo entries hold the states of in-order application
+    await calculator.rollbackBlocks(11);
+    assert.deepEqual(pools, await applyInOrder([block10]));
+    await calculator.rollbackBlocks(10);
+    assert.deepEqual(pools, await applyInOrder([]));
+  });
+
+  it("applies a late swap before the liquidity changes of later blocks", async () => {
+    const { pools, subscriber } = createSubscriber();
+    const swap10 = swap(2n ** 96n / 2n, 9n * 10n ** 17n, -6932)(10, "0x10a", 1);
+    const block11Mint = [mint(-7200, -6000, 2n * 10n ** 17n)(11, "0x11a", 0)];
+    await subscriber.handleBlock([block10[0]]);
+    await subscriber.handleBlock(block11Mint);
+    await subscriber.handleBlock([swap10]);
+
+    assert.deepEqual(
+      pools,
+      await applyInOrder([[block10[0], swap10], block11Mint]),
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ConstantProductHop,
+  findOptimalTradeSize,
+  optimalConstantProductAmountIn,
+  searchOptimalAmountIn,
+} from "../src/utils/tradeSize";
+import { getAmountOut } from "../src/utils/uniswapV2";
+
+/** Fee fraction of a 0.3% pool */
+const FEE_NUMERATOR = 997_000n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+/**
+ * Builds the hops of a route from their reserves.
+ *
+ * @param {[bigint, bigint][]} reserves - Input and output reserve of every hop
+ * @param {bigint} [feeNumerator] - Fraction of the input kept after fees, in millionths
+ * @returns {ConstantProductHop[]} Hops in trade order
+ */
+function route(
+  reserves: [bigint, bigint][],
+  feeNumerator: bigint = FEE_NUMERATOR,
+): ConstantProductHop[] {
+  return reserves.map(([reserveIn, reserveOut]) => ({
+    reserveIn,
+    reserveOut,
+    feeNumerator,
+    feeDenominator: FEE_DENOMINATOR,
+  }));
+}
+
+/**
+ * Profit of a route without rounding, the function the closed form
+ * maximises, as a fraction.
+ *
+ * @param {ConstantProductHop[]} hops - Hops of the route
+ * @param {bigint} amountIn - Input amount
+ * @returns {[bigint, bigint]} Numerator and positive denominator of the profit
+ */
+function exactProfit(
+  hops: ConstantProductHop[],
+  amountIn: bigint,
+): [bigint, bigint] {
+  let numerator = amountIn;
+  let denominator = 1n;
+  for (const hop of hops) {
+    // g·x·Rout / (d·Rin + g·x) with x = numerator / denominator
+    const amountInWithFee = hop.feeNumerator * numerator;
+    numerator = amountInWithFee * hop.reserveOut;
+    denominator =
+      hop.feeDenominator * hop.reserveIn * denominator + amountInWithFee;
+  }
+  return [numerator - amountIn * denominator, denominator];
+}
+
+/**
+ * Scans every input up to a bound for the highest exact profit.
+ *
+ * @param {ConstantProductHop[]} hops - Hops of the route
+ * @param {bigint} maxAmountIn - Largest input scanned
+ * @returns {bigint} Smallest input with the highest profit, 0 if none is positive
+ */
+function bruteForceAmountIn(
+  hops: ConstantProductHop[],
+  maxAmountIn: bigint,
+): bigint {
+  let best = 0n;
+  let [bestNumerator, bestDenominator] = [0n, 1n];
+  for (let amountIn = 1n; amountIn <= maxAmountIn; amountIn++) {
+    const [numerator, denominator] = exactProfit(hops, amountIn);
+    if (numerator * bestDenominator > bestNumerator * denominator) {
+      best = amountIn;
+      [bestNumerator, bestDenominator] = [numerator, denominator];
+    }
+  }
+  return best;
+}
+
+/**
+ * Quotes a route with the router's integer maths.
+ *
+ * @param {ConstantProductHop[]} hops - Hops of the route
+ * @returns {(amountIn: bigint) => bigint} Route output for a given input
+ */
+function quoteRoute(hops: ConstantProductHop[]) {
+  return (amountIn: bigint) =>
+    hops.reduce(
+      (amount, hop) =>
+        amount > 0n
+          ? getAmountOut(
+              amount,
+              hop.reserveIn,
+              hop.reserveOut,
+              Number(hop.feeDenominator - hop.feeNumerator),
+            )
+          : 0n,
+      amountIn,
+    );
+}
+
+/** Profitable routes with small reserves, so every input can be scanned */
+const PROFITABLE_ROUTES = [
+  route([
+    [1000n, 1100n],
+    [1000n, 1000n],
+  ]),
+  route([
+    [5000n, 7000n],
+    [6000n, 5000n],
+  ]),
+  route([
+    [2000n, 3000n],
+    [3000n, 2500n],
+    [2500n, 2400n],
+  ]),
+  route([[300n, 900n]]),
+  route(
+    [
+      [4000n, 4100n],
+      [4000n, 4000n],
+    ],
+    FEE_DENOMINATOR,
+  ),
+];
+
+/** Routes on which no input size is profitable */
+const UNPROFITABLE_ROUTES = [
+  // Priced evenly: the fees make every trade lose
+  route([
+    [1000n, 1000n],
+    [1000n, 1000n],
+  ]),
+  // Cheaper than the fees of two hops
+  route([
+    [1000n, 1005n],
+    [1000n, 1000n],
+  ]),
+  // Priced evenly without fees: break-even only at the margin
+  route(
+    [
+      [1000n, 2000n],
+      [2000n, 1000n],
+    ],
+    FEE_DENOMINATOR,
+  ),
+];
+
+describe("Trade size optimisation", () => {
+  describe("optimalConstantProductAmountIn", () => {
+    PROFITABLE_ROUTES.forEach((hops, index) => {
+      it(`matches a brute-force scan of profitable route ${index}`, () => {
+        const amountIn = optimalConstantProductAmountIn(hops);
+        // The closed form floors the real optimum, which an integer scan
+        // finds on either side of it
+        const best = bruteForceAmountIn(hops, hops[0].reserveIn);
+        assert.ok(amountIn > 0n);
+        assert.ok(
+          best === amountIn || best === amountIn + 1n,
+          `closed form ${amountIn}, scan ${best}`,
+        );
+      });
+    });
+
+    UNPROFITABLE_ROUTES.forEach((hops, index) => {
+      it(`returns 0 for unprofitable route ${index}`, () => {
+        assert.equal(bruteForceAmountIn(hops, hops[0].reserveIn), 0n);
+        assert.equal(optimalConstantProductAmountIn(hops), 0n);
+      });
+    });
+
+    it("returns 0 for an empty route or an empty pool", () => {
+      assert.equal(optimalConstantProductAmountIn([]), 0n);
+      assert.equal(
+        optimalConstantProductAmountIn(
+          route([
+            [1000n, 1100n],
+            [0n, 1000n],
+          ]),
+        ),
+        0n,
+      );
+    });
+  });
+
+  describe("searchOptimalAmountIn", () => {
+    // Strictly concave profit x·(2·peak - x), with its maximum at `peak`
+    for (const peak of [1n, 37n, 1000n, 12345n]) {
+      for (const initialAmount of [1n, peak, peak * 50n]) {
+        it(`finds the peak at ${peak} from ${initialAmount}`, () => {
+          const quote = (amountIn: bigint) =>
+            amountIn + amountIn * (2n * peak - amountIn);
+          const profitAt = (amountIn: bigint) => quote(amountIn) - amountIn;
+
+          const amountIn = searchOptimalAmountIn(quote, initialAmount);
+          let best = 0n;
+          for (let amount = 1n; amount <= 3n * peak; amount++) {
+            if (profitAt(amount) > profitAt(best)) {
+              best = amount;
+            }
+          }
+          assert.equal(profitAt(amountIn), profitAt(best));
+        });
+      }
+    }
+
+    it("returns 0 when no input is profitable", () => {
+      for (const hops of UNPROFITABLE_ROUTES) {
+        assert.equal(searchOptimalAmountIn(quoteRoute(hops), 100n), 0n);
+      }
+    });
+  });
+
+  describe("findOptimalTradeSize", () => {
+    it("re-evaluates the closed-form amount with the quote", () => {
+      const hops = PROFITABLE_ROUTES[1];
+      const quote = quoteRoute(hops);
+      const result = findOptimalTradeSize(quote, 100n, hops);
+      const amountOut = quote(result.amountIn);
+      assert.deepEqual(result, {
+        amountIn: result.amountIn,
+        amountOut,
+        profit: amountOut - result.amountIn,
+        method: "closed-form",
+      });
+      assert.ok(result.profit > 0n);
+    });
+
+    it("returns a zero result when no input is profitable", () => {
+      for (const hops of UNPROFITABLE_ROUTES) {
+        const quote = quoteRoute(hops);
+        const zero = { amountIn: 0n, amountOut: 0n, profit: 0n };
+        assert.deepEqual(findOptimalTradeSize(quote, 100n, hops), {
+          ...zero,
+          method: "closed-form",
+        });
+        assert.deepEqual(findOptimalTradeSize(quote, 100n, null), {
+          ...zero,
+          method: "search",
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { V3PoolState } from "../src/types/interfaces";
+import {
+  applyLiquidityDelta,
+  getSqrtRatioAtTick,
+  MAX_TICK,
+  MIN_TICK,
+  Q96,
+  swapExactInput,
+} from "../src/utils/uniswapV3";
+
+const E18 = 10n ** 18n;
+
+/** Tick spacing of the 0.05% and 0.3% fee tiers */
+const TICK_SPACING = 60;
+
+/**
+ * Creates a pool at price 1 (tick 0) holding the given positions.
+ *
+ * @param {[number, number, bigint][]} positions - Lower tick, upper tick and liquidity of every position
+ * @param {number} [minTick] - Lowest tick of the loaded window
+ * @param {number} [maxTick] - Highest tick of the loaded window
+ * @returns {V3PoolState} Pool state
+ */
+function createPool(
+  positions: [number, number, bigint][],
+  minTick: number = MIN_TICK,
+  maxTick: number = MAX_TICK,
+): V3PoolState {
+  const state: V3PoolState = {
+    sqrtPriceX96: Q96,
+    tick: 0,
+    liquidity: 0n,
+    ticks: new Map(),
+    tickIndices: [],
+    minTick,
+    maxTick,
+  };
+  for (const [tickLower, tickUpper, liquidity] of positions) {
+    applyLiquidityDelta(state, tickLower, tickUpper, liquidity);
+  }
+  return state;
+}
+
+// Expected results of the swaps were computed with v3Swap of @uniswap/v3-sdk
+// 3.31.5 for the same pool states; the single-range swap is also the "exact
+// amount in that is fully spent" case of SwapMath.spec.ts in v3-core.
+describe("Uniswap V3 swap math", () => {
+  describe("swapExactInput", () => {
+    it("swaps within a single tick range", () => {
+      const state = createPool([[-887220, 887220, 2n * E18]]);
+      const result = swapExactInput(state, false, E18, 600, TICK_SPACING);
+
+      assert.deepEqual(result, {
+        amountIn: E18,
+        amountOut: 666399946655997866n,
+        sqrtPriceX96: 118818475322642227089037862318n,
+        tick: 8105,
+        liquidity: 2n * E18,
+      });
+    });
+
+    for (const [zeroForOne, sqrtPriceX96, tick] of [
+      [false, 83881551253287285388881672409n, 1141],
+      [true, 74832923826509271748042574773n, -1142],
+    ] as const) {
+      it(`crosses an initialized tick (zeroForOne = ${zeroForOne})`, () => {
+        const state = createPool([
+          [-1200, 1200, E18],
+          [-600, 600, 2n * E18],
+        ]);
+        const amountIn = 12n * 10n ** 16n;
+        const result = swapExactInput(
+          state,
+          zeroForOne,
+          amountIn,
+          3000,
+          TICK_SPACING,
+        );
+
+        // The position at ±600 drops out of the active liquidity
+        assert.deepEqual(result, {
+          amountIn,
+          amountOut: 114581733276432312n,
+          sqrtPriceX96,
+          tick,
+          liquidity: E18,
+        });
+      });
+    }
+
+    for (const [zeroForOne, edge, tick] of [
+      [false, 600, 600],
+      [true, -600, -601],
+    ] as const) {
+      it(`stops at the edge of the tick window (zeroForOne = ${zeroForOne})`, () => {
+        // The position reaches beyond the window, whose ticks are unknown
+        const state = createPool([[-6000, 6000, E18]], -600, 600);
+        const result = swapExactInput(
+          state,
+          zeroForOne,
+          E18,
+          3000,
+          TICK_SPACING,
+        );
+
+        assert.ok(result.amountIn > 0n && result.amountIn < E18);
+        assert.deepEqual(result, {
+          amountIn: result.amountIn,
+          amountOut: 29553010879137169n,
+          sqrtPriceX96: getSqrtRatioAtTick(edge),
+          tick,
+          liquidity: E18,
+        });
+
+        // Nothing more can be swapped from the edge
+        const next = swapExactInput(
+          { ...state, ...result },
+          zeroForOne,
+          E18,
+          3000,
+          TICK_SPACING,
+        );
+        assert.equal(next.amountIn, 0n);
+        assert.equal(next.amountOut, 0n);
+      });
+    }
+  });
+
+  describe("applyLiquidityDelta", () => {
+    it("adds a position around the current tick to the active liquidity", () => {
+      const state = createPool([[-600, 600, E18]]);
+      applyLiquidityDelta(state, -600, 1200, 2n * E18);
+
+      assert.equal(state.liquidity, 3n * E18);
+      assert.deepEqual(state.tickIndices, [-600, 600, 1200]);
+      assert.deepEqual(state.ticks.get(-600), {
+        liquidityGross: 3n * E18,
+        liquidityNet: 3n * E18,
+      });
+      assert.deepEqual(state.ticks.get(1200), {
+        liquidityGross: 2n * E18,
+        liquidityNet: -2n * E18,
+      });
+    });
+
+    it("only updates the ticks of a position out of range", () => {
+      const state = createPool([[-600, 600, E18]]);
+      applyLiquidityDelta(state, 600, 1200, E18);
+
+      assert.equal(state.liquidity, E18);
+      assert.deepEqual(state.ticks.get(600), {
+        liquidityGross: 2n * E18,
+        liquidityNet: 0n,
+      });
+    });
+
+    it("uninitializes ticks no position references", () => {
+      const state = createPool([
+        [-600, 600, E18],
+        [-1200, 600, E18],
+      ]);
+      applyLiquidityDelta(state, -1200, 600, -E18);
+
+      assert.equal(state.liquidity, E18);
+      assert.deepEqual(state.tickIndices, [-600, 600]);
+      assert.deepEqual(state, createPool([[-600, 600, E18]]));
+    });
+
+    it("ignores ticks outside the loaded window", () => {
+      const state = createPool([[-6000, 600, E18]], -600, 600);
+
+      assert.equal(state.liquidity, E18);
+      assert.deepEqual(state.tickIndices, [600]);
+    });
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * Configuration loading shared by GT_DB and check_arbitrage.
+ * Every package describes its settings with a schema; values are resolved
+ * from, in increasing order of precedence:
+ *
+ * 1. the defaults of the schema
+ * 2. the top level of a JSON or YAML config file
+ * 3. the selected profile of the config file
+ * 4. environment variables (UPPER_SNAKE_CASE of the setting name)
+ * 5. command line flags (--kebab-case of the setting name)
+ *
+ * The config file is read from `--config <file>`, CONFIG_FILE or the first
+ * of `config.json`, `config.yaml` and `config.yml` in the working directory.
+ * Files ending in `.yaml` or `.yml` are parsed as YAML, others as JSON. A
+ * profile is selected with `--profile <name>` or CONFIG_PROFILE, or by the
+ * `profile` entry of the file. Unknown settings and flags are rejected, and
+ * every value is validated; all problems are reported at once.
+ *
+ * This module has no dependencies so that both packages can use it.
+ *
+ * @module configLoader
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseYaml } from "./yaml";
+
+/**
+ * Type of a setting.
+ *
+ * @typedef {"string" | "number" | "integer" | "boolean" | "string[]"} SettingType
+ */
+export type SettingType = "string" | "number" | "integer" | "boolean" | "string[]";
+
+/**
+ * Definition of a single setting.
+ *
+ * @interface SettingSchema
+ */
+export interface SettingSchema {
+  /** Type of the value */
+  type: SettingType;
+
+  /** Value used when no source sets the setting */
+  default: string | number | boolean | string[];
+
+  /** Human readable description, shown in validation errors */
+  description: string;
+
+  /** Smallest allowed value of a number */
+  min?: number;
+
+  /** Largest allowed value of a number */
+  max?: number;
+
+  /** Allowed values of a string */
+  values?: readonly string[];
+
+  /** Pattern a string (or every item of a list) must match */
+  pattern?: RegExp;
+
+  /** Only read from the config file and the environment, never from a flag, and never shown in errors */
+  secret?: boolean;
+}
+
+/**
+ * Schema of a package's settings, keyed by camelCase setting name.
+ *
+ * @typedef {Record<string, SettingSchema>} ConfigSchema
+ */
+export type ConfigSchema = Record<string, SettingSchema>;
+
+/**
+ * Value type of a setting.
+ */
+type SettingValue<S extends SettingSchema> = S["type"] extends "string"
+  ? string
+  : S["type"] extends "number" | "integer"
+    ? number
+    : S["type"] extends "boolean"
+      ? boolean
+      : string[];
+
+/**
+ * Resolved settings of a schema.
+ */
+export type ConfigValues<S extends ConfigSchema> = {
+  [K in keyof S]: SettingValue<S[K]>;
+};
+
+/**
+ * Options of {@link loadConfig}.
+ *
+ * @interface LoadConfigOptions
+ */
+export interface LoadConfigOptions<S extends ConfigSchema> {
+  /** Command line arguments, defaults to process.argv */
+  argv?: string[];
+
+  /** Environment variables, defaults to process.env */
+  env?: Record<string, string | undefined>;
+
+  /** Directory the default config file is looked up in, defaults to the working directory */
+  cwd?: string;
+
+  /** Flags of the entry points' own arguments, without dashes; each takes a value */
+  commandFlags?: readonly string[];
+
+  /** Checks between settings, returning one message per problem */
+  validate?: (values: ConfigValues<S>) => string[];
+}
+
+/**
+ * Result of {@link loadConfig}.
+ *
+ * @interface LoadedConfig
+ */
+export interface LoadedConfig<S extends ConfigSchema> {
+  /** Resolved and validated settings */
+  values: ConfigValues<S>;
+
+  /** Config file that was read, null if none */
+  file: string | null;
+
+  /** Selected profile, null if none */
+  profile: string | null;
+}
+
+/**
+ * Error thrown when the configuration is invalid. Lists every problem found.
+ */
+export class ConfigError extends Error {
+  /** Individual problems */
+  readonly issues: string[];
+
+  /**
+   * @param {string[]} issues - Problems found in the configuration
+   */
+  constructor(issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`,
+    );
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+/** Default config file names, looked up in the working directory in this order */
+const DEFAULT_CONFIG_FILES = ["config.json", "config.yaml", "config.yml"];
+
+/** Flags of the loader itself; each takes a value */
+const LOADER_FLAGS = ["config", "profile"];
+
+/** Entries of the config file that are not settings */
+const RESERVED_KEYS = new Set(["profile", "profiles", "$schema"]);
+
+/**
+ * Converts a camelCase setting name to the name of its environment variable.
+ *
+ * @param {string} name - Setting name
+ * @returns {string} UPPER_SNAKE_CASE name
+ */
+export function toEnvName(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+/**
+ * Converts a camelCase setting name to its command line flag.
+ *
+ * @param {string} name - Setting name
+ * @returns {string} kebab-case flag, without dashes
+ */
+export function toFlagName(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+/**
+ * Parses `--name value` and `--name=value` flags, and bare `--name` flags of
+ * boolean settings. Whether a flag takes the next argument as its value is
+ * decided by its type, so a boolean flag never swallows a positional
+ * argument. Arguments that are not flags are left to the entry point, and
+ * `--` ends the flags.
+ *
+ * @param {string[]} argv - Command line arguments
+ * @param {Map<string, boolean>} takesValue - Whether each known flag takes a value, by name
+ * @returns {{ flags: Map<string, string>; unknown: string[]; issues: string[] }} Flag values by name (bare flags map to "true"), unknown flag names and other problems
+ */
+function parseFlags(
+  argv: string[],
+  takesValue: Map<string, boolean>,
+): { flags: Map<string, string>; unknown: string[]; issues: string[] } {
+  const flags = new Map<string, string>();
+  const unknown: string[] = [];
+  const issues: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--") break;
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) continue;
+    const [, name, inlineValue] = match;
+    if (!takesValue.has(name)) {
+      unknown.push(name);
+    } else if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+    } else if (!takesValue.get(name)) {
+      flags.set(name, "true");
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      flags.set(name, argv[++i]);
+    } else {
+      issues.push(`Flag --${name} needs a value`);
+    }
+  }
+  return { flags, unknown, issues };
+}
+
+/**
+ * Converts a value read from the environment or the command line to the
+ * type of a setting.
+ *
+ * @param {SettingSchema} setting - Setting definition
+ * @param {string} raw - Raw text
+ * @returns {unknown} Converted value, or the raw text if it cannot be converted
+ */
+function fromText(setting: SettingSchema, raw: string): unknown {
+  switch (setting.type) {
+    case "number":
+    case "integer":
+      return raw.trim() === "" ? raw : Number(raw);
+    case "boolean":
+      if (/^(true|1|yes)$/i.test(raw)) return true;
+      if (/^(false|0|no)$/i.test(raw)) return false;
+      return raw;
+    case "string[]":
+      return raw
+        .split(/[\s,]+/)
+        .map((item) => item.trim())
+        .filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Checks a value against its setting definition.
+ *
+ * @param {SettingSchema} setting - Setting definition
+ * @param {unknown} value - Value to check
+ * @returns {string | null} Problem description, null if the value is valid
+ */
+function checkValue(setting: SettingSchema, value: unknown): string | null {
+  const shown = JSON.stringify(value);
+  switch (setting.type) {
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `expected a number, got ${shown}`;
+      }
+      if (setting.type === "integer" && !Number.isInteger(value)) {
+        return `expected an integer, got ${shown}`;
+      }
+      if (setting.min !== undefined && value < setting.min) {
+        return `must be at least ${setting.min}, got ${shown}`;
+      }
+      if (setting.max !== undefined && value > setting.max) {
+        return `must be at most ${setting.max}, got ${shown}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : `expected true or false, got ${shown}`;
+    case "string[]":
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        return `expected a list of strings, got ${shown}`;
+      }
+      if (setting.pattern) {
+        const invalid = value.find((item) => !setting.pattern!.test(item));
+        if (invalid !== undefined) {
+          return `item ${JSON.stringify(invalid)} does not match ${setting.pattern}`;
+        }
+      }
+      return null;
+    default:
+      if (typeof value !== "string") {
+        return `expected a string, got ${shown}`;
+      }
+      if (setting.values && !setting.values.includes(value)) {
+        return `must be one of ${setting.values.map((item) => JSON.stringify(item)).join(", ")}, got ${shown}`;
+      }
+      if (setting.pattern && !setting.pattern.test(value)) {
+        return `${shown} does not match ${setting.pattern}`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Reads and parses a JSON or YAML config file, depending on its extension.
+ *
+ * @param {string} file - Path of the file
+ * @returns {Record<string, unknown>} Parsed file
+ * @throws {ConfigError} If the file cannot be read or parsed, or is not an object
+ */
+function readConfigFile(file: string): Record<string, unknown> {
+  const yaml = /\.ya?ml$/i.test(file);
+  let parsed: unknown;
+  try {
+    const text = fs.readFileSync(file, "utf8");
+    parsed = yaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError([
+      `Cannot read config file ${file}: ${(error as Error).message}`,
+    ]);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([
+      `Config file ${file} must contain ${yaml ? "a YAML mapping" : "a JSON object"}`,
+    ]);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Resolves and validates the settings of a schema.
+ *
+ * @param {S} schema - Settings of the package
+ * @param {LoadConfigOptions<S>} options - Sources and extra validation
+ * @returns {LoadedConfig<S>} Resolved settings, config file and profile
+ * @throws {ConfigError} If the file, the profile or any value is invalid
+ */
+export function loadConfig<S extends ConfigSchema>(
+  schema: S,
+  options: LoadConfigOptions<S> = {},
+): LoadedConfig<S> {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+
+  // Secret settings have no flag, as their values would show in the process list
+  const takesValue = new Map<string, boolean>();
+  const secretFlags = new Map<string, string>();
+  for (const name of [...LOADER_FLAGS, ...(options.commandFlags ?? [])]) {
+    takesValue.set(name, true);
+  }
+  for (const [name, setting] of Object.entries(schema)) {
+    if (setting.secret) {
+      secretFlags.set(toFlagName(name), name);
+    } else {
+      takesValue.set(toFlagName(name), setting.type !== "boolean");
+    }
+  }
+  const parsedFlags = parseFlags(options.argv ?? process.argv.slice(2), takesValue);
+  const flags = parsedFlags.flags;
+  const issues: string[] = [...parsedFlags.issues];
+  const unknownFlags: string[] = [];
+  for (const flagName of parsedFlags.unknown) {
+    const secret = secretFlags.get(flagName);
+    if (secret) {
+      issues.push(`${secret} cannot be set with a flag, use ${toEnvName(secret)} or the config file`);
+    } else {
+      unknownFlags.push(flagName);
+    }
+  }
+  if (unknownFlags.length > 0) {
+    issues.push(
+      `Unknown flag${unknownFlags.length > 1 ? "s" : ""} ${unknownFlags.map((name) => `--${name}`).join(", ")}` +
+        ` (valid flags: ${Array.from(takesValue.keys(), (name) => `--${name}`).join(", ")})`,
+    );
+  }
+
+  // Locate the config file; an explicitly named file must exist
+  const requestedFile = flags.get("config") ?? env.CONFIG_FILE;
+  let file: string | null = null;
+  if (requestedFile) {
+    file = path.resolve(cwd, requestedFile);
+    if (!fs.existsSync(file)) {
+      throw new ConfigError([`Config file ${file} does not exist`]);
+    }
+  } else {
+    file =
+      DEFAULT_CONFIG_FILES.map((name) => path.resolve(cwd, name)).find((candidate) =>
+        fs.existsSync(candidate),
+      ) ?? null;
+  }
+  const contents = file ? readConfigFile(file) : {};
+
+  // Select the profile
+  const profiles = (contents.profiles ?? {}) as Record<string, unknown>;
+  const profile =
+    flags.get("profile") ??
+    env.CONFIG_PROFILE ??
+    (typeof contents.profile === "string" ? contents.profile : null);
+  if (profile !== null && !Object.prototype.hasOwnProperty.call(profiles, profile)) {
+    const known = Object.keys(profiles);
+    throw new ConfigError([
+      `Unknown profile "${profile}"` +
+        (known.length ? ` (defined: ${known.join(", ")})` : " (no profiles defined)"),
+    ]);
+  }
+
+  // Collect the layers of the file, lowest precedence first
+  const layers: { source: string; settings: Record<string, unknown> }[] = [
+    { source: file ?? "", settings: contents },
+  ];
+  if (profile !== null) {
+    layers.push({
+      source: `profile "${profile}" of ${file}`,
+      settings: profiles[profile] as Record<string, unknown>,
+    });
+  }
+  for (const layer of layers) {
+    for (const key of Object.keys(layer.settings ?? {})) {
+      if (layer.settings === contents && RESERVED_KEYS.has(key)) continue;
+      if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+        issues.push(`Unknown setting "${key}" in ${layer.source}`);
+      }
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [name, setting] of Object.entries(schema)) {
+    let value: unknown = setting.default;
+    let source = "default";
+
+    for (const layer of layers) {
+      if (layer.settings && layer.settings[name] !== undefined) {
+        value = layer.settings[name];
+        source = layer.source;
+      }
+    }
+    const envName = toEnvName(name);
+    if (env[envName] !== undefined && env[envName] !== "") {
+      value = fromText(setting, env[envName]!);
+      source = `environment variable ${envName}`;
+    }
+    const flagName = toFlagName(name);
+    if (flags.has(flagName)) {
+      value = fromText(setting, flags.get(flagName)!);
+      source = `flag --${flagName}`;
+    }
+
+    const problem = checkValue(setting, value);
+    if (problem) {
+      // A secret may be mistyped, but must not end up in the logs
+      const shown = setting.secret ? "the value is invalid" : problem;
+      issues.push(`${name} (${setting.description}, from ${source}): ${shown}`);
+    }
+    values[name] = value;
+  }
+
+  if (issues.length === 0 && options.validate) {
+    issues.push(...options.validate(values as ConfigValues<S>));
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return { values: values as ConfigValues<S>, file, profile };
+}
+
+/**
+ * Resolves the settings of a schema, printing the problems and exiting the
+ * process if the configuration is invalid. Meant for the constants module
+ * of a package, which is loaded before any error handler is in place.
+ *
+ * @param {S} schema - Settings of the package
+ * @param {LoadConfigOptions<S>} options - Sources and extra validation
+ * @returns {LoadedConfig<S>} Resolved settings, config file and profile
+ */
+export function loadConfigOrExit<S extends ConfigSchema>(
+  schema: S,
+  options: LoadConfigOptions<S> = {},
+): LoadedConfig<S> {
+  try {
+    return loadConfig(schema, options);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Parser of the YAML subset used by config files, so that the config loader
+ * stays free of dependencies. Supported are:
+ *
+ * - block mappings (`key: value`) and block sequences (`- item`), nested by
+ *   indentation with spaces
+ * - flow sequences of scalars (`[a, "b", 3]`) and empty flow mappings (`{}`)
+ * - plain, single-quoted and double-quoted scalars; `true`/`false`,
+ *   `null`/`~` and decimal numbers are converted, everything else, including
+ *   hexadecimal strings such as addresses, stays a string
+ * - `#` comments and a leading `---` document marker
+ *
+ * Anchors, aliases, tags, multi-line scalars and flow mappings with entries
+ * are rejected with the line they appear on.
+ *
+ * @module yaml
+ */
+
+/**
+ * Error thrown when a document is not valid in the supported subset.
+ */
+export class YamlError extends Error {
+  /**
+   * @param {string} message - Problem found
+   * @param {number} line - 1-based line number of the problem
+   */
+  constructor(message: string, line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = "YamlError";
+  }
+}
+
+/**
+ * A non-empty line of the document, without its comment.
+ */
+interface Line {
+  /** Number of leading spaces */
+  indent: number;
+
+  /** Content after the indentation */
+  text: string;
+
+  /** 1-based line number */
+  number: number;
+}
+
+/** Decimal number, as a plain scalar */
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/** Key of a mapping entry and the rest of the line */
+const ENTRY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-?:][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/;
+
+/**
+ * Removes the comment from a line, ignoring `#` inside quoted scalars.
+ *
+ * @param {string} text - Line content
+ * @returns {string} Content before the comment, without trailing spaces
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote === '"' && char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Splits a document into its non-empty lines.
+ *
+ * @param {string} source - Document text
+ * @returns {Line[]} Lines with content
+ * @throws {YamlError} If a line is indented with tabs
+ */
+function toLines(source: string): Line[] {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const text = stripComment(raw);
+    if (text.trim() === "") return;
+    if (lines.length === 0 && text === "---") return;
+    const indent = text.length - text.trimStart().length;
+    if (text.slice(0, indent).includes("\t")) {
+      throw new YamlError("indentation must use spaces", index + 1);
+    }
+    lines.push({ indent, text: text.slice(indent), number: index + 1 });
+  });
+  return lines;
+}
+
+/**
+ * Splits the items of a flow sequence at the commas outside quotes.
+ *
+ * @param {string} body - Text between the brackets
+ * @returns {string[]} Item texts
+ */
+function splitFlowItems(body: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote === '"' && char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(body.slice(start));
+  return items.map((item) => item.trim());
+}
+
+/**
+ * Converts the text of a scalar or a flow collection to its value.
+ *
+ * @param {string} text - Scalar text
+ * @param {number} line - Line number for error messages
+ * @returns {unknown} Parsed value
+ * @throws {YamlError} If the text uses an unsupported construct
+ */
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new YamlError(`invalid double-quoted string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      throw new YamlError(`invalid single-quoted string ${text}`, line);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[")) {
+    if (!text.endsWith("]")) {
+      throw new YamlError("flow sequences must end on the same line", line);
+    }
+    const body = text.slice(1, -1).trim();
+    if (body === "") return [];
+    return splitFlowItems(body).map((item) => {
+      if (/^[[{]/.test(item)) {
+        throw new YamlError("nested flow collections are not supported", line);
+      }
+      return parseScalar(item, line);
+    });
+  }
+  if (text.startsWith("{")) {
+    if (/^\{\s*\}$/.test(text)) return {};
+    throw new YamlError("flow mappings are not supported, use a block mapping", line);
+  }
+  if (/^[&*!|>%@`]/.test(text)) {
+    throw new YamlError(`unsupported syntax ${JSON.stringify(text)}`, line);
+  }
+
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^(null|Null|NULL|~)$/.test(text)) return null;
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  return text;
+}
+
+/**
+ * Tells whether a line is an item of a block sequence.
+ *
+ * @param {Line} line - Line to check
+ * @returns {boolean} True for `-` and `- item`
+ */
+function isSequenceItem(line: Line): boolean {
+  return line.text === "-" || line.text.startsWith("- ");
+}
+
+/**
+ * Parser state: the lines of the document and the next one to read.
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private lines: Line[]) {}
+
+  /**
+   * Parses the whole document.
+   *
+   * @returns {unknown} Document value, null if it is empty
+   * @throws {YamlError} If a line cannot be parsed
+   */
+  parseDocument(): unknown {
+    if (this.lines.length === 0) return null;
+    const first = this.lines[0];
+    const value =
+      isSequenceItem(first) || ENTRY_PATTERN.test(first.text)
+        ? this.parseBlock(first.indent)
+        : this.parseSingleScalar();
+    const extra = this.lines[this.position];
+    if (extra) {
+      throw new YamlError("unexpected content after the document", extra.number);
+    }
+    return value;
+  }
+
+  /**
+   * Parses a lone scalar document.
+   *
+   * @returns {unknown} Scalar value
+   */
+  private parseSingleScalar(): unknown {
+    const line = this.lines[this.position++];
+    return parseScalar(line.text, line.number);
+  }
+
+  /**
+   * Parses the block mapping or sequence starting at the current line.
+   *
+   * @param {number} indent - Indentation of the block
+   * @returns {unknown} Mapping or sequence
+   */
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.position];
+    return isSequenceItem(line) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  /**
+   * Parses the value of an entry or item whose text ended after its key or
+   * dash: a nested block if one follows, null otherwise.
+   *
+   * @param {number} parentIndent - Indentation of the entry or item
+   * @param {boolean} allowSequenceAtParent - Whether a sequence may start at the parent's indentation
+   * @returns {unknown} Nested value
+   */
+  private parseNested(parentIndent: number, allowSequenceAtParent: boolean): unknown {
+    const next = this.lines[this.position];
+    if (!next) return null;
+    if (next.indent > parentIndent) return this.parseBlock(next.indent);
+    // `key:` followed by `- item` at the key's indentation is a sequence
+    if (allowSequenceAtParent && next.indent === parentIndent && isSequenceItem(next)) {
+      return this.parseSequence(parentIndent);
+    }
+    return null;
+  }
+
+  /**
+   * Parses a block mapping.
+   *
+   * @param {number} indent - Indentation of its keys
+   * @returns {Record<string, unknown>} Mapping
+   * @throws {YamlError} If a line is not an entry or a key repeats
+   */
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new YamlError("unexpected indentation", line.number);
+      }
+      if (isSequenceItem(line)) break;
+
+      const match = ENTRY_PATTERN.exec(line.text);
+      if (!match) {
+        throw new YamlError(`expected "key: value", got ${JSON.stringify(line.text)}`, line.number);
+      }
+      const key = String(/^["']/.test(match[1]) ? parseScalar(match[1], line.number) : match[1]);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YamlError(`duplicate key ${JSON.stringify(key)}`, line.number);
+      }
+      this.position++;
+      mapping[key] =
+        match[2] !== undefined ? parseScalar(match[2], line.number) : this.parseNested(indent, true);
+    }
+    return mapping;
+  }
+
+  /**
+   * Parses a block sequence. An item may hold a nested block or start a
+   * mapping on its own line (`- key: value`).
+   *
+   * @param {number} indent - Indentation of its dashes
+   * @returns {unknown[]} Sequence
+   */
+  private parseSequence(indent: number): unknown[] {
+    const sequence: unknown[] = [];
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent !== indent || !isSequenceItem(line)) {
+        if (line.indent > indent) {
+          throw new YamlError("unexpected indentation", line.number);
+        }
+        break;
+      }
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.position++;
+        sequence.push(this.parseNested(indent, false));
+      } else if (isSequenceItem({ ...line, text: rest }) || ENTRY_PATTERN.test(rest)) {
+        // The item's content continues at the column after the dash
+        const column = indent + line.text.length - rest.length;
+        this.lines[this.position] = { ...line, indent: column, text: rest };
+        sequence.push(this.parseBlock(column));
+      } else {
+        this.position++;
+        sequence.push(parseScalar(rest, line.number));
+      }
+    }
+    return sequence;
+  }
+}
+
+/**
+ * Parses a YAML document of the supported subset.
+ *
+ * @param {string} source - Document text
+ * @returns {unknown} Parsed value, null for an empty document
+ * @throws {YamlError} If the document uses unsupported syntax or is malformed
+ */
+export function parseYaml(source: string): unknown {
+  return new Parser(toLines(source)).parseDocument();
+}
@@ -0,0 +1,575 @@
+/**
+ * Schema of the database written by GT_DB and read by check_arbitrage.
+ * The schema is built by an ordered list of forward migrations; every
+ * applied migration is recorded in the schema_version table, so a database
+ * can be brought up to date from any earlier version, including databases
+ * created before versioning existed.
+ *
+ * Both packages use a different SQLite driver (better-sqlite3 and sqlite3),
+ * so this module only holds SQL, row types and pure helpers:
+ *
+ * - migrations run on any synchronous connection implementing
+ *   MigrationConnection (GT_DB)
+ * - typed queries describe the SQL and the row type of every read; each
+ *   package executes them with its own driver
+ * - checkSchemaVersion tells a reader whether it can use a database
+ *
+ * This module has no dependencies so that both packages can use it.
+ *
+ * @module schema
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Tables of the shared schema.
+ */
+export const TABLES = {
+  TOKEN_INFO: "TokenInfo", // Token details like address, symbol and decimals.
+  LP_INFO: "LPInfo", // Liquidity pools and their tokens.
+  ROUTE: "Route", // Routes for token swaps.
+  INGESTION_RUN: "IngestionRun", // Summary of every GT_DB ingestion run.
+  TOKEN_METADATA: "TokenMetadata", // Cache of token metadata fetched on-chain.
+  FACTORY_CURSOR: "FactoryCursor", // Last block scanned for new pools of every factory.
+  OPPORTUNITY: "Opportunity", // Arbitrage opportunities detected by check_arbitrage.
+  SCHEMA_VERSION: "schema_version", // Migrations applied to the database.
+} as const;
+
+/**
+ * Key of a table of the shared schema.
+ *
+ * @typedef {keyof typeof TABLES} TableName
+ */
+export type TableName = keyof typeof TABLES;
+
+/**
+ * Type of a liquidity pool: constant-product pair (V2) or
+ * concentrated-liquidity pool (V3).
+ *
+ * @typedef {"v2" | "v3"} PoolType
+ */
+export type PoolType = "v2" | "v3";
+
+/**
+ * Row of the TokenInfo table.
+ *
+ * @interface TokenInfoRow
+ */
+export interface TokenInfoRow {
+  /** Blockchain address of the token, lowercase */
+  address: string;
+
+  /** Token symbol (e.g., "ETH", "USDC") */
+  symbol: string;
+
+  /** Full name of the token */
+  name: string;
+
+  /** Number of decimal places the token supports */
+  decimals: number;
+}
+
+/**
+ * Row of the LPInfo table.
+ *
+ * @interface LPInfoRow
+ */
+export interface LPInfoRow {
+  /** Blockchain address of the pool, lowercase */
+  address: string;
+
+  /** Address of the first token in the pool (token0 of the pool contract) */
+  token1_address: string;
+
+  /** Address of the second token in the pool (token1 of the pool contract) */
+  token2_address: string;
+
+  /** Pool type, decides which swap math applies */
+  pool_type: PoolType;
+
+  /** Address of the factory that deployed the pool */
+  factory: string | null;
+
+  /** Swap fee in hundredths of a bip, e.g. 3000 = 0.3% (null if unknown) */
+  fee: number | null;
+
+  /** V3 tick spacing (null for V2 pools) */
+  tick_spacing: number | null;
+}
+
+/**
+ * Path of a route: every hop is the token received and the pools it can be
+ * swapped through.
+ *
+ * @typedef {Array<[string, string[]]>} RoutePath
+ */
+export type RoutePath = Array<[string, string[]]>;
+
+/**
+ * Row of the Route table.
+ *
+ * @interface RouteRow
+ */
+export interface RouteRow {
+  /** Route id, stable for the lifetime of the route */
+  id: number;
+
+  /** Serialized RoutePath, see serializeRoute */
+  path: string;
+}
+
+/**
+ * Row of the TokenMetadata table. A getter that failed leaves its field null.
+ *
+ * @interface TokenMetadataRow
+ */
+export interface TokenMetadataRow {
+  /** Blockchain address of the token, lowercase */
+  address: string;
+
+  /** Result of symbol(), as string or bytes32 */
+  symbol: string | null;
+
+  /** Result of name(), as string or bytes32 */
+  name: string | null;
+
+  /** Result of decimals() */
+  decimals: number | null;
+}
+
+/**
+ * A read of the shared schema: the SQL, its parameters and the type of the
+ * returned rows. Executed by each package with its own driver.
+ *
+ * @interface Query
+ */
+export interface Query<Row> {
+  /** SQL statement */
+  sql: string;
+
+  /** Positional parameters of the statement */
+  params: unknown[];
+
+  /** Never set; carries the row type */
+  readonly row?: Row;
+}
+
+/**
+ * Synchronous connection the migrations run on.
+ *
+ * @interface MigrationConnection
+ */
+export interface MigrationConnection {
+  /** Runs one or more statements without parameters */
+  exec(sql: string): void;
+
+  /** Runs a query and returns all rows */
+  all<Row>(sql: string, ...params: unknown[]): Row[];
+
+  /** Runs a statement and returns the number of changed rows */
+  run(sql: string, ...params: unknown[]): number;
+}
+
+/**
+ * Forward migration of the schema.
+ *
+ * @interface Migration
+ */
+export interface Migration {
+  /** Version of the schema once the migration is applied */
+  version: number;
+
+  /** What the migration changes */
+  description: string;
+
+  /** Applies the migration */
+  up(db: MigrationConnection): void;
+}
+
+/**
+ * Error raised when a database cannot be used with this schema version.
+ *
+ * @class SchemaVersionError
+ */
+export class SchemaVersionError extends Error {
+  /**
+   * Creates a new SchemaVersionError.
+   *
+   * @param {number} found - Version of the database, 0 if unversioned
+   * @param {number} expected - Version this code was built for
+   */
+  constructor(
+    public readonly found: number,
+    public readonly expected: number,
+  ) {
+    super(
+      found < expected
+        ? `Database schema version ${found} is older than the required version ${expected}; run GT_DB to migrate it`
+        : `Database schema version ${found} is newer than the supported version ${expected}; update this package`,
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Serializes a route in canonical form: trimmed lowercase addresses, as JSON.
+ *
+ * @param {RoutePath} route - Route to serialize
+ * @returns {string} JSON stored in the path column of the Route table
+ */
+export function serializeRoute(route: RoutePath): string {
+  return JSON.stringify(
+    route.map(([token, pools]): [string, string[]] => [
+      token.toLowerCase().trim(),
+      pools.map((pool) => pool.toLowerCase().trim()),
+    ]),
+  );
+}
+
+/**
+ * Parses the path column of the Route table.
+ *
+ * @param {string} path - Serialized route
+ * @returns {RoutePath} Route
+ */
+export function parseRoutePath(path: string): RoutePath {
+  return JSON.parse(path) as RoutePath;
+}
+
+/**
+ * Computes the canonical hash identifying a route, so the same route is
+ * stored once however often it is ingested.
+ *
+ * @param {RoutePath} route - Route to hash
+ * @returns {string} SHA-256 of the canonical serialization, as hex
+ */
+export function routeHash(route: RoutePath): string {
+  return createHash("sha256").update(serializeRoute(route)).digest("hex");
+}
+
+/**
+ * Adds the given columns to a table when they are not present yet. Used by
+ * migrations whose columns older code may already have added.
+ *
+ * @param {MigrationConnection} db - Connection
+ * @param {string} table - Table name
+ * @param {Record<string, string>} columns - Column definitions by name
+ */
+function addMissingColumns(
+  db: MigrationConnection,
+  table: string,
+  columns: Record<string, string>,
+): void {
+  const existing = new Set(
+    db.all<{ name: string }>(`PRAGMA table_info(${table})`).map((c) => c.name),
+  );
+  Object.entries(columns)
+    .filter(([name]) => !existing.has(name))
+    .forEach(([name, definition]) =>
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`),
+    );
+}
+
+/**
+ * Migrations in version order. Existing migrations must never be changed;
+ * schema changes are new migrations appended to the list.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: "Create token, pool and route tables",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${TABLES.TOKEN_INFO} (
+          address TEXT PRIMARY KEY,
+          symbol TEXT NOT NULL,
+          name TEXT NOT NULL,
+          decimals INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS ${TABLES.LP_INFO} (
+          address TEXT PRIMARY KEY,
+          token1_address TEXT,
+          token2_address TEXT
+        );
+        CREATE TABLE IF NOT EXISTS ${TABLES.ROUTE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          path TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Add pool type, factory, fee and tick spacing to pools",
+    up(db) {
+      addMissingColumns(db, TABLES.LP_INFO, {
+        pool_type: "TEXT NOT NULL DEFAULT 'v2'",
+        factory: "TEXT",
+        fee: "INTEGER",
+        tick_spacing: "INTEGER",
+      });
+    },
+  },
+  {
+    version: 3,
+    description: "Track ingestion runs and identify routes by hash",
+    up(db) {
+      addMissingColumns(db, TABLES.TOKEN_INFO, { last_seen_run: "INTEGER" });
+      addMissingColumns(db, TABLES.LP_INFO, { last_seen_run: "INTEGER" });
+      addMissingColumns(db, TABLES.ROUTE, {
+        hash: "TEXT",
+        last_seen_run: "INTEGER",
+      });
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${TABLES.INGESTION_RUN} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME,
+          summary TEXT
+        );
+      `);
+
+      // Hash existing routes and drop duplicates, keeping the oldest row
+      // whose id check_arbitrage may have recorded
+      db.all<RouteRow>(
+        `SELECT id, path FROM ${TABLES.ROUTE} WHERE hash IS NULL`,
+      ).forEach((route) =>
+        db.run(
+          `UPDATE ${TABLES.ROUTE} SET hash = ? WHERE id = ?`,
+          routeHash(parseRoutePath(route.path)),
+          route.id,
+        ),
+      );
+      db.run(
+        `DELETE FROM ${TABLES.ROUTE} WHERE id NOT IN (SELECT MIN(id) FROM ${TABLES.ROUTE} GROUP BY hash)`,
+      );
+      db.exec(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_route_hash ON ${TABLES.ROUTE}(hash)`,
+      );
+    },
+  },
+  {
+    version: 4,
+    description: "Cache token metadata fetched on-chain",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${TABLES.TOKEN_METADATA} (
+          address TEXT PRIMARY KEY,
+          symbol TEXT,
+          name TEXT,
+          decimals INTEGER,
+          fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Track the blocks scanned for pools of every factory",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${TABLES.FACTORY_CURSOR} (
+          factory TEXT PRIMARY KEY,
+          last_block INTEGER NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Store the opportunities detected by check_arbitrage",
+    up(db) {
+      // Tables created by check_arbitrage before this migration may lack
+      // the later columns; every earlier opportunity started from WETH
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${TABLES.OPPORTUNITY} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          path_id TEXT NOT NULL,
+          path_description TEXT NOT NULL,
+          block_number INTEGER,
+          transaction_hash TEXT,
+          trigger_pool TEXT NOT NULL,
+          hops TEXT NOT NULL,
+          gross_profit TEXT NOT NULL,
+          gross_profit_eth REAL NOT NULL,
+          net_profit_eth REAL NOT NULL,
+          timestamp INTEGER NOT NULL
+        );
+      `);
+      addMissingColumns(db, TABLES.OPPORTUNITY, {
+        base_token:
+          "TEXT NOT NULL DEFAULT '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2'",
+        net_profit_usd: "REAL",
+        invalidated: "INTEGER NOT NULL DEFAULT 0",
+      });
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_opportunity_timestamp ON ${TABLES.OPPORTUNITY}(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_opportunity_path_id ON ${TABLES.OPPORTUNITY}(path_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "Store the execution plan of every opportunity",
+    up(db) {
+      addMissingColumns(db, TABLES.OPPORTUNITY, { plan: "TEXT" });
+    },
+  },
+];
+
+/** Schema version built by the migrations above */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Query returning the schema_version table if it exists; databases created
+ * before versioning have none.
+ *
+ * @returns {Query<{ name: string }>} Query
+ */
+export function selectSchemaTable(): Query<{ name: string }> {
+  return {
+    sql: "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    params: [TABLES.SCHEMA_VERSION],
+  };
+}
+
+/**
+ * Query returning the version of the database. Only valid once
+ * selectSchemaTable found the schema_version table.
+ *
+ * @returns {Query<{ version: number | null }>} Query
+ */
+export function selectSchemaVersion(): Query<{ version: number | null }> {
+  return {
+    sql: `SELECT MAX(version) AS version FROM ${TABLES.SCHEMA_VERSION}`,
+    params: [],
+  };
+}
+
+/**
+ * Query returning every token.
+ *
+ * @returns {Query<TokenInfoRow>} Query
+ */
+export function selectTokens(): Query<TokenInfoRow> {
+  return {
+    sql: `SELECT address, symbol, name, decimals FROM ${TABLES.TOKEN_INFO}`,
+    params: [],
+  };
+}
+
+/**
+ * Query returning every pool.
+ *
+ * @returns {Query<LPInfoRow>} Query
+ */
+export function selectPools(): Query<LPInfoRow> {
+  return {
+    sql: `SELECT address, token1_address, token2_address, pool_type, factory, fee, tick_spacing FROM ${TABLES.LP_INFO}`,
+    params: [],
+  };
+}
+
+/**
+ * Query returning a single pool.
+ *
+ * @param {string} address - Pool address
+ * @returns {Query<LPInfoRow>} Query
+ */
+export function selectPool(address: string): Query<LPInfoRow> {
+  return {
+    sql: `${selectPools().sql} WHERE address = ?`,
+    params: [address.toLowerCase()],
+  };
+}
+
+/**
+ * Query returning a single token.
+ *
+ * @param {string} address - Token address
+ * @returns {Query<TokenInfoRow>} Query
+ */
+export function selectToken(address: string): Query<TokenInfoRow> {
+  return {
+    sql: `${selectTokens().sql} WHERE address = ?`,
+    params: [address.toLowerCase()],
+  };
+}
+
+/**
+ * Query returning every route.
+ *
+ * @returns {Query<RouteRow>} Query
+ */
+export function selectRoutes(): Query<RouteRow> {
+  return {
+    sql: `SELECT id, path FROM ${TABLES.ROUTE}`,
+    params: [],
+  };
+}
+
+/**
+ * Checks that a database can be used by code built for SCHEMA_VERSION.
+ *
+ * @param {number} version - Version of the database, 0 if unversioned
+ * @throws {SchemaVersionError} If the database is older or newer
+ */
+export function checkSchemaVersion(version: number): void {
+  if (version !== SCHEMA_VERSION) {
+    throw new SchemaVersionError(version, SCHEMA_VERSION);
+  }
+}
+
+/**
+ * Returns the version of a database on a migration connection.
+ *
+ * @param {MigrationConnection} db - Connection
+ * @returns {number} Version, 0 if the database is unversioned
+ */
+export function getSchemaVersion(db: MigrationConnection): number {
+  const table = selectSchemaTable();
+  if (db.all(table.sql, ...table.params).length === 0) return 0;
+  const [row] = db.all<{ version: number | null }>(selectSchemaVersion().sql);
+  return row?.version ?? 0;
+}
+
+/**
+ * Applies every pending migration, each in its own transaction.
+ *
+ * @param {MigrationConnection} db - Connection
+ * @returns {Migration[]} Migrations applied
+ * @throws {SchemaVersionError} If the database is newer than this code
+ */
+export function migrate(db: MigrationConnection): Migration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${TABLES.SCHEMA_VERSION} (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+  const current = getSchemaVersion(db);
+  if (current > SCHEMA_VERSION) {
+    throw new SchemaVersionError(current, SCHEMA_VERSION);
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > current);
+  for (const migration of pending) {
+    db.exec("BEGIN");
+    try {
+      migration.up(db);
+      db.run(
+        `INSERT INTO ${TABLES.SCHEMA_VERSION} (version, description) VALUES (?, ?)`,
+        migration.version,
+        migration.description,
+      );
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+  return pending;
+}
@@ -0,0 +1,389 @@
+/**
+ * Structured, leveled logging shared by GT_DB and check_arbitrage.
+ * Every module logs through a named logger; records carry a timestamp,
+ * level, module, message and optional fields, and are written to the
+ * configured sinks:
+ *
+ * - the console, as readable text or one JSON object per line
+ * - an optional log file, always JSON lines, rotated once it reaches a
+ *   size limit so that only the newest few files are kept
+ *
+ * Records below the configured level are dropped before they are formatted;
+ * callers building expensive messages check {@link Logger.isEnabled} first.
+ *
+ * This module has no dependencies so that both packages can use it.
+ *
+ * @module logger
+ */
+
+import fs from "fs";
+import path from "path";
+
+/**
+ * Severity of a record, in increasing order.
+ *
+ * @typedef {"debug" | "info" | "warn" | "error"} LogLevel
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Levels in increasing order of severity */
+export const LOG_LEVELS: readonly LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+];
+
+/**
+ * Output format of the console.
+ *
+ * @typedef {"text" | "json"} LogFormat
+ */
+export type LogFormat = "text" | "json";
+
+/** Formats of the console */
+export const LOG_FORMATS: readonly LogFormat[] = ["text", "json"];
+
+/**
+ * Additional data of a record. Errors are written with their stack and
+ * bigints as decimal strings.
+ *
+ * @typedef {Record<string, unknown>} LogFields
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A single log record.
+ *
+ * @interface LogRecord
+ */
+export interface LogRecord {
+  /** ISO 8601 timestamp */
+  time: string;
+
+  /** Severity */
+  level: LogLevel;
+
+  /** Name of the logger that wrote the record */
+  module: string;
+
+  /** Message */
+  msg: string;
+
+  /** Additional data, if any */
+  fields?: LogFields;
+}
+
+/**
+ * Destination of log records.
+ *
+ * @interface LogSink
+ */
+export interface LogSink {
+  /** Writes a record */
+  write(record: LogRecord): void;
+
+  /** Flushes and releases the sink */
+  close?(): void;
+}
+
+/**
+ * Options of {@link configureLogging}.
+ *
+ * @interface LoggingOptions
+ */
+export interface LoggingOptions {
+  /** Lowest level written */
+  level: LogLevel;
+
+  /** Format of the console */
+  format: LogFormat;
+
+  /** Log file, null to log to the console only */
+  file: string | null;
+
+  /** Size in bytes at which the log file is rotated */
+  maxFileSize: number;
+
+  /** Rotated files kept next to the current one */
+  maxFiles: number;
+}
+
+/**
+ * Converts field values that JSON cannot represent.
+ *
+ * @param {string} _key - Key of the value
+ * @param {unknown} value - Value to convert
+ * @returns {unknown} Serializable value
+ */
+function replaceValue(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Serializes a record as a single JSON line, fields at the top level.
+ *
+ * @param {LogRecord} record - Record to serialize
+ * @returns {string} JSON line without trailing newline
+ */
+export function formatJson(record: LogRecord): string {
+  const { fields, ...base } = record;
+  return JSON.stringify({ ...fields, ...base }, replaceValue);
+}
+
+/**
+ * Formats a record as readable text: time, level, module, message and
+ * `key=value` fields. The stack of an `error` field follows on the next
+ * lines.
+ *
+ * @param {LogRecord} record - Record to format
+ * @returns {string} Text without trailing newline
+ */
+export function formatText(record: LogRecord): string {
+  const level = record.level.toUpperCase().padEnd(5);
+  let line = `${record.time} ${level} [${record.module}] ${record.msg}`;
+  let stack = "";
+  for (const [key, value] of Object.entries(record.fields ?? {})) {
+    if (value instanceof Error) {
+      line += ` ${key}=${JSON.stringify(value.message)}`;
+      stack += value.stack ? `\n${value.stack}` : "";
+    } else {
+      const text =
+        typeof value === "string" || typeof value === "bigint"
+          ? String(value)
+          : JSON.stringify(value, replaceValue);
+      line += ` ${key}=${/\s/.test(text) ? JSON.stringify(text) : text}`;
+    }
+  }
+  return line + stack;
+}
+
+/**
+ * Writes records to stdout, warnings and errors to stderr.
+ *
+ * @class ConsoleSink
+ */
+export class ConsoleSink implements LogSink {
+  /**
+   * @param {LogFormat} format - Output format
+   */
+  constructor(private readonly format: LogFormat) {}
+
+  write(record: LogRecord) {
+    const line =
+      this.format === "json" ? formatJson(record) : formatText(record);
+    const stream =
+      record.level === "warn" || record.level === "error"
+        ? process.stderr
+        : process.stdout;
+    stream.write(line + "\n");
+  }
+}
+
+/**
+ * Appends JSON lines to a file. Once the file would exceed its size limit it
+ * is renamed to `<file>.1`, earlier rotations move up by one and the oldest
+ * beyond `maxFiles` is deleted. Writes are synchronous so that records are
+ * not lost when the process exits.
+ *
+ * @class RotatingFileSink
+ */
+export class RotatingFileSink implements LogSink {
+  /** Descriptor of the current file, null once closed */
+  private fd: number | null;
+
+  /** Size of the current file in bytes */
+  private size: number;
+
+  /**
+   * Opens the log file, creating its directory if needed.
+   *
+   * @param {string} file - Log file path
+   * @param {number} maxFileSize - Size in bytes at which the file is rotated
+   * @param {number} maxFiles - Rotated files kept
+   */
+  constructor(
+    private readonly file: string,
+    private readonly maxFileSize: number,
+    private readonly maxFiles: number,
+  ) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    this.fd = fs.openSync(file, "a");
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  write(record: LogRecord) {
+    if (this.fd === null) return;
+    const line = Buffer.from(formatJson(record) + "\n");
+    if (this.size > 0 && this.size + line.length > this.maxFileSize) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd!, line);
+    this.size += line.length;
+  }
+
+  /**
+   * Moves the current file to `<file>.1` and starts an empty one.
+   *
+   * @private
+   */
+  private rotate() {
+    fs.closeSync(this.fd!);
+    fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${this.file}.${i}`)) {
+        fs.renameSync(`${this.file}.${i}`, `${this.file}.${i + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.file, `${this.file}.1`);
+    }
+    this.fd = fs.openSync(this.file, "w");
+    this.size = 0;
+  }
+
+  close() {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+/** Lowest level written, shared by every logger */
+let minLevel = LOG_LEVELS.indexOf("info");
+
+/** Sinks every record is written to */
+let sinks: LogSink[] = [new ConsoleSink("text")];
+
+/**
+ * Named logger of a module. Reads the level and sinks configured with
+ * {@link configureLogging} on every call, so loggers can be created at
+ * import time.
+ *
+ * @class Logger
+ */
+export class Logger {
+  /**
+   * @param {string} module - Name written with every record
+   */
+  constructor(readonly module: string) {}
+
+  /**
+   * Returns whether records of a level are written.
+   *
+   * @param {LogLevel} level - Level to check
+   * @returns {boolean} True if the level is at or above the configured one
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= minLevel;
+  }
+
+  /**
+   * Writes a record if its level is enabled.
+   *
+   * @param {LogLevel} level - Severity
+   * @param {string} msg - Message
+   * @param {LogFields} [fields] - Additional data
+   */
+  log(level: LogLevel, msg: string, fields?: LogFields) {
+    if (!this.isEnabled(level)) return;
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      module: this.module,
+      msg,
+    };
+    if (fields && Object.keys(fields).length > 0) record.fields = fields;
+    for (const sink of sinks) {
+      try {
+        sink.write(record);
+      } catch (error) {
+        // Logging must never break the caller
+        process.stderr.write(
+          `Log sink failed: ${(error as Error).message}\n`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Writes a debug record.
+   *
+   * @param {string} msg - Message
+   * @param {LogFields} [fields] - Additional data
+   */
+  debug(msg: string, fields?: LogFields) {
+    this.log("debug", msg, fields);
+  }
+
+  /**
+   * Writes an info record.
+   *
+   * @param {string} msg - Message
+   * @param {LogFields} [fields] - Additional data
+   */
+  info(msg: string, fields?: LogFields) {
+    this.log("info", msg, fields);
+  }
+
+  /**
+   * Writes a warning record.
+   *
+   * @param {string} msg - Message
+   * @param {LogFields} [fields] - Additional data
+   */
+  warn(msg: string, fields?: LogFields) {
+    this.log("warn", msg, fields);
+  }
+
+  /**
+   * Writes an error record.
+   *
+   * @param {string} msg - Message
+   * @param {LogFields} [fields] - Additional data
+   */
+  error(msg: string, fields?: LogFields) {
+    this.log("error", msg, fields);
+  }
+}
+
+/**
+ * Returns the logger of a module.
+ *
+ * @param {string} module - Module name, e.g. "calculator"
+ * @returns {Logger} Logger writing records tagged with the module
+ */
+export function getLogger(module: string): Logger {
+  return new Logger(module);
+}
+
+/**
+ * Sets the level and sinks of every logger, closing the previous sinks.
+ * Until called, info and above are written to the console as text.
+ *
+ * @param {LoggingOptions} options - Logging options
+ */
+export function configureLogging(options: LoggingOptions) {
+  closeLogging();
+  minLevel = LOG_LEVELS.indexOf(options.level);
+  sinks = [new ConsoleSink(options.format)];
+  if (options.file) {
+    sinks.push(
+      new RotatingFileSink(options.file, options.maxFileSize, options.maxFiles),
+    );
+  }
+}
+
+/**
+ * Closes the sinks, flushing the log file. Later records go to the console
+ * as text.
+ */
+export function closeLogging() {
+  sinks.forEach((sink) => sink.close?.());
+  sinks = [new ConsoleSink("text")];
+}
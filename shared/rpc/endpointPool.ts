@@ -0,0 +1,277 @@
+/**
+ * Health-aware selection of RPC endpoints shared by GT_DB and check_arbitrage.
+ * Keeps a latency and failure score for every configured HTTP and WebSocket
+ * endpoint, puts failing endpoints in exponential backoff and fails requests
+ * over to the next best endpoint.
+ *
+ * This module only depends on other shared modules so that both packages
+ * can use it with their own ethers version.
+ *
+ * @module endpointPool
+ */
+
+import { getLogger } from "../logging/logger";
+
+/** Logger of endpoint failures */
+const logger = getLogger("rpc");
+
+/**
+ * Transport of an RPC endpoint, derived from its URL scheme.
+ *
+ * @typedef {"http" | "ws"} EndpointKind
+ */
+export type EndpointKind = "http" | "ws";
+
+/**
+ * Options of an endpoint pool.
+ *
+ * @interface EndpointPoolOptions
+ */
+export interface EndpointPoolOptions {
+  /** Endpoint URLs (http(s):// or ws(s)://), in order of preference */
+  endpoints: string[];
+
+  /** Backoff after the first failure of an endpoint, in milliseconds */
+  baseBackoffMs?: number;
+
+  /** Upper bound of the backoff, in milliseconds */
+  maxBackoffMs?: number;
+
+  /** Weight of the newest sample in the latency moving average (0-1] */
+  latencySmoothing?: number;
+}
+
+/**
+ * Health and latency of an endpoint.
+ *
+ * @interface EndpointStatus
+ */
+export interface EndpointStatus {
+  /** Endpoint URL */
+  url: string;
+
+  /** Transport of the endpoint */
+  kind: EndpointKind;
+
+  /** Whether the endpoint is outside its backoff window */
+  available: boolean;
+
+  /** Moving average of request latency, null until the first success */
+  latencyMs: number | null;
+
+  /** Failures since the last success */
+  consecutiveFailures: number;
+
+  /** Time (ms since epoch) before which the endpoint is not used */
+  retryAt: number;
+
+  /** Requests that succeeded */
+  successes: number;
+
+  /** Requests that failed */
+  failures: number;
+}
+
+/**
+ * Returns the transport of an endpoint URL.
+ *
+ * @param {string} url - Endpoint URL
+ * @returns {EndpointKind} "ws" for ws(s):// URLs, "http" otherwise
+ * @throws {Error} If the URL scheme is not supported
+ */
+export function getEndpointKind(url: string): EndpointKind {
+  if (/^wss?:\/\//i.test(url)) return "ws";
+  if (/^https?:\/\//i.test(url)) return "http";
+  throw new Error(`Unsupported RPC endpoint URL: ${url}`);
+}
+
+export class EndpointPool {
+  /** Status of every endpoint, in configuration order */
+  private endpoints: EndpointStatus[];
+
+  /** Backoff after the first failure of an endpoint */
+  private baseBackoffMs: number;
+
+  /** Upper bound of the backoff */
+  private maxBackoffMs: number;
+
+  /** Weight of the newest latency sample */
+  private latencySmoothing: number;
+
+  /**
+   * Creates a new EndpointPool instance.
+   *
+   * @param {EndpointPoolOptions} options - Endpoints and scoring options
+   * @throws {Error} If no endpoint is given or a URL is not supported
+   */
+  constructor(options: EndpointPoolOptions) {
+    if (options.endpoints.length === 0) {
+      throw new Error("At least one RPC endpoint is required");
+    }
+    this.baseBackoffMs = options.baseBackoffMs ?? 1_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60_000;
+    this.latencySmoothing = options.latencySmoothing ?? 0.3;
+    this.endpoints = Array.from(new Set(options.endpoints)).map((url) => ({
+      url,
+      kind: getEndpointKind(url),
+      available: true,
+      latencyMs: null,
+      consecutiveFailures: 0,
+      retryAt: 0,
+      successes: 0,
+      failures: 0,
+    }));
+  }
+
+  /**
+   * Returns the endpoints of a transport, best first. Endpoints outside
+   * their backoff window come first, ordered by latency (unmeasured ones
+   * after measured ones, in configuration order); endpoints in backoff
+   * follow, ordered by the end of their backoff.
+   *
+   * @param {EndpointKind} kind - Transport
+   * @returns {string[]} Endpoint URLs
+   */
+  getCandidates(kind: EndpointKind): string[] {
+    const now = Date.now();
+    const matching = this.endpoints.filter((endpoint) => endpoint.kind === kind);
+    const available = matching
+      .filter((endpoint) => endpoint.retryAt <= now)
+      .sort(
+        (a, b) =>
+          (a.latencyMs ?? Number.POSITIVE_INFINITY) -
+          (b.latencyMs ?? Number.POSITIVE_INFINITY),
+      );
+    const backingOff = matching
+      .filter((endpoint) => endpoint.retryAt > now)
+      .sort((a, b) => a.retryAt - b.retryAt);
+    return [...available, ...backingOff].map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Returns the best endpoint of a transport.
+   *
+   * @param {EndpointKind} kind - Transport
+   * @returns {string} Endpoint URL
+   * @throws {Error} If no endpoint of this transport is configured
+   */
+  select(kind: EndpointKind): string {
+    const [best] = this.getCandidates(kind);
+    if (!best) {
+      throw new Error(`No ${kind} RPC endpoint configured`);
+    }
+    return best;
+  }
+
+  /**
+   * Records a successful request and its latency. Clears the backoff.
+   *
+   * @param {string} url - Endpoint URL
+   * @param {number} latencyMs - Request latency in milliseconds
+   */
+  reportSuccess(url: string, latencyMs: number) {
+    const endpoint = this.getEndpoint(url);
+    endpoint.successes++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.retryAt = 0;
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs +
+          this.latencySmoothing * (latencyMs - endpoint.latencyMs);
+  }
+
+  /**
+   * Records a failed request and puts the endpoint in backoff. The backoff
+   * doubles with every consecutive failure, up to the configured maximum.
+   *
+   * @param {string} url - Endpoint URL
+   * @returns {number} Backoff in milliseconds before the endpoint is used again
+   */
+  reportFailure(url: string): number {
+    const endpoint = this.getEndpoint(url);
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    const backoff = Math.min(
+      this.baseBackoffMs * 2 ** (endpoint.consecutiveFailures - 1),
+      this.maxBackoffMs,
+    );
+    endpoint.retryAt = Date.now() + backoff;
+    return backoff;
+  }
+
+  /**
+   * Returns the time until the best endpoint of a transport can be used.
+   *
+   * @param {EndpointKind} kind - Transport
+   * @returns {number} Delay in milliseconds, 0 if an endpoint is available
+   */
+  getRetryDelay(kind: EndpointKind): number {
+    const endpoint = this.getEndpoint(this.select(kind));
+    return Math.max(endpoint.retryAt - Date.now(), 0);
+  }
+
+  /**
+   * Runs a request against the best endpoint of a transport, failing over
+   * to the next one on error. Latency and failures are recorded.
+   *
+   * @param {EndpointKind} kind - Transport
+   * @param {(url: string) => Promise<T>} request - Request to run against an endpoint
+   * @async
+   * @returns {Promise<T>} Result of the first successful attempt
+   * @throws {Error} The last error if every endpoint failed
+   */
+  async execute<T>(
+    kind: EndpointKind,
+    request: (url: string) => Promise<T>,
+  ): Promise<T> {
+    const candidates = this.getCandidates(kind);
+    if (candidates.length === 0) {
+      throw new Error(`No ${kind} RPC endpoint configured`);
+    }
+
+    let lastError: unknown;
+    for (const url of candidates) {
+      const startedAt = Date.now();
+      try {
+        const result = await request(url);
+        this.reportSuccess(url, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        lastError = error;
+        this.reportFailure(url);
+        logger.warn("RPC request failed, trying next endpoint", { url, error });
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Returns a snapshot of the health of every endpoint.
+   *
+   * @returns {EndpointStatus[]} Endpoint statuses, in configuration order
+   */
+  getStatus(): EndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      ...endpoint,
+      available: endpoint.retryAt <= now,
+    }));
+  }
+
+  /**
+   * Looks up the status of an endpoint.
+   *
+   * @param {string} url - Endpoint URL
+   * @private
+   * @returns {EndpointStatus} Mutable status entry
+   * @throws {Error} If the endpoint is not part of the pool
+   */
+  private getEndpoint(url: string): EndpointStatus {
+    const endpoint = this.endpoints.find((item) => item.url === url);
+    if (!endpoint) {
+      throw new Error(`Unknown RPC endpoint: ${url}`);
+    }
+    return endpoint;
+  }
+}